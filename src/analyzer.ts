@@ -1,4 +1,5 @@
 import * as path from 'path';
+import { SyntaxChunk, TypeScriptChunker, TreeSitterChunker } from './chunker';
 
 export interface PatternCandidate {
     language: string;
@@ -7,11 +8,64 @@ export interface PatternCandidate {
     filePath: string;
     startLine: number;
     endLine: number;
+
+    // Present when the chunk came from an AST chunker
+    kind?: 'function' | 'method' | 'class';
+    symbolName?: string; // Enclosing symbol (e.g. "AuthService.login")
+    signature?: string;
+    docComment?: string;
 }
 
 export class PatternAnalyzer {
+    private tsChunker = new TypeScriptChunker();
+    private treeSitterChunker = new TreeSitterChunker();
+
+    async findPatterns(fileContent: string, filePath: string): Promise<PatternCandidate[]> {
+        const lineCount = fileContent.split('\n').length;
+        const ext = path.extname(filePath).substring(1); // .ts -> ts
+
+        // heuristic: ignore very short files
+        if (lineCount < 5) {
+            return [];
+        }
+
+        // 1. AST chunking: one candidate per function, method or class
+        const syntaxChunks = await this.chunkSyntax(fileContent, filePath);
+        if (syntaxChunks.length > 0) {
+            return syntaxChunks.map(c => ({
+                language: ext,
+                content: c.content,
+                projectPath: path.dirname(filePath),
+                filePath: filePath,
+                startLine: c.startLine,
+                endLine: c.endLine,
+                kind: c.kind,
+                symbolName: c.symbolName,
+                signature: c.signature,
+                docComment: c.docComment
+            }));
+        }
+
+        // 2. Fallback for unknown languages (or files without any symbols)
+        return this.findPatternsByRegex(fileContent, filePath);
+    }
+
+    private async chunkSyntax(fileContent: string, filePath: string): Promise<SyntaxChunk[]> {
+        const ext = path.extname(filePath).substring(1).toLowerCase();
+        try {
+            if (TypeScriptChunker.supports(ext)) {
+                return this.tsChunker.chunk(fileContent, filePath);
+            }
+            if (TreeSitterChunker.supports(ext)) {
+                return await this.treeSitterChunker.chunk(fileContent, filePath);
+            }
+        } catch (e) {
+            console.error(`[PatternAnalyzer] AST chunking failed for ${path.basename(filePath)}, using regex fallback:`, e);
+        }
+        return [];
+    }
 
-    findPatterns(fileContent: string, filePath: string): PatternCandidate[] {
+    findPatternsByRegex(fileContent: string, filePath: string): PatternCandidate[] {
         const lines = fileContent.split('\n');
         const lineCount = lines.length;
         const ext = path.extname(filePath).substring(1); // .ts -> ts
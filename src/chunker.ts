@@ -0,0 +1,309 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import Parser = require('web-tree-sitter');
+
+/**
+ * A syntactic unit (function, method or class) found by an AST chunker.
+ * Lines are 0-based and inclusive, and include any leading doc comment.
+ */
+export interface SyntaxChunk {
+    kind: 'function' | 'method' | 'class';
+    symbolName: string; // Qualified name, e.g. "AuthService.login"
+    signature: string;
+    docComment: string;
+    content: string;
+    startLine: number;
+    endLine: number;
+}
+
+// Classes longer than this are split into their methods instead of being stored whole
+const MAX_CLASS_LINES = 80;
+
+function collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function lineOf(text: string, offset: number): number {
+    let line = 0;
+    for (let i = 0; i < offset && i < text.length; i++) {
+        if (text.charCodeAt(i) === 10) line++;
+    }
+    return line;
+}
+
+// --- TypeScript / JavaScript (compiler API) ---
+
+const TS_SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+    ts: ts.ScriptKind.TS,
+    tsx: ts.ScriptKind.TSX,
+    mts: ts.ScriptKind.TS,
+    cts: ts.ScriptKind.TS,
+    js: ts.ScriptKind.JS,
+    jsx: ts.ScriptKind.JSX,
+    mjs: ts.ScriptKind.JS,
+    cjs: ts.ScriptKind.JS
+};
+
+export class TypeScriptChunker {
+    public static supports(ext: string): boolean {
+        return ext in TS_SCRIPT_KINDS;
+    }
+
+    public chunk(fileContent: string, filePath: string): SyntaxChunk[] {
+        const ext = path.extname(filePath).substring(1).toLowerCase();
+        const sourceFile = ts.createSourceFile(filePath, fileContent, ts.ScriptTarget.Latest, true, TS_SCRIPT_KINDS[ext]);
+        const chunks: SyntaxChunk[] = [];
+        this.visitStatements(sourceFile.statements, sourceFile, '', chunks);
+        return chunks;
+    }
+
+    private visitStatements(statements: ts.NodeArray<ts.Statement>, sourceFile: ts.SourceFile, prefix: string, chunks: SyntaxChunk[]) {
+        for (const statement of statements) {
+            if (ts.isFunctionDeclaration(statement) && statement.body) {
+                const name = statement.name ? statement.name.text : 'default';
+                chunks.push(this.toChunk(statement, statement, statement.body, sourceFile, 'function', prefix + name));
+            } else if (ts.isClassDeclaration(statement)) {
+                const name = statement.name ? statement.name.text : 'default';
+                this.visitClass(statement, statement, sourceFile, prefix + name, chunks);
+            } else if (ts.isVariableStatement(statement)) {
+                for (const decl of statement.declarationList.declarations) {
+                    if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+                    const init = decl.initializer;
+                    // Only attach the statement's doc comment to its first declaration
+                    const outer = statement.declarationList.declarations[0] === decl ? statement : decl;
+                    if (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) {
+                        chunks.push(this.toChunk(outer, outer, init.body, sourceFile, 'function', prefix + decl.name.text));
+                    } else if (ts.isClassExpression(init)) {
+                        this.visitClass(outer, init, sourceFile, prefix + decl.name.text, chunks);
+                    }
+                }
+            } else if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+                this.visitStatements(statement.body.statements, sourceFile, `${prefix}${statement.name.getText(sourceFile)}.`, chunks);
+            }
+        }
+    }
+
+    private visitClass(outer: ts.Node, cls: ts.ClassLikeDeclaration, sourceFile: ts.SourceFile, name: string, chunks: SyntaxChunk[]) {
+        const bodyStart = cls.members.pos - 1; // Position of "{"
+        const startLine = sourceFile.getLineAndCharacterOfPosition(outer.getStart(sourceFile)).line;
+        const endLine = sourceFile.getLineAndCharacterOfPosition(outer.getEnd()).line;
+
+        if (endLine - startLine + 1 <= MAX_CLASS_LINES || cls.members.length === 0) {
+            chunks.push(this.toChunk(outer, cls, undefined, sourceFile, 'class', name, bodyStart));
+            return;
+        }
+
+        for (const member of cls.members) {
+            if ((ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) && member.body) {
+                chunks.push(this.toChunk(member, member, member.body, sourceFile, 'method', `${name}.${member.name.getText(sourceFile)}`));
+            } else if (ts.isConstructorDeclaration(member) && member.body) {
+                chunks.push(this.toChunk(member, member, member.body, sourceFile, 'method', `${name}.constructor`));
+            } else if (ts.isPropertyDeclaration(member) && member.initializer &&
+                (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer))) {
+                chunks.push(this.toChunk(member, member, member.initializer.body, sourceFile, 'method', `${name}.${member.name.getText(sourceFile)}`));
+            }
+        }
+    }
+
+    /**
+     * @param outer Node owning the leading comments and full text (e.g. the VariableStatement)
+     * @param decl Node whose text starts the signature
+     * @param body Body node; the signature ends where it begins
+     */
+    private toChunk(outer: ts.Node, decl: ts.Node, body: ts.Node | undefined, sourceFile: ts.SourceFile,
+        kind: SyntaxChunk['kind'], symbolName: string, signatureEnd?: number): SyntaxChunk {
+        const text = sourceFile.text;
+        const docStart = this.leadingDocCommentStart(outer, sourceFile);
+        const declStart = outer.getStart(sourceFile);
+        const start = docStart !== undefined ? docStart : declStart;
+        const end = outer.getEnd();
+
+        const sigEnd = signatureEnd !== undefined ? signatureEnd : (body ? body.getStart(sourceFile) : end);
+        const signature = collapse(text.substring(decl.getStart(sourceFile), sigEnd)).replace(/\s*(=>|=)?\s*$/, '');
+
+        return {
+            kind,
+            symbolName,
+            signature,
+            docComment: docStart !== undefined ? text.substring(docStart, declStart).trim() : '',
+            content: text.substring(start, end),
+            startLine: sourceFile.getLineAndCharacterOfPosition(start).line,
+            endLine: sourceFile.getLineAndCharacterOfPosition(end).line
+        };
+    }
+
+    /**
+     * Returns the start of the comment block directly above the node (no blank line in between).
+     */
+    private leadingDocCommentStart(node: ts.Node, sourceFile: ts.SourceFile): number | undefined {
+        const text = sourceFile.text;
+        const ranges = ts.getLeadingCommentRanges(text, node.getFullStart());
+        if (!ranges || ranges.length === 0) return undefined;
+
+        let boundary = node.getStart(sourceFile);
+        let start: number | undefined;
+        for (let i = ranges.length - 1; i >= 0; i--) {
+            const gap = text.substring(ranges[i].end, boundary);
+            if ((gap.match(/\n/g) || []).length > 1) break; // Blank line: not attached
+            start = ranges[i].pos;
+            boundary = ranges[i].pos;
+        }
+        return start;
+    }
+}
+
+// --- Python / Go / Rust (WASM tree-sitter grammars) ---
+
+interface GrammarSpec {
+    wasm: string;
+    // Node types that start a chunk, and their kind
+    functions: string[];
+    classes: string[];
+    // Node types whose children are methods (class bodies, impl blocks)
+    containers: string[];
+}
+
+const GRAMMARS: Record<string, GrammarSpec> = {
+    py: {
+        wasm: 'tree-sitter-python.wasm',
+        functions: ['function_definition'],
+        classes: ['class_definition'],
+        containers: ['class_definition']
+    },
+    go: {
+        wasm: 'tree-sitter-go.wasm',
+        functions: ['function_declaration', 'method_declaration'],
+        classes: ['type_declaration'],
+        containers: []
+    },
+    rs: {
+        wasm: 'tree-sitter-rust.wasm',
+        functions: ['function_item'],
+        classes: ['struct_item', 'enum_item', 'trait_item'],
+        containers: ['impl_item', 'trait_item']
+    }
+};
+
+export class TreeSitterChunker {
+    private static initPromise: Promise<void> | null = null;
+    private static languages: Map<string, Promise<Parser.Language>> = new Map();
+
+    public static supports(ext: string): boolean {
+        return ext in GRAMMARS;
+    }
+
+    private static async getLanguage(ext: string): Promise<Parser.Language> {
+        if (!TreeSitterChunker.initPromise) {
+            TreeSitterChunker.initPromise = Parser.init();
+        }
+        await TreeSitterChunker.initPromise;
+
+        if (!TreeSitterChunker.languages.has(ext)) {
+            const wasmDir = path.join(path.dirname(require.resolve('tree-sitter-wasms/package.json')), 'out');
+            TreeSitterChunker.languages.set(ext, Parser.Language.load(path.join(wasmDir, GRAMMARS[ext].wasm)));
+        }
+        return TreeSitterChunker.languages.get(ext)!;
+    }
+
+    public async chunk(fileContent: string, filePath: string): Promise<SyntaxChunk[]> {
+        const ext = path.extname(filePath).substring(1).toLowerCase();
+        const spec = GRAMMARS[ext];
+        const language = await TreeSitterChunker.getLanguage(ext);
+        const parser = new Parser();
+        try {
+            parser.setLanguage(language);
+            const tree = parser.parse(fileContent);
+            const chunks: SyntaxChunk[] = [];
+            this.visit(tree.rootNode, fileContent, ext, spec, '', chunks);
+            tree.delete();
+            return chunks;
+        } finally {
+            parser.delete();
+        }
+    }
+
+    private visit(node: Parser.SyntaxNode, text: string, ext: string, spec: GrammarSpec, prefix: string, chunks: SyntaxChunk[]) {
+        for (const child of node.namedChildren) {
+            // Python decorators wrap the definition
+            const target = child.type === 'decorated_definition' ? child.childForFieldName('definition') : child;
+            if (!target) continue;
+
+            if (spec.functions.includes(target.type)) {
+                const kind = (prefix || target.type === 'method_declaration') ? 'method' : 'function';
+                chunks.push(this.toChunk(child, target, text, ext, kind, prefix + this.nameOf(target, ext)));
+            } else if (target.type === 'impl_item') {
+                // Rust: methods are qualified by the implemented type
+                const typeNode = target.childForFieldName('type');
+                const body = target.childForFieldName('body');
+                if (body) this.visit(body, text, ext, spec, `${typeNode ? typeNode.text : 'impl'}::`, chunks);
+            } else if (spec.classes.includes(target.type)) {
+                const name = this.nameOf(target, ext);
+                const lines = child.endPosition.row - child.startPosition.row + 1;
+                const body = target.childForFieldName('body');
+
+                if (lines <= MAX_CLASS_LINES || !body || !spec.containers.includes(target.type)) {
+                    chunks.push(this.toChunk(child, target, text, ext, 'class', prefix + name));
+                } else {
+                    this.visit(body, text, ext, spec, `${prefix}${name}${ext === 'rs' ? '::' : '.'}`, chunks);
+                }
+            }
+        }
+    }
+
+    private nameOf(node: Parser.SyntaxNode, ext: string): string {
+        if (node.type === 'type_declaration') {
+            // Go: type Foo struct {...} -> type_spec holds the name
+            const spec = node.namedChildren.find(c => c.type === 'type_spec');
+            const specName = spec ? spec.childForFieldName('name') : null;
+            return specName ? specName.text : 'type';
+        }
+
+        const name = node.childForFieldName('name');
+        if (ext === 'go' && node.type === 'method_declaration') {
+            // Go: func (r *Repo) Find() -> Repo.Find
+            const receiver = node.childForFieldName('receiver');
+            const receiverType = receiver ? (receiver.text.match(/([A-Za-z_][\w]*)\s*(?:\[[^\]]*\])?\s*\)\s*$/) || [])[1] : undefined;
+            return `${receiverType ? receiverType + '.' : ''}${name ? name.text : 'method'}`;
+        }
+        return name ? name.text : 'anonymous';
+    }
+
+    private toChunk(outer: Parser.SyntaxNode, decl: Parser.SyntaxNode, text: string, ext: string,
+        kind: SyntaxChunk['kind'], symbolName: string): SyntaxChunk {
+        const body = decl.childForFieldName('body');
+        const firstLineEnd = text.indexOf('\n', decl.startIndex);
+        const sigEnd = body ? body.startIndex : (firstLineEnd !== -1 && firstLineEnd < decl.endIndex ? firstLineEnd : decl.endIndex);
+        let signature = collapse(text.substring(outer.startIndex, sigEnd));
+        if (ext === 'py') signature = signature.replace(/:$/, '');
+
+        const comments: Parser.SyntaxNode[] = [];
+        let prev = outer.previousNamedSibling;
+        let boundaryRow = outer.startPosition.row;
+        while (prev && (prev.type === 'comment' || prev.type === 'line_comment' || prev.type === 'block_comment')
+            && boundaryRow - prev.endPosition.row <= 1) {
+            comments.unshift(prev);
+            boundaryRow = prev.startPosition.row;
+            prev = prev.previousNamedSibling;
+        }
+
+        let docComment = comments.map(c => c.text).join('\n');
+        if (ext === 'py' && body) {
+            // Python: the docstring lives inside the body
+            const first = body.namedChildren[0];
+            if (first && first.type === 'expression_statement' && first.namedChildren[0] && first.namedChildren[0].type === 'string') {
+                docComment = first.namedChildren[0].text;
+            }
+        }
+
+        const startIndex = comments.length > 0 ? comments[0].startIndex : outer.startIndex;
+        return {
+            kind,
+            symbolName,
+            signature,
+            docComment,
+            content: text.substring(startIndex, outer.endIndex),
+            startLine: lineOf(text, startIndex),
+            endLine: outer.endPosition.row
+        };
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Churn classification: what became of a recently saved chunk that is no longer in its file.
+ * Similarity is a Dice coefficient over code tokens, so renames and reformatting score high
+ * while unrelated code scores low.
+ */
+
+/**
+ * - moved: found in another file
+ * - refactored: still in the file, changed in place (renamed, reformatted, edited)
+ * - reverted: the file holds an earlier version of the same code again
+ * - deleted: gone
+ */
+export type ChurnKind = 'moved' | 'refactored' | 'reverted' | 'deleted';
+
+const TOKEN = /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|[^\s\w(){}[\];,.:]/g; // Brackets and separators left out: all code has them
+
+// Windows tried relative to the snippet's line count (reformatting changes how many lines it takes)
+const WINDOW_SCALES = [0.5, 1, 1.5, 2];
+
+export function normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/** True if `code` appears in `content` verbatim, ignoring whitespace. */
+export function containsCode(content: string, code: string): boolean {
+    const normalized = normalizeWhitespace(code);
+    return normalized.length > 0 && normalizeWhitespace(content).includes(normalized);
+}
+
+export function codeTokens(text: string): string[] {
+    return text.match(TOKEN) || [];
+}
+
+function tokenCounts(tokens: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+    return counts;
+}
+
+/** Dice coefficient over token multisets (0-1). */
+export function codeSimilarity(a: string, b: string): number {
+    const tokensA = codeTokens(a);
+    const tokensB = codeTokens(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+    const countsA = tokenCounts(tokensA);
+    let shared = 0;
+    for (const [token, count] of tokenCounts(tokensB)) {
+        shared += Math.min(count, countsA.get(token) || 0);
+    }
+    return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Highest similarity between `snippet` and any run of consecutive lines in `content`, i.e. how
+ * well the snippet survives somewhere in the file. Windows slide one line at a time with the
+ * shared-token count updated incrementally.
+ */
+export function bestWindowSimilarity(snippet: string, content: string): number {
+    const snippetTokens = codeTokens(snippet);
+    const snippetCounts = tokenCounts(snippetTokens);
+    const snippetSize = snippetTokens.length;
+    const snippetLines = snippet.split('\n').filter(l => l.trim()).length;
+    const lines = content.split('\n').map(codeTokens).filter(tokens => tokens.length > 0);
+    if (snippetSize === 0 || lines.length === 0) return 0;
+
+    let best = 0;
+    const sizes = Array.from(new Set(WINDOW_SCALES.map(s => Math.min(lines.length, Math.max(1, Math.round(snippetLines * s))))));
+
+    for (const size of sizes) {
+        const window = new Map<string, number>();
+        let windowSize = 0;
+        let shared = 0;
+
+        const add = (token: string) => {
+            const count = window.get(token) || 0;
+            if (count < (snippetCounts.get(token) || 0)) shared++;
+            window.set(token, count + 1);
+            windowSize++;
+        };
+        const remove = (token: string) => {
+            const count = window.get(token)!;
+            window.set(token, count - 1);
+            if (count - 1 < (snippetCounts.get(token) || 0)) shared--;
+            windowSize--;
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            lines[i].forEach(add);
+            if (i >= size) lines[i - size].forEach(remove);
+            if (i >= size - 1) best = Math.max(best, (2 * shared) / (snippetSize + windowSize));
+        }
+    }
+    return best;
+}
+
+/**
+ * Only code that was thrown away says something about its quality: a revert or deletion of an
+ * AI insertion. Moves and refactors are normal editing, and people delete their own code all the time.
+ */
+export function countsAgainstStability(kind: ChurnKind, source: string | undefined): boolean {
+    return (kind === 'reverted' || kind === 'deleted') && (source === 'ai' || source === 'ai_candidate');
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { RuleManager } from './ruleManager';
+import { MistakeDetector } from './mistakeDetector';
 import { MistakeFingerprint } from './types';
 
 export class ContextInjector {
@@ -39,10 +40,10 @@ export class ContextInjector {
         ];
 
         // Generate the new block
-        const ruleBlock = RuleManager.getInstance().generateRules(fingerprints);
-        if (!ruleBlock) return;
+        const ruleBlock = RuleManager.getInstance().generateRules(fingerprints, MistakeDetector.getInstance().getLifecycleSettings().halfLifeDays);
 
-        const injectionContent = `\n\n${this.START_MARKER}\n${ruleBlock}\n${this.END_MARKER}\n`;
+        // No rules left (learned, snoozed or dismissed): remove blocks injected earlier
+        const injectionContent = ruleBlock ? `\n\n${this.START_MARKER}\n${ruleBlock}\n${this.END_MARKER}\n` : '\n';
 
         for (const targetPath of targets) {
             await this.injectIntoFile(targetPath, injectionContent);
@@ -50,6 +51,9 @@ export class ContextInjector {
     }
 
     private async injectIntoFile(filePath: string, content: string) {
+        const removing = !content.trim();
+        if (removing && !fs.existsSync(filePath)) return;
+
         // Ensure directory exists (e.g. .github)
         const dir = path.dirname(filePath);
         if (!fs.existsSync(dir)) {
@@ -81,6 +85,8 @@ export class ContextInjector {
             const before = fileContent.substring(0, startIdx).trimEnd();
             const after = fileContent.substring(endIdx + this.END_MARKER.length).trimStart();
             newContent = `${before}${content}${after}`;
+        } else if (removing) {
+            return;
         } else {
             // Append
             newContent = `${fileContent.trimEnd()}${content}`;
@@ -0,0 +1,95 @@
+import { pipeline } from '@xenova/transformers';
+
+/**
+ * A backend that turns text into a vector.
+ * `id` uniquely identifies the model (used in the vault manifest to detect model switches).
+ */
+export interface EmbeddingProvider {
+    readonly id: string;
+    embed(text: string): Promise<number[]>;
+}
+
+export type EmbeddingProviderKind = 'local' | 'code' | 'ollama';
+
+export interface EmbeddingConfig {
+    provider: EmbeddingProviderKind;
+    model?: string; // Overrides the provider's default model
+    ollamaEndpoint?: string;
+}
+
+export const DEFAULT_MODELS: Record<EmbeddingProviderKind, string> = {
+    local: 'Xenova/all-MiniLM-L6-v2', // 384 dims, general purpose
+    code: 'Xenova/codebert-base', // 768 dims, trained on code
+    ollama: 'nomic-embed-text' // 768 dims
+};
+
+/**
+ * Local models via transformers.js (downloaded once, then cached on disk).
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+    public readonly id: string;
+    private pipe: any = null;
+
+    constructor(private modelName: string) {
+        this.id = `transformers:${modelName}`;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        if (!this.pipe) {
+            console.log(`[EmbeddingService] Loading model: ${this.modelName}`);
+            // Force local loading or download on first run
+            this.pipe = await pipeline('feature-extraction', this.modelName);
+            console.log('[EmbeddingService] Model loaded.');
+        }
+
+        const result = await this.pipe(text, { pooling: 'mean', normalize: true });
+        return Array.from(result.data) as number[];
+    }
+}
+
+/**
+ * Ollama `/api/embeddings` endpoint.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+    public readonly id: string;
+    private readonly TIMEOUT = 10000;
+
+    constructor(private endpoint: string, private modelName: string) {
+        this.id = `ollama:${modelName}`;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.TIMEOUT);
+
+        try {
+            const response = await fetch(`${this.endpoint}/api/embeddings`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model: this.modelName, prompt: text }),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`Ollama embeddings failed: HTTP ${response.status}`);
+            }
+
+            const data = await response.json() as { embedding?: number[] };
+            if (!data.embedding || data.embedding.length === 0) {
+                throw new Error(`Ollama returned no embedding for model ${this.modelName}`);
+            }
+            return data.embedding;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+    const model = config.model || DEFAULT_MODELS[config.provider] || DEFAULT_MODELS.local;
+
+    if (config.provider === 'ollama') {
+        return new OllamaEmbeddingProvider(config.ollamaEndpoint || 'http://localhost:11434', model);
+    }
+    return new TransformersEmbeddingProvider(model);
+}
@@ -1,9 +1,10 @@
-import { pipeline } from '@xenova/transformers';
+import * as vscode from 'vscode';
+import { EmbeddingProvider, EmbeddingProviderKind, createEmbeddingProvider } from './embeddingProviders';
 
 export class EmbeddingService {
     private static instance: EmbeddingService;
-    private pipe: any = null;
-    private modelName: string = 'Xenova/all-MiniLM-L6-v2';
+    private provider: EmbeddingProvider;
+    private dimension: number | null = null;
 
     // LRU Cache Simulation using Map (maintains insertion order)
     private cache: Map<string, number[]> = new Map();
@@ -11,6 +12,7 @@ export class EmbeddingService {
 
     private constructor() {
         // Private constructor for Singleton
+        this.provider = this.createProvider();
     }
 
     public static getInstance(): EmbeddingService {
@@ -20,6 +22,43 @@ export class EmbeddingService {
         return EmbeddingService.instance;
     }
 
+    private createProvider(): EmbeddingProvider {
+        const config = vscode.workspace.getConfiguration('engram');
+        return createEmbeddingProvider({
+            provider: config.get<EmbeddingProviderKind>('embeddings.provider', 'local'),
+            model: config.get<string>('embeddings.model') || undefined,
+            ollamaEndpoint: config.get<string>('embeddings.ollamaEndpoint') || undefined
+        });
+    }
+
+    /**
+     * Re-reads `engram.embeddings.*`. Returns true if the model changed
+     * (callers should then run the vault re-embedding migration).
+     */
+    public reloadConfig(): boolean {
+        const next = this.createProvider();
+        if (next.id === this.provider.id) return false;
+
+        this.provider = next;
+        this.dimension = null;
+        this.cache.clear();
+        return true;
+    }
+
+    /** Identifies the active model (recorded in the vault manifest). */
+    public getModelId(): string {
+        return this.provider.id;
+    }
+
+    /** Vector size of the active model, probed once with a short input. */
+    public async getDimension(): Promise<number> {
+        if (this.dimension === null) {
+            const probe = await this.getEmbedding('dimension probe');
+            this.dimension = probe.length;
+        }
+        return this.dimension;
+    }
+
     public async getEmbedding(text: string): Promise<number[]> {
         // 1. Check Cache
         if (this.cache.has(text)) {
@@ -32,16 +71,11 @@ export class EmbeddingService {
             }
         }
 
-        if (!this.pipe) {
-            console.log(`[EmbeddingService] Loading model: ${this.modelName}`);
-            // Force local loading or download on first run
-            this.pipe = await pipeline('feature-extraction', this.modelName);
-            console.log('[EmbeddingService] Model loaded.');
-        }
-
         // Generate embedding
-        const result = await this.pipe(text, { pooling: 'mean', normalize: true });
-        const vector = Array.from(result.data) as number[];
+        const vector = await this.provider.embed(text);
+        if (this.dimension !== null && vector.length !== this.dimension) {
+            throw new Error(`Embedding dimension mismatch: expected ${this.dimension}, got ${vector.length} (${this.provider.id})`);
+        }
 
         // 2. Set Cache
         if (this.cache.size >= this.CACHE_LIMIT) {
@@ -1,13 +1,24 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { VectorStore } from './vectorStore';
+import { FailureEvent, FailureLinkMethod, VectorStore } from './vectorStore';
 import { EmbeddingService } from './embeddings';
-import { OllamaService } from './llm';
+import { LlmService } from './llm';
 import { EditTracker } from './tracker';
 import { PatternAnalyzer } from './analyzer';
 import { Logger } from './logger';
 import { ExclusionManager } from './exclusions';
+import { LexicalIndex } from './lexicalIndex';
+import { MemoryQuery, SearchScope, buildWhereClause, matchesMemoryQuery } from './memoryQuery';
+import { VaultReindexer, ReindexResult } from './vaultReindexer';
+import { VaultLocation } from './vaultLocation';
+import { F, LanceFilter } from './lanceFilter';
+import { ClusterChange, ClusterItem, agglomerativeCluster, diffMemberships, matchGroupsToClusters } from './patternClustering';
+import { selectExemplar } from './exemplar';
+import { SummarySource, extractiveSummary } from './offlineSummary';
+import { isTestFile, parseStackTrace, subjectFilesForTest, userFrames } from './stackTrace';
+import { ChurnKind, bestWindowSimilarity, codeSimilarity, containsCode, countsAgainstStability, normalizeWhitespace } from './churn';
 
 export interface CodeMemory {
     content: string;
@@ -41,32 +52,79 @@ export interface PatternCluster {
     memberIds: string[]; // List of CodeMemory IDs belonging to this cluster
     usageCount: number; // How many times this pattern has been used/found
     lastUsed: string; // ISO Timestamp of most recent usage
+    pinned?: boolean; // Pinned by the user: listed first and left alone by consolidation
+    exemplarId?: string; // Best member ("canonical" version), see `refreshExemplars`
+    exemplarOverride?: string; // Best member chosen by the user (wins while it is still a member)
 }
 
+export type PatternSortOrder = 'usage' | 'recency';
+
+/**
+ * Outcome of a consolidation pass (see `PatternEngine.consolidatePatterns`).
+ */
+export interface ConsolidationResult {
+    clustersBefore: number;
+    clustersAfter: number;
+    merged: number; // New clusters that absorbed members of several old ones
+    split: number; // Old clusters whose members now live in several clusters
+    relabelled: number;
+    moved: ClusterChange[];
+}
+
+const CLUSTER_CHANGE_LOG = 'cluster_changes.jsonl';
+
 export class PatternEngine {
     private static instance: PatternEngine;
     private analyzer: PatternAnalyzer;
     private storeDb: VectorStore;
     private embeddings: EmbeddingService;
-    private llm: OllamaService;
+    private llm: LlmService;
     private logger: Logger;
     private exclusions: ExclusionManager;
+    private reindexer: VaultReindexer;
 
     // In-memory pattern index
     private patterns: PatternCluster[] = [];
 
+    // Other vaults opened for `scope: all` searches, keyed by path
+    private otherVaults: Map<string, VectorStore> = new Map();
+
+    // In-memory BM25 index (hybrid retrieval)
+    private lexical: LexicalIndex = new LexicalIndex();
+
     // Cache for query results
     private queryCache: Map<string, { results: any[], timestamp: number }> = new Map();
     private readonly CACHE_TTL = 1000 * 60 * 5; // 5 minutes
     private readonly QUERY_THRESHOLD = 0.4; // Similarity threshold
+    private readonly RRF_K = 60; // Reciprocal Rank Fusion constant
+    private readonly MAX_RESULTS = 10;
+    private readonly CLUSTER_THRESHOLD = 0.85; // Cosine similarity for joining a pattern cluster
+    private readonly MAX_CONSOLIDATION_MEMBERS = 3000; // Distance matrix is n² (3000 -> ~72 MB)
+    private readonly MAX_RELABELS = 20; // LLM calls per consolidation pass
+    private readonly MAX_VARIANTS = 5; // Other members listed under a pattern's best version
+    private readonly SUMMARY_UPGRADE_BATCH = 25; // LLM-summarized per background pass
+    private readonly UNSTABLE_FAILURE_COUNT = 3; // Linked failures before a memory is marked unstable
+    private readonly MAX_STACK_FRAMES = 8; // User frames tried when linking a failure
+    private readonly CHURN_WINDOW_MINUTES = 10; // Saved code that disappears within this window is classified
+    private readonly CHURN_SIMILARITY = 0.6; // Token similarity for code to count as refactored / moved
+    private readonly MAX_CHURN_SCAN_FILES = 200; // Workspace files searched for moved code
+    private upgradingSummaries = false;
+    private consolidation: Promise<ConsolidationResult | null> | null = null; // Running consolidation pass
+
+    private _onDidChangePatterns = new vscode.EventEmitter<void>();
+    public readonly onDidChangePatterns = this._onDidChangePatterns.event;
+
+    private _onDidChangeFailures = new vscode.EventEmitter<void>();
+    public readonly onDidChangeFailures = this._onDidChangeFailures.event;
 
     private constructor() {
         this.analyzer = new PatternAnalyzer();
         this.storeDb = new VectorStore();
         this.embeddings = EmbeddingService.getInstance();
-        this.llm = OllamaService.getInstance();
+        this.llm = LlmService.getInstance();
         this.logger = Logger.getInstance();
         this.exclusions = ExclusionManager.getInstance();
+        this.reindexer = new VaultReindexer(this.storeDb, this.analyzer, this.embeddings);
     }
 
     public static getInstance(): PatternEngine {
@@ -77,8 +135,89 @@ export class PatternEngine {
     }
 
     async init() {
+        await this.openVault();
+        await this.loadPatterns();
+        await this.buildLexicalIndex();
+    }
+
+    /**
+     * Points the engine at the vault for the configured strategy (`engram.vault.strategy`).
+     * If this workspace used another vault before, its memories are imported; the old vault is kept.
+     * Returns the number of imported rows.
+     */
+    private async openVault(): Promise<number> {
+        const location = VaultLocation.getInstance();
+        const target = location.getActivePath();
+
+        if (path.resolve(this.storeDb.getPath()) !== path.resolve(target)) {
+            this.storeDb = new VectorStore(target);
+            this.reindexer = new VaultReindexer(this.storeDb, this.analyzer, this.embeddings);
+            this.otherVaults.clear();
+        }
         await this.storeDb.init();
+        this.storeDb.setLabel(location.getActiveLabel());
+
+        let imported = 0;
+        const previous = location.getPreviousPath();
+        if (previous && path.resolve(previous) !== path.resolve(target) && fs.existsSync(previous)) {
+            // A global or custom vault is shared with other projects: bring only this workspace's memories
+            const shared = path.resolve(previous) !== path.resolve(location.resolvePath('workspace'));
+            const workspaceNames = shared ? (vscode.workspace.workspaceFolders || []).map(folder => folder.name) : undefined;
+            this.logger.log(`Vault moved: importing ${shared ? `memories of ${workspaceNames!.join(', ') || 'no workspace'}` : 'memories'} from ${previous}`);
+            imported = await this.storeDb.importVault(previous, workspaceNames);
+        }
+        await location.rememberActivePath();
+        return imported;
+    }
+
+    /**
+     * Re-opens the vault after `engram.vault.*` changed, migrating the existing memories.
+     */
+    public async switchVault(): Promise<number> {
+        const imported = await this.openVault();
+        this.queryCache.clear();
         await this.loadPatterns();
+        await this.buildLexicalIndex();
+        return imported;
+    }
+
+    /**
+     * Stores for the other known vaults (`scope: all`). Vaults embedded with a different model
+     * are skipped rather than re-embedded behind the user's back.
+     */
+    private async getOtherVaults(): Promise<{ store: VectorStore, label: string }[]> {
+        const modelId = this.embeddings.getModelId();
+        const vaults: { store: VectorStore, label: string }[] = [];
+
+        for (const vault of VaultLocation.getInstance().listVaults()) {
+            if (vault.isActive) continue;
+
+            let store = this.otherVaults.get(vault.path);
+            if (!store) {
+                const candidate = new VectorStore(vault.path);
+                const manifest = candidate.readManifest();
+                if (!manifest || manifest.migrating || manifest.embeddingModel !== modelId) {
+                    this.logger.log(`Skipping vault "${vault.label}": embedded with ${manifest ? manifest.embeddingModel : 'an unknown model'}.`);
+                    continue;
+                }
+                await candidate.init();
+                this.otherVaults.set(vault.path, candidate);
+                store = candidate;
+            }
+            vaults.push({ store, label: vault.label });
+        }
+        return vaults;
+    }
+
+    async buildLexicalIndex() {
+        try {
+            const memories = await this.storeDb.getAllMemories();
+            this.lexical.clear();
+            memories.forEach(m => this.lexical.add(m.id, m));
+            this.logger.log(`Built lexical index over ${this.lexical.size} memories.`);
+        } catch (e) {
+            this.logger.log(`Failed to build lexical index: ${e}`);
+        }
     }
 
     async loadPatterns() {
@@ -90,9 +229,17 @@ export class PatternEngine {
                 centroid: c.vector, // Mapped back from vector field
                 memberIds: c.memberIds,
                 usageCount: c.usageCount,
-                lastUsed: c.lastUsed
+                lastUsed: c.lastUsed,
+                pinned: !!c.pinned,
+                exemplarId: c.exemplarId || '',
+                exemplarOverride: c.exemplarOverride || ''
             }));
             this.logger.log(`Loaded ${this.patterns.length} pattern clusters.`);
+
+            // Clusters from before exemplars existed
+            const withoutExemplar = this.patterns.filter(p => !p.exemplarId);
+            if (withoutExemplar.length > 0) await this.refreshExemplars(withoutExemplar);
+            this._onDidChangePatterns.fire();
         } catch (e) {
             this.logger.log(`Failed to load patterns: ${e} `);
         }
@@ -102,6 +249,41 @@ export class PatternEngine {
         this.llm.reloadConfig();
     }
 
+    /**
+     * Re-embeds the vault if the embedding model or dimension no longer matches its manifest.
+     */
+    public async migrateEmbeddings(onProgress?: (message: string) => void): Promise<boolean> {
+        const migrated = await this.storeDb.ensureEmbeddingCompatibility(onProgress);
+        if (migrated) {
+            this.queryCache.clear();
+            await this.loadPatterns();
+            await this.buildLexicalIndex();
+        }
+        return migrated;
+    }
+
+    /** True if the vault predates the current chunker / schema, or a re-index was interrupted. */
+    public needsReindex(): boolean {
+        return this.reindexer.needsReindex();
+    }
+
+    /**
+     * Re-chunks and re-embeds every memory, rebuilding child vectors and clusters.
+     * Resumes an interrupted job; cancelling keeps the progress for next time.
+     */
+    public async reindexVault(
+        onProgress?: (processed: number, total: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<ReindexResult> {
+        await this.migrateEmbeddings();
+        const result = await this.reindexer.run(onProgress, token);
+
+        this.queryCache.clear();
+        await this.loadPatterns();
+        await this.buildLexicalIndex();
+        return result;
+    }
+
     /**
      * Stores a code memory.
      * Delegates to Analyzer to split into chunks, filters noise, then embeds and stores each.
@@ -121,14 +303,11 @@ export class PatternEngine {
 
         this.logger.log(`Storing code from: ${path.basename(memory.filePath)}`);
 
-        // Check for Churn (Silent Failure) before processing new chunks
-        // Note: checkForChurn method is not present in the provided context, assuming it exists elsewhere.
-        // If it doesn't exist, this line will cause a compilation error.
-        // For the purpose of this edit, it's added as requested.
+        // Check for churn (code saved recently that is gone now) before processing new chunks
         await this.checkForChurn(memory.filePath, memory.content);
 
         // 1. Chunking
-        const chunks = this.analyzer.findPatterns(memory.content, memory.filePath);
+        const chunks = await this.analyzer.findPatterns(memory.content, memory.filePath);
 
         if (chunks.length === 0) {
             return [];
@@ -142,8 +321,9 @@ export class PatternEngine {
             }
 
             try {
-                // Contextual Embedding
-                const textToEmbed = `${chunk.language}: ${chunk.content} `;
+                // Contextual Embedding (symbol + signature help disambiguate short bodies)
+                const header = chunk.symbolName ? `${chunk.symbolName} ${chunk.signature || ''}`.trim() + '\n' : '';
+                const textToEmbed = `${chunk.language}: ${header}${chunk.content} `;
                 const vector = await this.embeddings.getEmbedding(textToEmbed);
 
                 // Heuristic 2: Similarity Filter (Deduplication)
@@ -151,34 +331,56 @@ export class PatternEngine {
                 if (similar.length > 0 && (similar[0] as any)._distance < 0.2) {
                     // Logic: If extremely close < 0.05, it's a duplicate (skip).
                     // If between 0.05 and 0.2, it's a "Pattern" (return for alert).
+                    // Neither is stored: the earlier version is returned so the save pipeline can point at it.
                     const match = similar[0] as any;
                     if (match._distance < 0.05) {
                         this.logger.log(`Skipped duplicate(${index}): ...${chunk.content.substring(0, 20)} `);
-                        return undefined;
                     }
-                    return match; // Return similar pattern for alert
+                    return {
+                        id: match.relatedId || match.id, // Child vectors (prompt / abstraction) point at their code record
+                        stored: false,
+                        content: chunk.content,
+                        filePath: chunk.filePath,
+                        language: chunk.language,
+                        symbolName: chunk.symbolName || '',
+                        startLine: chunk.startLine,
+                        endLine: chunk.endLine,
+                        similar: similar
+                    };
                 }
 
                 // Only summarize if it's a decent size chunk to save time? 
                 // For now, summarize all stored chunks.
-                const summary = await this.llm.summarize(chunk.content);
+                let summary = await this.llm.summarize(chunk.content);
 
                 // Generate Abstract Pattern Description (Normalized)
                 // We do this in parallel to save time, or sequentially? 
                 // Let's do it here.
-                const patternDescription = await this.llm.abstractPattern(chunk.content);
+                let patternDescription = await this.llm.abstractPattern(chunk.content);
+
+                // LLM unreachable: extractive fallback, upgraded by `upgradeFallbackSummaries` later
+                let summarySource: SummarySource = 'llm';
+                if (!summary || !patternDescription) {
+                    const fallback = extractiveSummary(chunk);
+                    summary = summary || fallback.summary;
+                    patternDescription = patternDescription || fallback.patternDescription;
+                    summarySource = 'extractive';
+                }
 
                 // Context Linking: Check if this chunk belongs to a tracked AI conversation
                 let conversationId = memory.conversationId;
                 let source = memory.source || 'human';
-
-                if (!conversationId) {
-                    const foundId = EditTracker.getInstance().getConversationId(chunk.filePath, chunk.startLine, chunk.endLine);
-                    if (foundId) {
-                        conversationId = foundId;
-                        source = 'ai'; // It's tracked, so it's AI
-                        this.logger.log(`Linked chunk to conversation: ${foundId} `);
-                    }
+                let pastedResponse = memory.pastedResponse || '';
+                let finalEditedCode = memory.finalEditedCode || '';
+
+                const region = conversationId ? undefined : EditTracker.getInstance().findRegion(chunk.filePath, chunk.startLine, chunk.endLine);
+                if (region) {
+                    // It's tracked, so it's AI: the region's original text is what the AI wrote
+                    conversationId = region.id;
+                    source = region.source;
+                    pastedResponse = pastedResponse || region.insertedText;
+                    finalEditedCode = finalEditedCode || region.lastContent;
+                    this.logger.log(`Linked chunk to conversation: ${region.id} `);
                 }
 
                 const metadata = {
@@ -187,6 +389,10 @@ export class PatternEngine {
                     filePath: chunk.filePath,
                     language: chunk.language,
                     projectPath: chunk.projectPath,
+                    symbolName: chunk.symbolName || '',
+                    signature: chunk.signature || '',
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
                     workspaceName: memory.workspaceName,
                     timestamp: new Date().toISOString(),
                     prompt: memory.prompt || '',
@@ -194,24 +400,29 @@ export class PatternEngine {
                     source: source,
                     confidence: memory.confidence || 1.0,
                     conversationId: conversationId || '',
-                    pastedResponse: memory.pastedResponse || '',
-                    finalEditedCode: memory.finalEditedCode || '',
+                    pastedResponse: pastedResponse,
+                    finalEditedCode: finalEditedCode,
                     matchContext: '',
                     patternDescription: patternDescription,
+                    summarySource: summarySource,
+                    failureCount: 0,
+                    lastFailure: '',
+                    isUnstable: false,
+                    isTrusted: false,
                     vectorType: 'code' // Main code vector
                 };
 
                 // Index One: Code Vector (Raw)
                 const codeVector = await this.embeddings.getEmbedding(chunk.content);
                 const id = await this.storeDb.savePattern(codeVector, metadata);
+                this.lexical.add(id, metadata);
+                if (region) EditTracker.getInstance().updateRecordId(region.id, id);
 
                 // --- RISK DETECTION: Check for Reuse of Unstable Patterns ---
                 let riskAlert: { type: string, message: string, id: string } | undefined;
                 try {
                     // Search for similar patterns that are marked as unstable
-                    // Filter: isUnstable = true
-                    // Using searchWithFilter
-                    const riskyMatches = await this.storeDb.searchWithFilter(codeVector, "isUnstable = true", 1);
+                    const riskyMatches = await this.storeDb.searchWithFilter(codeVector, F.eq('isUnstable', true), 1);
                     if (riskyMatches.length > 0) {
                         const match = riskyMatches[0];
                         // Threshold: 0.85 similarity approx < 0.25 distance depending on metric
@@ -252,14 +463,14 @@ export class PatternEngine {
                 }
 
                 // Index AI Response Separately (if present and distinct)
-                if (memory.pastedResponse) {
+                if (pastedResponse) {
                     try {
-                        const responseVector = await this.embeddings.getEmbedding(memory.pastedResponse);
+                        const responseVector = await this.embeddings.getEmbedding(pastedResponse);
                         await this.storeDb.savePattern(responseVector, {
                             ...metadata,
                             vectorType: 'ai_response',
                             relatedId: id, // Link to main code record
-                            content: memory.pastedResponse // Store raw response text
+                            content: pastedResponse // Store raw response text
                         });
                         this.logger.log(`Indexed separate AI Response vector for ${id}`);
                     } catch (err) {
@@ -271,6 +482,7 @@ export class PatternEngine {
                 // Return structure with ID and potential alerts
                 return {
                     id: id,
+                    stored: true,
                     ...metadata,
                     similar: similar,
                     matchedCluster: matchedCluster,
@@ -320,7 +532,7 @@ export class PatternEngine {
         }
 
         // Fetch current to merge
-        const current = await this.storeDb.getPatternById(id);
+        const [current] = await this.storeDb.getByIds([id]);
         if (!current) return;
 
         const merged = { ...current, ...updates };
@@ -333,8 +545,10 @@ export class PatternEngine {
         if (updates.prompt && updates.prompt !== current.prompt && updates.prompt !== '') {
             try {
                 const promptVector = await this.embeddings.getEmbedding(updates.prompt);
+                const { vector: _parentVector, ...fields } = merged;
                 await this.storeDb.savePattern(promptVector, {
-                    ...merged,
+                    ...fields,
+                    id: uuidv4(), // Own row, linked through relatedId
                     vectorType: 'prompt',
                     relatedId: id,
                     content: updates.prompt // Store raw prompt text
@@ -350,83 +564,143 @@ export class PatternEngine {
             // For now, just updating the text field.
         }
 
-        // Save (Overwrite)
-        await this.storeDb.updatePattern(id, merged);
+        // Only the changed fields are written: the vector and capture timestamp stay as they are
+        await this.storeDb.updateMany([{ id, values: updates }]);
+        this.lexical.add(id, merged);
+        this.queryCache.clear();
     }
 
     /**
      * Queries for similar code memories.
-     * Generates embedding for query and performs similarity search.
+     * Hybrid retrieval: vector hits (semantic) and BM25 hits (lexical) are fused with
+     * Reciprocal Rank Fusion. Each result carries `matchedBy` ('vector' | 'lexical' | 'hybrid').
+     * Accepts plain text or a structured `MemoryQuery` (language, workspace, source, date range, stability).
      */
-    public async query(queryText: string): Promise<any[]> {
+    public async query(input: string | MemoryQuery): Promise<any[]> {
+        const memoryQuery: MemoryQuery = typeof input === 'string' ? { text: input } : { ...input };
+        memoryQuery.scope = memoryQuery.scope || vscode.workspace.getConfiguration('engram').get<SearchScope>('search.scope', 'vault');
+
+        // Current workspace only: vaults can hold several workspaces (global, custom, or imported)
+        if (memoryQuery.scope === 'workspace' && !memoryQuery.workspaceName) {
+            const folder = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0] : undefined;
+            if (folder) memoryQuery.workspaceName = folder.name;
+        }
+
+        const queryText = memoryQuery.text;
+        const where = buildWhereClause(memoryQuery);
+        const cacheKey = JSON.stringify(memoryQuery);
+
         // 1. Check Cache
-        const cached = this.queryCache.get(queryText);
+        const cached = this.queryCache.get(cacheKey);
         if (cached && (Date.now() - cached.timestamp < this.CACHE_TTL)) {
             this.logger.log(`Query cache hit: "${queryText}"`);
             return cached.results;
         }
 
-        this.logger.log(`Searching for: "${queryText}"`);
+        this.logger.log(`Searching for: "${queryText}"${where ? ` (where ${where})` : ''}`);
 
         try {
-            // 2. Generate Embedding
-            const vector = await this.embeddings.getEmbedding(queryText);
-
-            // 3. Search Database
-            // Get slightly more results than needed, then filter
-            const rawResults = await this.storeDb.search(vector, 10);
-
-            // Filter by threshold
-            const filteredResults = rawResults.filter((r: any) => r._distance <= this.QUERY_THRESHOLD);
-
-            this.logger.log(`Found ${filteredResults.length} matches(from ${rawResults.length} raw).`);
-
-            // 4. Map to clean format (with Parent Resolution)
-            const mappedResults: any[] = [];
-            const seenIds = new Set<string>();
-
-            for (const r of filteredResults) {
-                const rAny = r as any;
-                let finalRecord = rAny;
-                let matchType = 'code';
-
-                // If this is a related vector (prompt/ai_response), fetch parent
-                if (rAny.relatedId) {
-                    const parent = await this.storeDb.getPatternById(rAny.relatedId);
-                    if (parent) {
-                        finalRecord = parent;
-                        matchType = rAny.vectorType || 'related';
-                        // Annotate that we matched on a related field
-                        finalRecord.matchContext = `Matched via ${matchType}: "${(rAny.content as string).substring(0, 30)}..."`;
-                    }
+            const activeLabel = VaultLocation.getInstance().getActiveLabel();
+            const otherVaults = memoryQuery.scope === 'all' ? await this.getOtherVaults() : [];
+
+            // Filters only (no text): list the most recent matching memories
+            if (!queryText.trim()) {
+                const rows = (await this.storeDb.getAllMemories(500, where)).map(record => ({ record, origin: activeLabel }));
+                for (const vault of otherVaults) {
+                    (await vault.store.getAllMemories(500, where)).forEach(record => rows.push({ record, origin: vault.label }));
                 }
 
-                if (!seenIds.has(finalRecord.id)) {
-                    seenIds.add(finalRecord.id);
-                    mappedResults.push({
-                        id: finalRecord.id,
-                        content: finalRecord.content,
-                        filePath: finalRecord.filePath,
-                        summary: finalRecord.summary || '',
-                        score: r._distance, // Keep original score
-                        timestamp: finalRecord.timestamp,
-                        prompt: finalRecord.prompt,
-                        failureLog: finalRecord.failureLog,
-                        matchContext: finalRecord.matchContext, // Pass down annotation
-                        pastedResponse: finalRecord.pastedResponse,
-                        finalEditedCode: finalRecord.finalEditedCode,
-                        conversationId: finalRecord.conversationId
-                    });
+                // Active vault wins on duplicate ids (e.g. after a migration)
+                const seen = new Set<string>();
+                const recent = rows
+                    .filter(r => {
+                        if (seen.has(r.record.id)) return false;
+                        seen.add(r.record.id);
+                        return true;
+                    })
+                    .sort((a, b) => (b.record.timestamp || '').localeCompare(a.record.timestamp || ''))
+                    .slice(0, this.MAX_RESULTS)
+                    .map((r, rank) => this.toResult(r.record, 1 / (this.RRF_K + rank + 1), undefined, 'filter', 'Matched filters', r.origin));
+                const grouped = await this.surfaceExemplars(recent, activeLabel);
+                this.queryCache.set(cacheKey, { results: grouped, timestamp: Date.now() });
+                return grouped;
+            }
+
+            // 2. Vector Signal (other vaults' hits are ranked together by distance)
+            const vectorHits = (await this.vectorSearch(queryText, where)).map(hit => ({ ...hit, origin: activeLabel }));
+            if (otherVaults.length > 0) {
+                const otherHits: typeof vectorHits = [];
+                for (const vault of otherVaults) {
+                    (await this.vectorSearch(queryText, where, vault.store)).forEach(hit => otherHits.push({ ...hit, origin: vault.label }));
                 }
+                vectorHits.push(...otherHits);
+                vectorHits.sort((a, b) => a.distance - b.distance);
+            }
+
+            // 3. Lexical Signal (over-fetch, filters are applied once records are resolved)
+            const lexicalHits = this.lexical.search(queryText, where ? this.MAX_RESULTS * 5 : this.MAX_RESULTS * 2);
+
+            // 4. Reciprocal Rank Fusion
+            const fused = new Map<string, {
+                record?: any,
+                score: number,
+                distance?: number,
+                vectorContext?: string,
+                lexicalContext?: string,
+                origin: string
+            }>();
+
+            let vectorRank = 0;
+            vectorHits.forEach(hit => {
+                if (fused.has(hit.record.id)) return; // Same memory in several vaults (e.g. after a migration)
+                fused.set(hit.record.id, {
+                    record: hit.record,
+                    score: 1 / (this.RRF_K + vectorRank++ + 1),
+                    distance: hit.distance,
+                    vectorContext: hit.matchContext,
+                    origin: hit.origin
+                });
+            });
+
+            lexicalHits.forEach((hit, rank) => {
+                const entry = fused.get(hit.id) || { score: 0, origin: activeLabel };
+                entry.score += 1 / (this.RRF_K + rank + 1);
+                entry.lexicalContext = `Matched keywords in ${hit.matchedFields.join(', ')}: ${hit.matchedTerms.slice(0, 3).join(', ')}`;
+                fused.set(hit.id, entry);
+            });
+
+            // Lexical-only hits still need their full record
+            const missingIds = Array.from(fused.entries()).filter(([, e]) => !e.record).map(([id]) => id);
+            if (missingIds.length > 0) {
+                const fetched = await this.storeDb.getByIds(missingIds);
+                fetched.forEach(r => {
+                    const entry = fused.get(r.id);
+                    if (entry) entry.record = r;
+                });
             }
 
-            // 5. Update Cache
-            this.queryCache.set(queryText, {
-                results: mappedResults,
+            this.logger.log(`Found ${vectorHits.length} vector and ${lexicalHits.length} lexical matches.`);
+
+            // 5. Map to clean format
+            const mappedResults = Array.from(fused.values())
+                .filter(e => !!e.record && matchesMemoryQuery(e.record, memoryQuery))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, this.MAX_RESULTS)
+                .map(e => {
+                    const matchedBy = e.vectorContext !== undefined && e.lexicalContext ? 'hybrid'
+                        : e.lexicalContext ? 'lexical' : 'vector';
+                    const matchContext = [e.vectorContext, e.lexicalContext].filter(Boolean).join(' | ');
+                    return this.toResult(e.record, e.score, e.distance, matchedBy, matchContext, e.origin);
+                });
+            const groupedResults = await this.surfaceExemplars(mappedResults, activeLabel);
+
+            // 6. Update Cache
+            this.queryCache.set(cacheKey, {
+                results: groupedResults,
                 timestamp: Date.now()
             });
 
-            return mappedResults;
+            return groupedResults;
 
         } catch (e) {
             this.logger.log(`Query failed: ${e} `);
@@ -434,9 +708,138 @@ export class PatternEngine {
         }
     }
 
+    /**
+     * Collapses results from the same pattern cluster: the cluster's best version takes the
+     * best-ranked slot (even if it did not match itself) and the other members follow as `variants`.
+     * Only the active vault has clusters.
+     */
+    private async surfaceExemplars(results: any[], activeLabel: string): Promise<any[]> {
+        type Group = { top: any, cluster?: PatternCluster, hits: any[] };
+        const groups: Group[] = [];
+        const byCluster = new Map<string, Group>();
+
+        for (const result of results) {
+            const cluster = result.origin === activeLabel ? this.getPatternForMemory(result.id) : undefined;
+            const group = cluster ? byCluster.get(cluster.id) : undefined;
+            if (group) {
+                group.hits.push(result);
+            } else if (cluster) {
+                const created: Group = { top: result, cluster, hits: [result] };
+                byCluster.set(cluster.id, created);
+                groups.push(created);
+            } else {
+                groups.push({ top: result, hits: [] });
+            }
+        }
+        if (byCluster.size === 0) return results;
+
+        // Exemplars that did not match themselves, and a few unmatched members to list as variants
+        const needed = new Set<string>();
+        for (const group of byCluster.values()) {
+            const cluster = group.cluster as PatternCluster;
+            const matched = new Set(group.hits.map(h => h.id));
+            const exemplarId = this.getExemplarId(cluster);
+            if (exemplarId && !matched.has(exemplarId)) needed.add(exemplarId);
+            cluster.memberIds.filter(id => !matched.has(id)).slice(0, this.MAX_VARIANTS + 1).forEach(id => needed.add(id));
+        }
+        const records = new Map((await this.storeDb.getByIds(Array.from(needed))).map(r => [r.id, r]));
+
+        return groups.map(group => {
+            if (!group.cluster) return group.top;
+            const cluster = group.cluster;
+            const exemplarId = this.getExemplarId(cluster);
+
+            let best = group.hits.find(h => h.id === exemplarId);
+            if (!best && records.has(exemplarId)) {
+                best = this.toResult(records.get(exemplarId), group.top.score, undefined, 'pattern', `Best version of "${cluster.label}" (matched via a variant)`, group.top.origin);
+            }
+            best = best || group.top;
+
+            const matched = new Set(group.hits.map(h => h.id));
+            const unmatched = cluster.memberIds
+                .filter(id => id !== best.id && !matched.has(id) && records.has(id))
+                .map(id => this.toResult(records.get(id), 0, undefined, 'pattern', `Variant of "${cluster.label}"`, group.top.origin));
+            const variants = [...group.hits.filter(h => h.id !== best.id), ...unmatched].slice(0, this.MAX_VARIANTS);
+
+            return {
+                ...best,
+                score: group.top.score,
+                patternId: cluster.id,
+                patternLabel: cluster.label,
+                isExemplar: best.id === exemplarId,
+                variants
+            };
+        });
+    }
+
+    private toResult(r: any, score: number, distance: number | undefined, matchedBy: string, matchContext: string, origin: string) {
+        return {
+            id: r.id,
+            origin: origin, // Label of the vault the memory came from
+            content: r.content,
+            filePath: r.filePath,
+            summary: r.summary || '',
+            score: score, // Fused RRF score (higher is better)
+            distance: distance, // Vector distance (if matched semantically)
+            matchedBy: matchedBy,
+            timestamp: r.timestamp,
+            language: r.language,
+            workspaceName: r.workspaceName,
+            source: r.source,
+            prompt: r.prompt,
+            failureLog: r.failureLog,
+            matchContext: matchContext, // Pass down annotation
+            pastedResponse: r.pastedResponse,
+            finalEditedCode: r.finalEditedCode,
+            conversationId: r.conversationId,
+            summarySource: r.summarySource || ''
+        };
+    }
+
+    /**
+     * Vector half of the hybrid query. Resolves related vectors (prompt / ai_response / abstraction)
+     * to their parent code record and returns hits ranked by distance.
+     */
+    private async vectorSearch(queryText: string, where?: LanceFilter, store: VectorStore = this.storeDb): Promise<{ record: any, distance: number, matchContext: string }[]> {
+        const vector = await this.embeddings.getEmbedding(queryText);
+
+        // Get slightly more results than needed, then filter
+        const rawResults = where
+            ? await store.searchWithFilter(vector, where, this.MAX_RESULTS * 2)
+            : await store.search(vector, this.MAX_RESULTS * 2);
+        const filteredResults = rawResults.filter((r: any) => r._distance <= this.QUERY_THRESHOLD);
+
+        const hits: { record: any, distance: number, matchContext: string }[] = [];
+        const seenIds = new Set<string>();
+
+        for (const r of filteredResults) {
+            const rAny = r as any;
+            let finalRecord = rAny;
+            let matchContext = 'Matched via code';
+
+            // If this is a related vector (prompt/ai_response), fetch parent
+            if (rAny.relatedId) {
+                const parent = await store.getPatternById(rAny.relatedId);
+                if (!parent) continue;
+                finalRecord = parent;
+                const matchType = rAny.vectorType || 'related';
+                // Annotate that we matched on a related field
+                matchContext = `Matched via ${matchType}: "${(rAny.content as string).substring(0, 30)}..."`;
+            }
+
+            if (!seenIds.has(finalRecord.id)) {
+                seenIds.add(finalRecord.id);
+                hits.push({ record: finalRecord, distance: rAny._distance, matchContext });
+            }
+        }
+
+        return hits;
+    }
+
     public async deleteMemory(id: string): Promise<void> {
         try {
             await this.storeDb.deletePattern(id);
+            this.lexical.remove(id);
             this.logger.log(`Deleted memory ID: ${id} `);
             this.queryCache.clear();
         } catch (e) {
@@ -444,8 +847,8 @@ export class PatternEngine {
         }
     }
 
-    public async inferIntent(code: string): Promise<string> {
-        return this.llm.inferIntent(code);
+    public async inferIntent(code: string, token?: vscode.CancellationToken, onToken?: (chunk: string) => void): Promise<string> {
+        return this.llm.inferIntent(code, token, onToken);
     }
 
     // --- Clustering ---
@@ -465,7 +868,7 @@ export class PatternEngine {
     async assignToPattern(memoryId: string, vector: number[], label: string): Promise<PatternCluster | null> {
         let bestSim = -1;
         let bestCluster: PatternCluster | null = null;
-        const THRESHOLD = 0.85;
+        const THRESHOLD = this.CLUSTER_THRESHOLD;
 
         // 1. Find best matching cluster
         for (const cluster of this.patterns) {
@@ -492,8 +895,18 @@ export class PatternEngine {
             bestCluster.usageCount++;
             bestCluster.lastUsed = new Date().toISOString();
 
-            // Persist
-            await this.storeDb.saveCluster(bestCluster);
+            // Persist (in place: only the fields that changed)
+            await this.storeDb.updateMany([{
+                id: bestCluster.id,
+                values: {
+                    vector: bestCluster.centroid,
+                    memberIds: bestCluster.memberIds,
+                    usageCount: bestCluster.usageCount,
+                    lastUsed: bestCluster.lastUsed
+                }
+            }], 'clusters');
+            await this.refreshExemplars([bestCluster]);
+            this._onDidChangePatterns.fire();
             return bestCluster;
 
         } else {
@@ -505,26 +918,257 @@ export class PatternEngine {
                 centroid: vector,
                 memberIds: [memoryId],
                 usageCount: 1,
-                lastUsed: new Date().toISOString()
+                lastUsed: new Date().toISOString(),
+                exemplarId: memoryId
             };
 
             this.patterns.push(newCluster);
             await this.storeDb.saveCluster(newCluster);
+            this._onDidChangePatterns.fire();
             return null; // Not a reuse
         }
     }
 
+    /**
+     * Consolidation pass over the `clusters` table. Re-clusters every clustered memory with
+     * average-linkage agglomerative clustering over its pattern vector, so near-duplicate clusters
+     * merge and heterogeneous ones split. Changed clusters are re-labelled from their members'
+     * descriptions, and every memory that moved is appended to the cluster change log.
+     * Pinned clusters (and their members) are left as they are. Renames, pins, merges and deletions
+     * wait for the pass to finish, since it rewrites the clusters it started from.
+     */
+    async consolidatePatterns(): Promise<ConsolidationResult | null> {
+        if (this.consolidation) return null;
+        this.consolidation = this.runConsolidation();
+        try {
+            return await this.consolidation;
+        } finally {
+            this.consolidation = null;
+        }
+    }
+
+    private async runConsolidation(): Promise<ConsolidationResult | null> {
+        try {
+            const timestamp = new Date().toISOString();
+            const pinned = this.patterns.filter(p => p.pinned);
+            const unpinned = this.patterns.filter(p => !p.pinned);
+            const pinnedMemberIds = new Set(pinned.flatMap(p => p.memberIds));
+            const before = unpinned.map(p => ({ id: p.id, label: p.label, memberIds: Array.from(p.memberIds) }));
+            const memberIds = Array.from(new Set(before.flatMap(c => c.memberIds))).filter(id => !pinnedMemberIds.has(id));
+
+            if (memberIds.length > this.MAX_CONSOLIDATION_MEMBERS) {
+                this.logger.log(`Skipping consolidation: ${memberIds.length} clustered memories exceeds ${this.MAX_CONSOLIDATION_MEMBERS}.`);
+                return null;
+            }
+
+            // 1. One pattern vector per (still existing) member
+            const members = await this.storeDb.getByIds(memberIds);
+            const abstractions = new Map<string, number[]>();
+            (await this.storeDb.getRelatedVectors(members.map(m => m.id), 'pattern_abstraction'))
+                .forEach(row => abstractions.set(row.relatedId, row.vector));
+
+            const items: ClusterItem[] = [];
+            for (const member of members) {
+                const vector = abstractions.get(member.id)
+                    || await this.embeddings.getEmbedding(member.patternDescription || member.content);
+                items.push({ id: member.id, vector });
+            }
+
+            // 2. Re-cluster, keeping the ids of the clusters each group overlaps most
+            const groups = agglomerativeCluster(items, 1 - this.CLUSTER_THRESHOLD);
+            const inheritedIds = matchGroupsToClusters(groups, before);
+            const vectorById = new Map(items.map(item => [item.id, item.vector]));
+            const memberById = new Map(members.map(m => [m.id, m]));
+
+            const after: PatternCluster[] = [];
+            let relabelled = 0;
+            for (let g = 0; g < groups.length; g++) {
+                const group = groups[g];
+                const previous = unpinned.find(p => p.id === inheritedIds[g]);
+                const descriptions = group.map(id => (memberById.get(id) || {}).patternDescription).filter(Boolean) as string[];
+
+                const changed = !previous || previous.memberIds.length !== group.length
+                    || !group.every(id => previous.memberIds.includes(id));
+                // Clusters are first labelled with their first member's description
+                const neverRelabelled = !!previous && group.length > 1 && descriptions.includes(previous.label);
+
+                let label = previous ? previous.label : (descriptions[0] || 'Unnamed pattern');
+                if ((changed || neverRelabelled) && group.length > 1 && descriptions.length > 0 && relabelled < this.MAX_RELABELS) {
+                    const summary = await this.llm.labelPattern(descriptions);
+                    if (summary && summary !== label) {
+                        label = summary;
+                        relabelled++;
+                    }
+                }
+
+                // Usage follows the members: each old cluster contributes in proportion to its overlap
+                let usageCount = 0;
+                let lastUsed = '';
+                for (const old of unpinned) {
+                    const overlap = old.memberIds.filter(id => group.includes(id)).length;
+                    if (overlap === 0) continue;
+                    usageCount += old.usageCount * overlap / old.memberIds.length;
+                    if (old.lastUsed > lastUsed) lastUsed = old.lastUsed;
+                }
+
+                const vectors = group.map(id => vectorById.get(id) as number[]);
+                const exemplarOverride = previous && previous.exemplarOverride && group.includes(previous.exemplarOverride)
+                    ? previous.exemplarOverride : '';
+                after.push({
+                    id: inheritedIds[g] || uuidv4(),
+                    label,
+                    centroid: vectors[0].map((_, i) => vectors.reduce((sum, v) => sum + v[i], 0) / vectors.length),
+                    memberIds: group,
+                    usageCount: Math.max(1, Math.round(usageCount)),
+                    lastUsed: lastUsed || timestamp,
+                    pinned: false,
+                    exemplarId: selectExemplar(group.map(id => memberById.get(id)).filter(Boolean)) || group[0],
+                    exemplarOverride
+                });
+            }
+
+            const moved = diffMemberships(before, after, timestamp);
+
+            // 3. Memories saved while this pass awaited joined the old clusters or started new ones:
+            // carry them over to where their cluster went, and keep the new clusters
+            for (const old of unpinned) {
+                const snapshot = before.find(c => c.id === old.id)!;
+                const added = old.memberIds.filter(id => !snapshot.memberIds.includes(id));
+                if (added.length === 0) continue;
+
+                const overlap = (c: PatternCluster) => c.memberIds.filter(id => snapshot.memberIds.includes(id)).length;
+                const target = after.find(c => c.id === old.id)
+                    || after.filter(c => overlap(c) > 0).sort((a, b) => overlap(b) - overlap(a))[0];
+                if (target) target.memberIds.push(...added.filter(id => !target.memberIds.includes(id)));
+                else after.push({ ...old, memberIds: added });
+            }
+            const created = this.patterns.filter(p => !pinned.includes(p) && !unpinned.includes(p));
+            this.patterns = [...pinned.filter(p => this.patterns.includes(p)), ...after, ...created];
+
+            // 4. Persist: rewrite surviving clusters, drop the ones merged away
+            for (const cluster of after) {
+                await this.storeDb.saveCluster(cluster);
+            }
+            const removedIds = before.map(c => c.id).filter(id => !after.some(c => c.id === id));
+            await this.storeDb.deleteClusters(removedIds);
+
+            this.storeDb.appendVaultLog(CLUSTER_CHANGE_LOG, moved);
+            this.storeDb.setLastConsolidated(timestamp);
+            this._onDidChangePatterns.fire();
+
+            const oldClusterOf = new Map<string, string>();
+            before.forEach(c => c.memberIds.forEach(id => oldClusterOf.set(id, c.id)));
+            const newClusterOf = new Map<string, string>();
+            after.forEach(c => c.memberIds.forEach(id => newClusterOf.set(id, c.id)));
+            const distinct = (ids: (string | undefined)[]) => new Set(ids.filter(Boolean)).size;
+
+            const result: ConsolidationResult = {
+                clustersBefore: before.length,
+                clustersAfter: after.length,
+                merged: after.filter(c => distinct(c.memberIds.map(id => oldClusterOf.get(id))) > 1).length,
+                split: before.filter(c => distinct(c.memberIds.map(id => newClusterOf.get(id))) > 1).length,
+                relabelled,
+                moved
+            };
+            this.logger.log(`Consolidated patterns: ${result.clustersBefore} -> ${result.clustersAfter} clusters (${result.merged} merged, ${result.split} split, ${result.relabelled} relabelled, ${moved.length} memories moved).`);
+            return result;
+        } catch (e) {
+            this.logger.log(`Pattern consolidation failed: ${e}`);
+            return null;
+        }
+    }
+
+    /** Lets a running consolidation pass finish before a cluster is edited. */
+    private async untilConsolidated() {
+        if (this.consolidation) await this.consolidation;
+    }
+
+    /** Runs `consolidatePatterns` if the last pass is older than `intervalHours`. */
+    async consolidateIfDue(intervalHours: number): Promise<ConsolidationResult | null> {
+        if (intervalHours <= 0) return null;
+
+        const manifest = this.storeDb.readManifest();
+        const last = manifest && manifest.lastConsolidatedAt ? Date.parse(manifest.lastConsolidatedAt) : 0;
+        if (Date.now() - last < intervalHours * 60 * 60 * 1000) return null;
+
+        return this.consolidatePatterns();
+    }
+
+    /** Most recent cluster membership changes (newest last). */
+    getClusterChangeLog(limit: number = 200): ClusterChange[] {
+        return this.storeDb.readVaultLog<ClusterChange>(CLUSTER_CHANGE_LOG, limit);
+    }
+
     async recordPatternAccess(memoryId: string) {
+        // Per-memory reuse feeds the exemplar score
+        const [memory] = await this.storeDb.getByIds([memoryId]);
+        if (memory) {
+            await this.storeDb.updateMany([{ id: memoryId, values: { reuseCount: (memory.reuseCount || 0) + 1 } }]);
+        }
+
         // Find cluster containing this memory
-        const cluster = this.patterns.find(p => p.memberIds.includes(memoryId));
+        const cluster = this.getPatternForMemory(memoryId);
         if (cluster) {
             cluster.usageCount++;
             cluster.lastUsed = new Date().toISOString();
-            await this.storeDb.saveCluster(cluster);
+            await this.storeDb.updateMany([{
+                id: cluster.id,
+                values: { usageCount: cluster.usageCount, lastUsed: cluster.lastUsed }
+            }], 'clusters');
             this.logger.log(`Updated usage for pattern "${cluster.label}" (Count: ${cluster.usageCount})`);
+            await this.refreshExemplars([cluster]);
+            this._onDidChangePatterns.fire();
+        }
+    }
+
+    getPatternForMemory(memoryId: string): PatternCluster | undefined {
+        return this.patterns.find(p => p.memberIds.includes(memoryId));
+    }
+
+    /** The member shown first for a pattern: the user's choice, else the computed best version. */
+    getExemplarId(cluster: PatternCluster): string {
+        if (cluster.exemplarOverride && cluster.memberIds.includes(cluster.exemplarOverride)) return cluster.exemplarOverride;
+        return cluster.exemplarId || '';
+    }
+
+    /**
+     * Recomputes the best member of each cluster from trust, stability, recency, reuse and how much
+     * of a pasted AI response survived editing (see `exemplar.ts`). Only changed clusters are written.
+     */
+    async refreshExemplars(clusters: PatternCluster[]) {
+        try {
+            const members = await this.storeDb.getByIds(Array.from(new Set(clusters.flatMap(c => c.memberIds))));
+            const byId = new Map(members.map(m => [m.id, m]));
+
+            const updates: { id: string, values: Record<string, any> }[] = [];
+            for (const cluster of clusters) {
+                const exemplarId = selectExemplar(cluster.memberIds.map(id => byId.get(id)).filter(Boolean)) || '';
+                if (exemplarId === cluster.exemplarId) continue;
+                cluster.exemplarId = exemplarId;
+                updates.push({ id: cluster.id, values: { exemplarId } });
+            }
+
+            if (updates.length > 0) {
+                await this.storeDb.updateMany(updates, 'clusters');
+                this.queryCache.clear();
+            }
+        } catch (e) {
+            this.logger.log(`Failed to refresh pattern exemplars: ${e}`);
         }
     }
 
+    /** Overrides the best version of a pattern; `null` goes back to the computed one. */
+    async setPatternExemplar(clusterId: string, memoryId: string | null): Promise<void> {
+        await this.untilConsolidated();
+        const cluster = this.patterns.find(p => p.id === clusterId);
+        if (!cluster || (memoryId && !cluster.memberIds.includes(memoryId))) return;
+
+        cluster.exemplarOverride = memoryId || '';
+        await this.storeDb.updateMany([{ id: cluster.id, values: { exemplarOverride: cluster.exemplarOverride } }], 'clusters');
+        this.queryCache.clear();
+        this._onDidChangePatterns.fire();
+    }
+
     async getClusterMemories(clusterId: string): Promise<any[]> {
         const cluster = this.patterns.find(p => p.id === clusterId);
         if (!cluster) return [];
@@ -532,89 +1176,301 @@ export class PatternEngine {
         this.logger.log(`Fetching ${cluster.memberIds.length} memories for cluster "${cluster.label}"`);
 
         try {
-            return await this.storeDb.getMemoriesByIds(cluster.memberIds);
+            return await this.storeDb.getByIds(cluster.memberIds);
         } catch (e) {
             this.logger.log(`Error fetching cluster memories: ${e}`);
             return [];
         }
     }
 
-    async recordFailure(failure: { type: 'runtime' | 'test' | 'process', message: string, filePath: string }) {
-        const event = {
+    // --- Pattern Library ---
+
+    /** Clusters for the pattern library: pinned first, then by usage count or most recent use. */
+    getPatterns(sortBy: PatternSortOrder = 'usage'): PatternCluster[] {
+        return [...this.patterns].sort((a, b) => {
+            if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+            if (sortBy === 'recency') return (b.lastUsed || '').localeCompare(a.lastUsed || '');
+            return b.usageCount - a.usageCount;
+        });
+    }
+
+    async renamePattern(clusterId: string, label: string): Promise<void> {
+        await this.untilConsolidated();
+        const cluster = this.patterns.find(p => p.id === clusterId);
+        if (!cluster || !label.trim()) return;
+
+        cluster.label = label.trim();
+        await this.storeDb.updateMany([{ id: cluster.id, values: { label: cluster.label } }], 'clusters');
+        this._onDidChangePatterns.fire();
+    }
+
+    async setPatternPinned(clusterId: string, pinned: boolean): Promise<void> {
+        await this.untilConsolidated();
+        const cluster = this.patterns.find(p => p.id === clusterId);
+        if (!cluster) return;
+
+        cluster.pinned = pinned;
+        await this.storeDb.updateMany([{ id: cluster.id, values: { pinned } }], 'clusters');
+        this._onDidChangePatterns.fire();
+    }
+
+    /**
+     * Folds `sourceIds` into `targetId`: members and usage are combined, the centroid becomes the
+     * member-weighted mean, and the moves are recorded in the cluster change log.
+     */
+    async mergePatterns(targetId: string, sourceIds: string[]): Promise<PatternCluster | null> {
+        await this.untilConsolidated();
+        const target = this.patterns.find(p => p.id === targetId);
+        const sources = this.patterns.filter(p => p.id !== targetId && sourceIds.includes(p.id));
+        if (!target || sources.length === 0) return null;
+
+        const all = [target, ...sources];
+        const before = all.map(p => ({ id: p.id, label: p.label, memberIds: Array.from(p.memberIds) }));
+        const weight = (p: PatternCluster) => Math.max(1, p.memberIds.length);
+        const totalWeight = all.reduce((sum, p) => sum + weight(p), 0);
+
+        target.centroid = target.centroid.map((_, i) => all.reduce((sum, p) => sum + p.centroid[i] * weight(p), 0) / totalWeight);
+        target.memberIds = Array.from(new Set(all.flatMap(p => p.memberIds)));
+        target.usageCount = all.reduce((sum, p) => sum + p.usageCount, 0);
+        target.lastUsed = all.map(p => p.lastUsed || '').sort().pop() || new Date().toISOString();
+        target.pinned = all.some(p => p.pinned);
+
+        if (target.exemplarOverride && !target.memberIds.includes(target.exemplarOverride)) target.exemplarOverride = '';
+        await this.storeDb.saveCluster(target);
+        await this.storeDb.deleteClusters(sources.map(p => p.id));
+        await this.refreshExemplars([target]);
+        this.patterns = this.patterns.filter(p => !sources.includes(p));
+
+        const after = [{ id: target.id, label: target.label, memberIds: target.memberIds }];
+        this.storeDb.appendVaultLog(CLUSTER_CHANGE_LOG, diffMemberships(before, after, new Date().toISOString()));
+        this.logger.log(`Merged ${sources.length} pattern(s) into "${target.label}".`);
+        this._onDidChangePatterns.fire();
+        return target;
+    }
+
+    /** Removes the cluster only; its memories stay in the vault. */
+    async deletePatternCluster(clusterId: string): Promise<void> {
+        await this.untilConsolidated();
+        const cluster = this.patterns.find(p => p.id === clusterId);
+        if (!cluster) return;
+
+        await this.storeDb.deleteClusters([cluster.id]);
+        this.patterns = this.patterns.filter(p => p !== cluster);
+        this.logger.log(`Deleted pattern "${cluster.label}".`);
+        this._onDidChangePatterns.fire();
+    }
+
+    /**
+     * Logs a failure and links it to the code it most likely came from (see `linkFailure`).
+     * `line` (1-based) pins the failure to a known location, e.g. a problem-matcher diagnostic.
+     * Compile errors (`compileError`, or a link made through a compiler diagnostic in the message) are
+     * logged as 'compile' failures that do not count towards the memory's failures: the code never ran.
+     */
+    async recordFailure(failure: { type: 'runtime' | 'test' | 'process', message: string, filePath: string, line?: number, compileError?: boolean }): Promise<FailureEvent> {
+        const event: FailureEvent = {
             id: uuidv4(),
-            failure_type: failure.type as 'runtime' | 'test' | 'deletion',
+            failure_type: failure.type,
             error_message: failure.message,
             timestamp: new Date().toISOString(),
             file_path: failure.filePath,
-            related_memory_id: ''
+            related_memory_id: '',
+            link_method: '',
+            link_line: 0,
+            link_score: 0
         };
 
-        // Semantic Linking
-        try {
-            // 1. Embed the error message
-            if (this.embeddings && this.storeDb) {
-                // Truncate message if too long for embedding model (usually 8k tokens, but just in case)
-                const errorText = failure.message.substring(0, 1000);
-                const errorVector = await this.embeddings.getEmbedding(errorText);
-
-                // 2. Search for code in this file that matches the error
-                // We filter by filePath to ensure we blame code in the actual file where error occurred.
-                const filter = `filePath = '${failure.filePath.replace(/\\/g, '\\\\')}'`;
-                const matches = await this.storeDb.searchWithFilter(errorVector, filter, 1);
-
-                if (matches.length > 0) {
-                    const bestMatch = matches[0];
-                    // Heuristic threshold: Is this error relevant to this code?
-                    // LanceDB returns distance (lower is better, 0 is exact).
-                    // But here we are matching "Error Message" vs "Code Content".
-                    // They might not be structurally similar, but semantically related?
-                    // If purely local embedding (nomic-embed-text), it might work.
-                    // Let's assume matches[0] is our best bet for now.
-                    // (Optional: check distance < 0.6?)
-                    event.related_memory_id = bestMatch.id;
-
-                    // Option: Update the memory to include this failure log?
-                    // await this.updateMemory(bestMatch.id, { failureLog: failure.message });
-                }
-            }
-        } catch (e) {
-            this.logger.log(`Semantic linking failed: ${e}`);
-        }
-
         let embedding: number[] | undefined;
         if (this.embeddings) {
             try {
+                // Truncate message if too long for embedding model (usually 8k tokens, but just in case)
                 const errorText = failure.message.substring(0, 1000);
                 embedding = await this.embeddings.getEmbedding(errorText);
             } catch (e) { }
         }
 
+        // Linking: the chunk spanning a stack frame's line, else the most similar code in the file
+        let compileError = !!failure.compileError;
         try {
-            await this.storeDb.logFailureEvent(event as any, embedding);
+            if (this.storeDb) {
+                const link = await this.linkFailure(failure, embedding);
+                if (link) {
+                    const { compileError: fromCompiler, ...fields } = link;
+                    Object.assign(event, fields);
+                    compileError = compileError || !!fromCompiler;
+                }
+            }
+        } catch (e) {
+            this.logger.log(`Failure linking failed: ${e}`);
+        }
+
+        if (compileError) event.failure_type = 'compile';
+
+        try {
+            await this.storeDb.logFailureEvent(event, embedding);
         } catch (e) {
             this.logger.log(`DB Log Failure failed: ${e}`);
         }
 
         // Update Memory Stats if Linked
-        if (event.related_memory_id) {
-            try {
-                const memory = await this.storeDb.getPatternById(event.related_memory_id);
-                if (memory) {
-                    const newCount = (memory.failureCount || 0) + 1;
-                    const updates = {
-                        failureCount: newCount,
-                        lastFailure: event.timestamp,
-                        isUnstable: newCount >= 3 // Threshold for instability
-                    };
-                    await this.storeDb.updatePattern(event.related_memory_id, updates);
-                    this.logger.log(`Updated memory ${event.related_memory_id} failure count to ${newCount}`);
-                }
-            } catch (e) {
-                this.logger.log(`Failed to update memory stats: ${e}`);
+        if (event.related_memory_id && event.failure_type !== 'compile') {
+            await this.countFailure(event.related_memory_id, event.timestamp);
+        }
+
+        this.queryCache.clear();
+        this._onDidChangeFailures.fire();
+        this.logger.log(`Recorded failure: ${event.failure_type} in ${path.basename(event.file_path)} (Linked: ${event.related_memory_id ? `${event.link_method}${event.link_line ? `, line ${event.link_line}` : ''}` : 'No'})`);
+        return event;
+    }
+
+    private async countFailure(memoryId: string, timestamp: string) {
+        try {
+            const [memory] = await this.storeDb.getByIds([memoryId]);
+            if (!memory) return;
+
+            const newCount = (memory.failureCount || 0) + 1;
+            const updates = {
+                failureCount: newCount,
+                lastFailure: timestamp,
+                isUnstable: newCount >= this.UNSTABLE_FAILURE_COUNT
+            };
+            await this.storeDb.updateMany([{ id: memoryId, values: updates }]);
+            this.logger.log(`Updated memory ${memoryId} failure count to ${newCount}`);
+
+            const cluster = this.getPatternForMemory(memoryId);
+            if (cluster) await this.refreshExemplars([cluster]);
+        } catch (e) {
+            this.logger.log(`Failed to update memory stats: ${e}`);
+        }
+    }
+
+    /**
+     * Attributes a failure to a memory. Stack frames in the user's code (innermost first) are matched
+     * to the stored chunk spanning that line; otherwise the error is compared with the code in the
+     * failing file and linked only if the similarity reaches `engram.failures.linkThreshold`.
+     */
+    private async linkFailure(failure: { type: string, message: string, filePath: string, line?: number, compileError?: boolean }, errorVector?: number[]): Promise<(Partial<FailureEvent> & { compileError?: boolean }) | null> {
+        let frames = userFrames(parseStackTrace(failure.message));
+        if (failure.line && failure.filePath) {
+            frames.unshift({ filePath: failure.filePath, line: failure.line, isLibrary: false, isCompileError: failure.compileError });
+        }
+        if (failure.type === 'test') {
+            // Blame the code under test before the test itself (assertions throw inside the test file)
+            frames = [...frames.filter(f => !isTestFile(f.filePath)), ...frames.filter(f => isTestFile(f.filePath))];
+        }
+        frames = frames.slice(0, this.MAX_STACK_FRAMES);
+
+        for (const frame of frames) {
+            for (const filePath of this.resolveFramePath(frame.filePath, failure.filePath)) {
+                const line = frame.line - 1; // Chunks store 0-based lines
+                const spanning = await this.storeDb.getAllMemories(50, F.and(
+                    F.eq('filePath', filePath),
+                    F.lte('startLine', line),
+                    F.gte('endLine', line)
+                ));
+                if (spanning.length === 0) continue;
+
+                // Innermost chunk (a method rather than its class), newest first on ties
+                const [best] = spanning.sort((a: any, b: any) =>
+                    ((a.endLine - a.startLine) - (b.endLine - b.startLine)) || (b.timestamp || '').localeCompare(a.timestamp || ''));
+                return { related_memory_id: best.id, link_method: 'stack', link_line: frame.line, file_path: filePath, compileError: frame.isCompileError };
             }
         }
 
-        this.logger.log(`Recorded failure: ${failure.type} in ${path.basename(failure.filePath)} (Linked: ${event.related_memory_id ? 'Yes' : 'No'})`);
+        if (!errorVector) return null;
+
+        const threshold = vscode.workspace.getConfiguration('engram').get<number>('failures.linkThreshold', 0.4);
+        const subjects = failure.type === 'test' && isTestFile(failure.filePath)
+            ? subjectFilesForTest(failure.filePath).flatMap(f => this.resolveFramePath(f, failure.filePath))
+            : [];
+        const candidates = [...subjects, failure.filePath, ...frames.flatMap(f => this.resolveFramePath(f.filePath, failure.filePath))];
+        for (const filePath of Array.from(new Set(candidates))) {
+            const matches = await this.storeDb.searchWithFilter(errorVector, F.and(F.eq('filePath', filePath), F.eq('vectorType', 'code')), 1);
+            if (matches.length === 0) continue;
+
+            const similarity = this.cosineSimilarity(errorVector, Array.from(matches[0].vector as any));
+            if (similarity < threshold) continue;
+            return { related_memory_id: matches[0].id, link_method: 'similarity', link_score: similarity, file_path: filePath };
+        }
+        return null;
+    }
+
+    /** Absolute paths a stack frame may refer to (relative frames are tried against the workspace folders). */
+    private resolveFramePath(framePath: string, reportedPath: string): string[] {
+        if (/^[a-z][a-z0-9+.-]+:\/\//i.test(framePath)) return []; // http://, webpack:// ...
+        if (path.isAbsolute(framePath)) return [path.normalize(framePath)];
+
+        const roots = (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+        if (reportedPath) roots.push(path.dirname(reportedPath));
+        return Array.from(new Set(roots.map(root => path.join(root, framePath))));
+    }
+
+    /**
+     * A test that failed on this memory passes again: logged in the failure timeline (so the
+     * history shows the fix) and stamped on the memory as `lastRecovery`.
+     */
+    async recordRecovery(recovery: { memoryId: string, message: string, filePath: string, linkMethod?: FailureLinkMethod }): Promise<void> {
+        const event: FailureEvent = {
+            id: uuidv4(),
+            failure_type: 'recovery',
+            error_message: recovery.message,
+            timestamp: new Date().toISOString(),
+            file_path: recovery.filePath,
+            related_memory_id: recovery.memoryId,
+            link_method: recovery.linkMethod || '',
+            link_line: 0,
+            link_score: 0
+        };
+
+        try {
+            await this.storeDb.logFailureEvent(event);
+            await this.storeDb.updateMany([{ id: recovery.memoryId, values: { lastRecovery: event.timestamp } }]);
+        } catch (e) {
+            this.logger.log(`Failed to record recovery: ${e}`);
+        }
+
+        this._onDidChangeFailures.fire();
+        this.logger.log(`Recorded recovery for memory ${recovery.memoryId}: ${recovery.message.split('\n')[0]}`);
+    }
+
+    /** Failures for the timeline, newest first. */
+    async getFailures(limit: number = 200): Promise<any[]> {
+        if (!this.storeDb) return [];
+        return this.storeDb.getFailures(undefined, limit);
+    }
+
+    /**
+     * Removes a wrong attribution: the failure stays in the timeline (marked unlinked, so it is not
+     * linked again) and the memory's failure count, last failure and instability are rolled back.
+     */
+    async unlinkFailure(failureId: string): Promise<void> {
+        const [failure] = await this.storeDb.getByIds([failureId], 'failures');
+        if (!failure || !failure.related_memory_id) return;
+
+        const memoryId = failure.related_memory_id;
+        await this.storeDb.updateMany([{ id: failureId, values: { related_memory_id: '', link_method: 'unlinked', link_score: 0 } }], 'failures');
+
+        // Recoveries, churn and compile errors never counted as failures
+        const uncounted = ['recovery', 'churn', 'compile'];
+        const [memory] = uncounted.includes(failure.failure_type) ? [] : await this.storeDb.getByIds([memoryId]);
+        if (memory) {
+            const remaining = await this.storeDb.getFailures(F.and(F.eq('related_memory_id', memoryId), F.not(F.in('failure_type', uncounted))), 1);
+            const newCount = Math.max(0, (memory.failureCount || 0) - 1);
+            await this.storeDb.updateMany([{
+                id: memoryId,
+                values: {
+                    failureCount: newCount,
+                    lastFailure: remaining.length > 0 ? remaining[0].timestamp : '',
+                    isUnstable: newCount >= this.UNSTABLE_FAILURE_COUNT
+                }
+            }]);
+
+            const cluster = this.getPatternForMemory(memoryId);
+            if (cluster) await this.refreshExemplars([cluster]);
+        }
+
+        this.queryCache.clear();
+        this.logger.log(`Unlinked failure ${failureId} from memory ${memoryId}.`);
+        this._onDidChangeFailures.fire();
     }
 
     async findSimilarFailures(errorMessage: string): Promise<any[]> {
@@ -629,30 +1485,200 @@ export class PatternEngine {
         }
     }
 
+    /**
+     * Classifies code saved in the last few minutes that is no longer in its file (see `ChurnKind`),
+     * once per memory. Only reverts and deletions of AI insertions count as failures; moves and
+     * refactors (and edits to the user's own code) are logged as churn so the timeline still shows them.
+     */
     async checkForChurn(filePath: string, currentContent: string) {
-        // Look for memories created in the last 10 minutes for this file
         try {
             if (!this.storeDb) return;
-            const recent = await this.storeDb.getRecentMemories(filePath, 10);
-
-            for (const memory of recent) {
-                // simple presence check
-                const normalizedMem = memory.content.replace(/\s+/g, ' ').trim();
-                const normalizedCurr = currentContent.replace(/\s+/g, ' ').trim();
-
-                if (!normalizedCurr.includes(normalizedMem)) {
-                    // Code is gone!
-                    await this.recordFailure({
-                        type: 'process',
-                        message: `Silent Churn: Recent code memory (ID: ${memory.id}) deleted/modified silently.`,
-                        filePath: filePath
-                    });
+            const recent = (await this.storeDb.getRecentMemories(filePath, this.CHURN_WINDOW_MINUTES))
+                .filter(memory => (memory.vectorType || 'code') === 'code' && !memory.churnKind);
+            const churned = recent.filter(memory => !containsCode(currentContent, memory.content));
+            if (churned.length === 0) return;
+
+            // Code still present verbatim is accounted for: a deleted function must not be matched
+            // against a similar sibling that is still there
+            const fileMemories = await this.storeDb.getAllMemories(1000, F.eq('filePath', filePath));
+            const intact = Array.from(new Set(fileMemories.map(m => m.content as string).filter(c => c && currentContent.includes(c))));
+            const unaccounted = intact.sort((a, b) => b.length - a.length).reduce((content, code) => content.split(code).join('\n'), currentContent);
+
+            for (const memory of churned) {
+                const previousVersions = fileMemories.filter(m => m.timestamp < memory.timestamp);
+                const churn = await this.classifyChurn(memory, filePath, currentContent, unaccounted, previousVersions);
+                await this.recordChurn(memory, churn);
+            }
+        } catch (e) {
+            this.logger.log(`Error checking churn: ${e}`);
+        }
+    }
+
+    private async classifyChurn(memory: any, filePath: string, currentContent: string, unaccounted: string, older: any[]): Promise<{ kind: ChurnKind, score: number, movedTo?: string }> {
+        // An earlier version of the same code is back
+        const previousVersions = older.filter(o => normalizeWhitespace(o.content) !== normalizeWhitespace(memory.content) && (memory.symbolName
+            ? o.symbolName === memory.symbolName
+            : o.startLine <= memory.endLine && memory.startLine <= o.endLine && codeSimilarity(o.content, memory.content) >= 0.3));
+        if (previousVersions.some(o => containsCode(currentContent, o.content))) {
+            return { kind: 'reverted', score: 1 };
+        }
+
+        const inPlace = bestWindowSimilarity(memory.content, unaccounted);
+        if (inPlace >= this.CHURN_SIMILARITY) {
+            return { kind: 'refactored', score: inPlace };
+        }
+
+        const moved = await this.findMovedCode(memory, filePath);
+        if (moved) {
+            return { kind: 'moved', score: moved.score, movedTo: moved.filePath };
+        }
+        return { kind: 'deleted', score: inPlace };
+    }
+
+    /**
+     * Looks for a memory's code in other files: files holding similar memories first, then open
+     * documents, then the rest of the workspace (same extension, capped).
+     */
+    private async findMovedCode(memory: any, filePath: string): Promise<{ filePath: string, score: number } | null> {
+        const openDocuments = new Map(vscode.workspace.textDocuments
+            .filter(doc => doc.uri.scheme === 'file' && doc.uri.fsPath !== filePath)
+            .map(doc => [doc.uri.fsPath, doc.getText()] as [string, string]));
+
+        const likely: string[] = [];
+        if (memory.vector) {
+            const similar = await this.storeDb.searchWithFilter(Array.from(memory.vector as any), F.and(F.neq('filePath', filePath), F.eq('vectorType', 'code')), 5);
+            likely.push(...similar.map(m => m.filePath));
+        }
+        likely.push(...openDocuments.keys());
+
+        const checked = new Set<string>([filePath]);
+        const found = await this.findCodeIn(memory.content, likely, openDocuments, checked);
+        if (found) return found;
+
+        const extension = path.extname(filePath);
+        if (!extension || !vscode.workspace.workspaceFolders) return null;
+        const files = await vscode.workspace.findFiles(`**/*${extension}`, '**/node_modules/**', this.MAX_CHURN_SCAN_FILES);
+        return this.findCodeIn(memory.content, files.map(uri => uri.fsPath), openDocuments, checked);
+    }
+
+    /** The first candidate file (up to MAX_CHURN_SCAN_FILES in total) that contains `code` or similar code. */
+    private async findCodeIn(code: string, candidates: string[], openDocuments: Map<string, string>, checked: Set<string>): Promise<{ filePath: string, score: number } | null> {
+        for (const candidate of candidates) {
+            if (!candidate || checked.has(candidate)) continue;
+            if (checked.size > this.MAX_CHURN_SCAN_FILES) return null;
+            checked.add(candidate);
+
+            let content = openDocuments.get(candidate);
+            if (content === undefined) {
+                try {
+                    if ((await fs.promises.stat(candidate)).size > 512 * 1024) continue;
+                    content = await fs.promises.readFile(candidate, 'utf8');
+                } catch (e) {
+                    continue; // Deleted or unreadable
+                }
+            }
+
+            if (containsCode(content, code)) return { filePath: candidate, score: 1 };
+            const score = bestWindowSimilarity(code, content);
+            if (score >= this.CHURN_SIMILARITY) return { filePath: candidate, score };
+        }
+        return null;
+    }
+
+    private async recordChurn(memory: any, churn: { kind: ChurnKind, score: number, movedTo?: string }) {
+        const counts = countsAgainstStability(churn.kind, memory.source);
+        const name = memory.symbolName || (memory.content || '').split('\n').map((l: string) => l.trim()).find(Boolean) || 'Code';
+        const minutes = Math.max(1, Math.round((Date.now() - new Date(memory.timestamp).getTime()) / 60000));
+        const descriptions: Record<ChurnKind, string> = {
+            moved: `Moved: ${name} now lives in ${path.basename(churn.movedTo || '')}`,
+            refactored: `Refactored: ${name} was changed in place (similarity ${churn.score.toFixed(2)})`,
+            reverted: `Reverted: ${name} was replaced by its earlier version ${minutes} min after it was saved`,
+            deleted: `Deleted: ${name} was removed ${minutes} min after it was saved`
+        };
+
+        const event: FailureEvent = {
+            id: uuidv4(),
+            failure_type: counts ? 'deletion' : 'churn',
+            error_message: `${descriptions[churn.kind]}${counts ? ' (AI-inserted code)' : ''}`,
+            timestamp: new Date().toISOString(),
+            file_path: churn.movedTo || memory.filePath,
+            related_memory_id: memory.id,
+            link_method: 'churn',
+            link_line: 0,
+            link_score: churn.score,
+            churn_kind: churn.kind
+        };
+
+        try {
+            await this.storeDb.logFailureEvent(event);
+            await this.storeDb.updateMany([{ id: memory.id, values: { churnKind: churn.kind } }]);
+            if (counts) await this.countFailure(memory.id, event.timestamp);
+        } catch (e) {
+            this.logger.log(`Failed to record churn: ${e}`);
+        }
+
+        this.queryCache.clear();
+        this._onDidChangeFailures.fire();
+        this.logger.log(`Churn detected: memory ${memory.id} ${churn.kind}${counts ? ' (counts as failure)' : ''}.`);
+    }
+
+    /**
+     * Replaces extractive (offline) summaries with LLM ones once an LLM is reachable, one batch per call.
+     * Memories stored with no summary at all (before the fallback existed) are upgraded too. A new
+     * pattern description re-embeds the abstraction vector, and memories without a pattern are clustered.
+     * Returns the number of upgraded memories.
+     */
+    async upgradeFallbackSummaries(): Promise<number> {
+        if (this.upgradingSummaries) return 0;
+        this.upgradingSummaries = true;
 
-                    this.logger.log(`Churn detected: Memory ${memory.id} deleted.`);
+        try {
+            const candidates = await this.storeDb.getAllMemories(
+                this.SUMMARY_UPGRADE_BATCH,
+                F.or(F.eq('summarySource', 'extractive'), F.eq('summary', ''))
+            );
+            if (candidates.length === 0 || !(await this.llm.isAvailable())) return 0;
+
+            let upgraded = 0;
+            for (const memory of await this.storeDb.getByIds(candidates.map(m => m.id))) {
+                const summary = await this.llm.summarize(memory.content);
+                const patternDescription = await this.llm.abstractPattern(memory.content);
+                if (!summary || !patternDescription) break; // LLM went away mid-batch: next pass retries
+
+                const values = { summary, patternDescription, summarySource: 'llm' };
+                await this.storeDb.updateMany([{ id: memory.id, values }]);
+                this.lexical.add(memory.id, { ...memory, ...values });
+
+                if (patternDescription !== memory.patternDescription) {
+                    const patternVector = await this.embeddings.getEmbedding(patternDescription);
+                    const { vector: _codeVector, ...fields } = memory;
+                    await this.storeDb.deleteRelatedVectors(memory.id, 'pattern_abstraction');
+                    await this.storeDb.savePattern(patternVector, {
+                        ...fields,
+                        ...values,
+                        id: uuidv4(),
+                        vectorType: 'pattern_abstraction',
+                        relatedId: memory.id,
+                        content: patternDescription
+                    });
+                    // Already clustered memories are re-evaluated by the next consolidation pass
+                    if (!this.getPatternForMemory(memory.id)) {
+                        await this.assignToPattern(memory.id, patternVector, patternDescription);
+                    }
                 }
+                upgraded++;
             }
+
+            if (upgraded > 0) {
+                this.queryCache.clear();
+                this.logger.log(`Upgraded ${upgraded} offline summaries with the LLM.`);
+            }
+            return upgraded;
         } catch (e) {
-            this.logger.log(`Error checking churn: ${e}`);
+            this.logger.log(`Summary upgrade failed: ${e}`);
+            return 0;
+        } finally {
+            this.upgradingSummaries = false;
         }
     }
 
@@ -668,8 +1694,11 @@ export class PatternEngine {
     async trustPattern(id: string) {
         if (!this.storeDb) return;
         try {
-            await this.storeDb.updatePattern(id, { isTrusted: true });
+            await this.storeDb.updateMany([{ id, values: { isTrusted: true } }]);
             this.logger.log(`User trusted pattern ${id}`);
+
+            const cluster = this.getPatternForMemory(id);
+            if (cluster) await this.refreshExemplars([cluster]);
         } catch (e) {
             this.logger.log(`Error trusting pattern: ${e}`);
         }
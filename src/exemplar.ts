@@ -0,0 +1,92 @@
+/**
+ * Canonical exemplar ("best version") selection for a pattern cluster.
+ */
+
+export interface ExemplarCandidate {
+    id: string;
+    timestamp?: string;
+    source?: string; // 'human' | 'ai' | 'ai_candidate'
+    isTrusted?: boolean;
+    isUnstable?: boolean;
+    failureCount?: number;
+    reuseCount?: number; // Times the memory was opened / reused
+    pastedResponse?: string;
+    finalEditedCode?: string;
+}
+
+const WEIGHTS = {
+    trusted: 3,
+    unstable: -3,
+    perFailure: -0.5,
+    maxFailurePenalty: -2,
+    recency: 1, // Halves every RECENCY_HALF_LIFE_DAYS
+    reuse: 0.5, // Per doubling of the reuse count
+    acceptance: 1, // AI response kept (nearly) as pasted
+    unreviewedAi: -0.25 // AI-sourced with nothing that says it worked
+};
+const RECENCY_HALF_LIFE_DAYS = 30;
+const MAX_DIFF_LINES = 400; // Edit distance is O(n·m); longer inputs are truncated
+
+/**
+ * Line-level similarity of two texts: 1 - normalized Levenshtein distance (1 = identical).
+ */
+export function editSimilarity(a: string, b: string): number {
+    const left = a.split('\n').map(l => l.trim()).filter(Boolean).slice(0, MAX_DIFF_LINES);
+    const right = b.split('\n').map(l => l.trim()).filter(Boolean).slice(0, MAX_DIFF_LINES);
+    if (left.length === 0 && right.length === 0) return 1;
+
+    let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= left.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= right.length; j++) {
+            const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+    return 1 - previous[right.length] / Math.max(left.length, right.length);
+}
+
+/**
+ * Higher is better. Trust and stability dominate; recency, reuse and how much of a pasted
+ * AI response survived editing break ties between otherwise equal members.
+ */
+export function scoreExemplar(candidate: ExemplarCandidate, now: number = Date.now()): number {
+    let score = 0;
+
+    if (candidate.isTrusted) score += WEIGHTS.trusted;
+    if (candidate.isUnstable) score += WEIGHTS.unstable;
+    score += Math.max(WEIGHTS.maxFailurePenalty, (candidate.failureCount || 0) * WEIGHTS.perFailure);
+
+    const captured = candidate.timestamp ? Date.parse(candidate.timestamp) : NaN;
+    if (!isNaN(captured)) {
+        const ageDays = Math.max(0, now - captured) / (24 * 60 * 60 * 1000);
+        score += WEIGHTS.recency * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    }
+
+    score += WEIGHTS.reuse * Math.log2(1 + (candidate.reuseCount || 0));
+
+    if (candidate.pastedResponse && candidate.finalEditedCode) {
+        score += WEIGHTS.acceptance * editSimilarity(candidate.pastedResponse, candidate.finalEditedCode);
+    } else if ((candidate.source === 'ai' || candidate.source === 'ai_candidate') && !candidate.isTrusted) {
+        score += WEIGHTS.unreviewedAi;
+    }
+
+    return score;
+}
+
+/**
+ * Picks the best member. Returns null for an empty cluster; ties keep the first candidate.
+ */
+export function selectExemplar(candidates: ExemplarCandidate[], now: number = Date.now()): string | null {
+    let best: string | null = null;
+    let bestScore = -Infinity;
+    for (const candidate of candidates) {
+        const score = scoreExemplar(candidate, now);
+        if (score > bestScore) {
+            best = candidate.id;
+            bestScore = score;
+        }
+    }
+    return best;
+}
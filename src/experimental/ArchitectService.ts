@@ -2,6 +2,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { LabsController } from './LabsController';
+import { LlmService } from '../llm';
+import { StreamingDocument } from '../ui/StreamingDocument';
 
 export class ArchitectService {
     private static instance: ArchitectService;
@@ -32,21 +34,27 @@ export class ArchitectService {
         vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "The Architect is thinking...",
-            cancellable: false
-        }, async (progress) => {
+            cancellable: true
+        }, async (progress, token) => {
             progress.report({ message: "Scanning Dependency Graph..." });
 
             // 2. Build Dependency Graph
             const graph = await this.buildDependencyGraph();
             const graphStr = this.formatGraph(graph);
+            if (token.isCancellationRequested) return;
 
             progress.report({ message: "Drafting Blueprint..." });
 
-            // 3. Ask LLM
-            const plan = await this.askArchitect(goal, graphStr);
-
-            // 4. Present Plan
-            await this.showPlan(plan);
+            // 3. Ask LLM, streaming the plan into a document beside the editor
+            const plan = await StreamingDocument.open('markdown');
+            try {
+                await this.askArchitect(goal, graphStr, token, chunk => plan.append(chunk));
+            } catch (e) {
+                plan.append(token.isCancellationRequested
+                    ? "\n\n---\n_Plan generation cancelled._\n"
+                    : `${plan.size > 0 ? '\n\n---\n' : ''}# Plan Generation Failed\nCould not connect to Architect (check \`engram.llm.endpoint\`).\n`);
+            }
+            await plan.flush();
         });
     }
 
@@ -85,7 +93,7 @@ export class ArchitectService {
         return output;
     }
 
-    private async askArchitect(goal: string, graph: string): Promise<string> {
+    private async askArchitect(goal: string, graph: string, token: vscode.CancellationToken, onToken: (chunk: string) => void): Promise<string> {
         const prompt = `Goal: ${goal}
         
         Context: You are a System Architect.
@@ -102,32 +110,6 @@ export class ArchitectService {
         ...
         `;
 
-        try {
-            const response = await fetch('http://localhost:11434/api/generate', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: 'qwen2.5-coder:1.5b',
-                    prompt: prompt,
-                    stream: false
-                })
-            });
-
-            if (response.ok) {
-                const data = await response.json() as { response: string };
-                return data.response;
-            }
-        } catch (e) {
-            return "# Plan Generation Failed\nCould not connect to Architect (Ollama).";
-        }
-        return "";
-    }
-
-    private async showPlan(plan: string) {
-        const doc = await vscode.workspace.openTextDocument({
-            content: plan,
-            language: 'markdown'
-        });
-        await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside });
+        return LlmService.getInstance().generate('architect', prompt, { token, onToken });
     }
 }
@@ -1,7 +1,7 @@
 
 import * as vscode from 'vscode';
 import { LabsController } from './LabsController';
-import { OllamaService } from '../llm';
+import { LlmService } from '../llm';
 
 export class HippocampusService {
     private static instance: HippocampusService;
@@ -60,22 +60,6 @@ export class HippocampusService {
         try {
             // Ask LLM to summarize based on file names (Lightweight for now)
             // Future V2: Read the diffs.
-            const prompt = `I just finished a coding session where I modified these files: ${files}. 
-            Generate a single sentence log entry summarizing what kind of work this likely was (e.g. "Refactored UI components" or "Fixed backend API"). 
-            Do not mention specific filenames unless critical. Keep it under 20 words.
-            Log Entry:`;
-
-            // We borrow the LLM service (assuming it exposes a method or we add one)
-            // Ideally we use a public method or the 'summarize' one.
-            // Let's use 'abstractPattern' as a proxy or just raw call if we can access it?
-            // Since OllamaService.callLlm is private, we'll try to use 'intent' or just mimic it.
-            // Actually, looking at llm.ts, 'inferIntent' is public and takes code.
-            // A better way is to add a generic 'ask' method or use what we have.
-            // Let's rely on 'inferIntent' but repurpose the prompt inside it? No, that's hacky.
-            // I'll add a helper to OllamaService if needed, but for now I'll hack it nicely:
-            // "inferIntent" takes code and returns a prompt.
-            // I will implement a raw fetch here to keep it isolated/experimental.
-
             const summary = await this.generateSummary(files);
 
             await this.writeJournal(summary, files);
@@ -95,21 +79,9 @@ export class HippocampusService {
 User: I modified: ${fileList}. Summarize this session in 1 short sentence (max 15 words).
 Log:`;
 
-            // Raw fetch to Ollama (hardcoded for beta isolation)
-            const response = await fetch('http://localhost:11434/api/generate', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: 'qwen2.5-coder:1.5b', // Fast model
-                    prompt: prompt,
-                    stream: false
-                })
-            });
-
-            if (response.ok) {
-                const data = await response.json() as { response: string };
-                return data.response.trim().replace(/^"/, '').replace(/"$/, '');
-            }
+            const response = await LlmService.getInstance().generate('journal', prompt);
+            const summary = response.trim().replace(/^"/, '').replace(/"$/, '');
+            if (summary) return summary;
         } catch (e) {
             return `Worked on ${fileList}`; // Fallback
         }
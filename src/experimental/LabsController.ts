@@ -1,5 +1,4 @@
 import * as vscode from 'vscode';
-import { OllamaService } from '../llm';
 
 export class LabsController {
     private static instance: LabsController;
@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { LabsController } from './LabsController';
 import { EmbeddingService } from '../embeddings';
+import { F } from '../lanceFilter';
 
 interface Snapshot {
     id: string; // Unique ID (timestamp + random)
@@ -116,7 +117,7 @@ export class PhotographerService {
 
             // Let's do the "Content Similarity" check using the vector we just generated.
             const similar = await table.search(embedding)
-                .where(`path = '${relativePath}'`) // Filter by file path
+                .where(F.eq('path', relativePath).toString()) // Filter by file path
                 .limit(1)
                 .execute();
 
@@ -183,7 +184,7 @@ export class PhotographerService {
             // Helper to get dummy data for schema inference
             const dummy: Snapshot = {
                 id: 'init',
-                vector: new Array(384).fill(0), // Assuming 384 dim model
+                vector: new Array(await EmbeddingService.getInstance().getDimension()).fill(0), // Match the active embedding model
                 path: 'init',
                 content: 'init',
                 timestamp: 0,
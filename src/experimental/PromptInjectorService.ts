@@ -1,6 +1,7 @@
 
 import * as vscode from 'vscode';
 import { MistakeDetector } from '../mistakeDetector';
+import { LlmService } from '../llm';
 
 export class PromptInjectorService {
     private static instance: PromptInjectorService;
@@ -57,7 +58,7 @@ export class PromptInjectorService {
         try {
             // 2. Gather Context
             const mistakeDetector = MistakeDetector.getInstance();
-            const mistakes = mistakeDetector.getAllFingerprints().filter(fp => !fp.ignored);
+            const mistakes = mistakeDetector.getAllFingerprints().filter(fp => mistakeDetector.isActive(fp));
 
             // Get last 50 lines of code
             const startLine = Math.max(0, position.line - 50);
@@ -88,32 +89,35 @@ export class PromptInjectorService {
             5. DO NOT include "Here is a prompt" or quotes. Just output the prompt text itself.
             `;
 
-            // 4. Call LLM (Ollama) with Timeout (Fix "Zombie")
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s Timeout
-
+            // 4. Call LLM with Timeout (Fix "Zombie"): 5s by default for this feature.
+            // Streamed into a cancellable notification so the user sees the prompt take shape.
+            let cancelled = false;
             try {
-                const response = await fetch('http://localhost:11434/api/generate', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        model: 'qwen2.5:0.5b',
-                        prompt: llmPrompt,
-                        stream: false,
-                        options: {
-                            num_predict: 200,
-                            temperature: 0.7
-                        }
-                    }),
-                    signal: controller.signal
+                const generatedPrompt = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Engram: Writing your prompt",
+                    cancellable: true
+                }, async (progress, token) => {
+                    let streamed = '';
+                    try {
+                        const response = await LlmService.getInstance().generate('promptInjector', llmPrompt, {
+                            token,
+                            onToken: chunk => {
+                                streamed += chunk;
+                                progress.report({ message: `…${streamed.replace(/\s+/g, ' ').slice(-80)}` });
+                            }
+                        });
+                        return response.trim();
+                    } catch (llmError) {
+                        if (!token.isCancellationRequested) throw llmError;
+                        cancelled = true;
+                        return '';
+                    }
                 });
 
-                clearTimeout(timeoutId);
-
-                if (response.ok) {
-                    const data = await response.json() as { response: string };
-                    const generatedPrompt = data.response.trim();
-
+                if (cancelled) {
+                    vscode.window.setStatusBarMessage("$(circle-slash) Prompt Generation Cancelled.", 3000);
+                } else if (generatedPrompt) {
                     // 5. Inject to Clipboard
                     await vscode.env.clipboard.writeText(generatedPrompt);
 
@@ -129,12 +133,11 @@ export class PromptInjectorService {
                 } else {
                     vscode.window.setStatusBarMessage("$(error) Failed to generate prompt.", 3000);
                 }
-            } catch (fetchError: any) {
-                clearTimeout(timeoutId);
-                if (fetchError.name === 'AbortError') {
+            } catch (llmError: any) {
+                if (llmError.name === 'AbortError') {
                     vscode.window.setStatusBarMessage("$(clock) Prompt Generation Timed Out.", 3000);
                 } else {
-                    throw fetchError;
+                    throw llmError;
                 }
             }
         } catch (e) {
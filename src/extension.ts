@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { EmbeddingService } from './embeddings';
+import { LlmService } from './llm';
 import { ExclusionManager } from './exclusions';
 import { Logger } from './logger';
 import { MistakeDetector } from './mistakeDetector';
@@ -20,6 +21,50 @@ import { PhotographerService } from './experimental/PhotographerService';
 import { flashbackCommand } from './experimental/FlashbackCommand';
 import { HippocampusService } from './experimental/HippocampusService';
 import { ArchitectService } from './experimental/ArchitectService';
+import { PatternEngine } from './engine';
+import { VaultLocation } from './vaultLocation';
+import { haveIDoneThisBeforeCommand, searchMemoriesCommand } from './features/HaveIDoneThisBefore';
+import { PatternLibraryProvider } from './ui/PatternLibraryProvider';
+import { ReuseAlertService } from './reuseAlerts';
+import { FailureCaptureService } from './failureCapture';
+import { ReuseCodeLensProvider } from './ui/ReuseCodeLensProvider';
+import { MEMORY_SCHEME, MemoryDocumentProvider } from './ui/MemoryDocumentProvider';
+import { FailureTimelineProvider } from './ui/FailureTimelineProvider';
+import { EditTracker } from './tracker';
+import { replayFix } from './features/ReplayFix';
+import { applyPastFixCommand } from './features/ApplyPastFix';
+import { inferIntentCommand } from './features/InferIntent';
+import { PastFixCodeActionProvider } from './ui/PastFixCodeActionProvider';
+import { MistakeInsightsPanel } from './ui/MistakeInsightsPanel';
+import { fixSummary } from './fixDiff';
+import {
+    clearAiRegionsCommand,
+    markSelectionAsAiCommand,
+    toggleAiRegionsCommand,
+    trackInlineCompletionCommand
+} from './features/Provenance';
+import {
+    openFailureCommand,
+    openFailureMemoryCommand,
+    showFailureTimelineCommand,
+    unlinkFailureCommand
+} from './features/FailureTimeline';
+import {
+    diffWithEarlierCommand,
+    openEarlierVersionCommand,
+    showReuseNotification,
+    suppressReuseAlertCommand
+} from './features/ReuseAlerts';
+import {
+    deletePatternCommand,
+    mergePatternsCommand,
+    openPatternMemberCommand,
+    renamePatternCommand,
+    resetPatternExemplarCommand,
+    setPatternExemplarCommand,
+    setPatternPinnedCommand,
+    showPatternCommand
+} from './features/PatternLibrary';
 
 export async function activate(context: vscode.ExtensionContext) {
     const logger = Logger.getInstance();
@@ -28,6 +73,214 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize services
     EmbeddingService.getInstance();
     ExclusionManager.getInstance().setContext(context);
+    VaultLocation.getInstance().setContext(context); // Before the engine opens its vault
+    ReuseAlertService.getInstance().setContext(context);
+
+    // --- CORE FLOW: Capture on Save, Retrieve on Demand ---
+    const engine = PatternEngine.getInstance();
+    const engineReady = engine.init().catch(e => logger.log(`Failed to init PatternEngine: ${e}`));
+
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(async (document) => {
+        if (document.uri.scheme !== 'file') return;
+        await engineReady;
+
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        try {
+            const results = await engine.store({
+                content: document.getText(),
+                filePath: document.uri.fsPath,
+                languageId: document.languageId,
+                workspaceName: folder ? folder.name : ''
+            });
+            // Duplicates, pattern matches and unstable look-alikes (notification + CodeLens)
+            showReuseNotification(await ReuseAlertService.getInstance().update(document, results));
+        } catch (e) {
+            logger.log(`Capture on save failed: ${e}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('engram.llm')) LlmService.getInstance().reloadConfig();
+    }));
+
+    // Switching embedding models re-embeds the vault (vector sizes differ between models)
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async (e) => {
+        if (!e.affectsConfiguration('engram.embeddings')) return;
+        if (!EmbeddingService.getInstance().reloadConfig()) return;
+
+        await engineReady;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Engram: Re-embedding your code memory...",
+            cancellable: false
+        }, async (progress) => {
+            try {
+                await engine.migrateEmbeddings(message => progress.report({ message }));
+                vscode.window.showInformationMessage('Engram: Memory re-embedded with the new model.');
+            } catch (err) {
+                logger.log(`Re-embedding migration failed: ${err}`);
+                vscode.window.showErrorMessage(`Engram: Re-embedding failed (${err}). It will retry on next start.`);
+            }
+        });
+    }));
+
+    // Changing the vault strategy moves the engine to the new vault and imports the old memories
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async (e) => {
+        if (!e.affectsConfiguration('engram.vault')) return;
+
+        await engineReady;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Engram: Moving your code memory...",
+            cancellable: false
+        }, async () => {
+            try {
+                const imported = await engine.switchVault();
+                vscode.window.showInformationMessage(`Engram: Now using the "${VaultLocation.getInstance().getActiveLabel()}" vault${imported > 0 ? ` (imported ${imported} records)` : ''}.`);
+            } catch (err) {
+                logger.log(`Vault switch failed: ${err}`);
+                vscode.window.showErrorMessage(`Engram: Switching vaults failed (${err}).`);
+            }
+        });
+    }));
+
+    // Re-chunk / re-embed the whole vault (resumable; progress is kept on cancel)
+    let reindexRunning = false;
+    const runReindex = async () => {
+        if (reindexRunning) {
+            vscode.window.showInformationMessage('Engram: Re-indexing is already running.');
+            return;
+        }
+        reindexRunning = true;
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: "Engram: Re-indexing your code memory",
+                cancellable: true
+            }, async (progress, token) => {
+                let reported = 0;
+                const result = await engine.reindexVault((processed, total) => {
+                    const percent = total > 0 ? (processed / total) * 100 : 100;
+                    progress.report({ message: `${processed}/${total}`, increment: percent - reported });
+                    reported = percent;
+                }, token);
+
+                if (result.cancelled) {
+                    vscode.window.showInformationMessage(`Engram: Re-indexing paused at ${result.processed}/${result.total}. It will resume on next start.`);
+                } else {
+                    vscode.window.showInformationMessage(`Engram: Re-indexed ${result.total} memories.`);
+                }
+            });
+        } catch (err) {
+            logger.log(`Vault re-index failed: ${err}`);
+            vscode.window.showErrorMessage(`Engram: Re-indexing failed (${err}). It will resume on next start.`);
+        } finally {
+            reindexRunning = false;
+        }
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('engram.reindexVault', async () => {
+        await engineReady;
+        await runReindex();
+    }));
+
+    // Automatic migration: older schema versions and interrupted jobs are picked up on start
+    engineReady.then(() => {
+        if (engine.needsReindex()) {
+            runReindex();
+        }
+    });
+
+    // Pattern consolidation: merge / split / re-label clusters (on demand, and periodically)
+    context.subscriptions.push(vscode.commands.registerCommand('engram.consolidatePatterns', async () => {
+        await engineReady;
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Engram: Consolidating pattern clusters...",
+            cancellable: false
+        }, async () => engine.consolidatePatterns());
+
+        if (result) {
+            vscode.window.showInformationMessage(`Engram: ${result.clustersBefore} → ${result.clustersAfter} patterns (${result.merged} merged, ${result.split} split, ${result.moved.length} memories moved).`);
+        } else {
+            vscode.window.showWarningMessage('Engram: Consolidation did not run. See the Engram output for details.');
+        }
+    }));
+
+    const consolidationTimer = setInterval(async () => {
+        await engineReady;
+        const intervalHours = vscode.workspace.getConfiguration('engram').get<number>('clustering.consolidationIntervalHours', 24);
+        await engine.consolidateIfDue(intervalHours);
+    }, 60 * 60 * 1000); // Checked hourly, runs when the configured interval has elapsed
+    context.subscriptions.push({ dispose: () => clearInterval(consolidationTimer) });
+
+    // Offline summaries (LLM was unreachable at capture time) are upgraded once it is back
+    engineReady.then(() => engine.upgradeFallbackSummaries());
+    const summaryUpgradeTimer = setInterval(async () => {
+        await engineReady;
+        await engine.upgradeFallbackSummaries();
+    }, 10 * 60 * 1000);
+    context.subscriptions.push({ dispose: () => clearInterval(summaryUpgradeTimer) });
+
+    // Reuse alerts raised by the save pipeline
+    context.subscriptions.push(
+        vscode.languages.registerCodeLensProvider({ scheme: 'file' }, new ReuseCodeLensProvider()),
+        vscode.workspace.registerTextDocumentContentProvider(MEMORY_SCHEME, new MemoryDocumentProvider()),
+        vscode.workspace.onDidCloseTextDocument(document => ReuseAlertService.getInstance().clear(document.uri)),
+        vscode.commands.registerCommand('engram.reuse.openEarlier', openEarlierVersionCommand),
+        vscode.commands.registerCommand('engram.reuse.diff', diffWithEarlierCommand),
+        vscode.commands.registerCommand('engram.reuse.suppress', suppressReuseAlertCommand)
+    );
+
+    // Pattern library: "Engram Patterns" tree + per-pattern webview
+    const patternLibrary = new PatternLibraryProvider(engine);
+    context.subscriptions.push(
+        patternLibrary,
+        vscode.window.registerTreeDataProvider('engramPatterns', patternLibrary),
+        vscode.commands.registerCommand('engram.patterns.refresh', () => patternLibrary.refresh()),
+        vscode.commands.registerCommand('engram.patterns.sortByUsage', () => patternLibrary.setSortOrder('usage')),
+        vscode.commands.registerCommand('engram.patterns.sortByRecency', () => patternLibrary.setSortOrder('recency')),
+        vscode.commands.registerCommand('engram.patterns.show', async (target) => {
+            await engineReady;
+            await showPatternCommand(target);
+        }),
+        vscode.commands.registerCommand('engram.patterns.openMember', openPatternMemberCommand),
+        vscode.commands.registerCommand('engram.patterns.rename', renamePatternCommand),
+        vscode.commands.registerCommand('engram.patterns.merge', mergePatternsCommand),
+        vscode.commands.registerCommand('engram.patterns.delete', deletePatternCommand),
+        vscode.commands.registerCommand('engram.patterns.pin', (target) => setPatternPinnedCommand(target, true)),
+        vscode.commands.registerCommand('engram.patterns.unpin', (target) => setPatternPinnedCommand(target, false)),
+        vscode.commands.registerCommand('engram.patterns.setExemplar', setPatternExemplarCommand),
+        vscode.commands.registerCommand('engram.patterns.resetExemplar', resetPatternExemplarCommand)
+    );
+
+    // "Engram Failure Timeline" tree (failures and the code they were linked to)
+    const failureTimeline = new FailureTimelineProvider(engine);
+    context.subscriptions.push(
+        failureTimeline,
+        vscode.window.registerTreeDataProvider('engramFailures', failureTimeline),
+        vscode.commands.registerCommand('engram.failures.show', showFailureTimelineCommand),
+        vscode.commands.registerCommand('engram.failures.refresh', () => failureTimeline.refresh()),
+        vscode.commands.registerCommand('engram.failures.open', openFailureCommand),
+        vscode.commands.registerCommand('engram.failures.openMemory', openFailureMemoryCommand),
+        vscode.commands.registerCommand('engram.failures.unlink', async (node) => {
+            await engineReady;
+            await unlinkFailureCommand(node);
+        })
+    );
+
+    // Task exits, failed terminal commands and test reports feed the failure timeline
+    engineReady.then(() => FailureCaptureService.getInstance().initialize(context));
+
+    context.subscriptions.push(vscode.commands.registerCommand('engram.haveIDoneThisBefore', async () => {
+        await engineReady;
+        await haveIDoneThisBeforeCommand();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('engram.searchMemories', async () => {
+        await engineReady;
+        await searchMemoriesCommand();
+    }));
 
     // Beta: Photographic Memory
     PhotographerService.getInstance().initialize(context);
@@ -118,11 +371,25 @@ export async function activate(context: vscode.ExtensionContext) {
             console.log('[Extension] Mistake repeated! Updating .cursorrules...');
             const fingerprints = detector.getAllFingerprints();
             await contextInjector.updateCursorRules(fingerprints);
+        }),
+        // Dismissed, snoozed or learned mistakes leave the rules; relapsed ones return
+        detector.onDidChangeStates(async () => {
+            await contextInjector.updateCursorRules(detector.getAllFingerprints());
         })
     );
 
     PasteDetector.getInstance().startListening(context);
 
+    // AI provenance: regions inserted by AI (inline completions, pasted AI output) followed across edits and sessions
+    EditTracker.getInstance().startListening(context);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('engram.provenance.inlineAccepted', trackInlineCompletionCommand),
+        vscode.commands.registerCommand('engram.provenance.markSelection', markSelectionAsAiCommand),
+        vscode.commands.registerCommand('engram.provenance.clearRegions', clearAiRegionsCommand),
+        vscode.commands.registerCommand('engram.provenance.toggleRegions', toggleAiRegionsCommand),
+        vscode.commands.registerCommand('engram.provenance.inferIntent', inferIntentCommand)
+    );
+
     // Initialize Snippet Store
     const snippetStore = SnippetStore.getInstance();
     if (context.storageUri) {
@@ -300,7 +567,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
         // Prepare Actions
         interface PickerItem extends vscode.QuickPickItem {
-            action: 'show' | 'dismiss' | 'replay';
+            action: 'show' | 'dismiss' | 'replay' | 'snooze';
             fix?: any;
         }
 
@@ -311,7 +578,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 items.push({
                     label: `$(wrench) View Fix: ${new Date(f.timestamp).toLocaleTimeString()}`,
                     description: f.description,
-                    detail: f.diff.substring(0, 60) + '...',
+                    detail: fixSummary(f).substring(0, 60) + '...',
                     action: 'show',
                     fix: f
                 });
@@ -334,7 +601,12 @@ export async function activate(context: vscode.ExtensionContext) {
             });
         }
 
-        // Add Dismiss Option at bottom
+        // Add Snooze and Dismiss Options at bottom
+        items.push({
+            label: '$(clock) Snooze this warning…',
+            description: 'Pause warnings for this mistake for a few days',
+            action: 'snooze'
+        });
         items.push({
             label: '$(bell-slash) Dismiss this warning',
             description: 'Stop showing warnings for this specific mistake',
@@ -349,6 +621,8 @@ export async function activate(context: vscode.ExtensionContext) {
             if (selected.action === 'dismiss') {
                 await detector.ignoreMistake(fp.id);
                 vscode.window.showInformationMessage('Warning dismissed for this mistake pattern.');
+            } else if (selected.action === 'snooze') {
+                await vscode.commands.executeCommand('engram.snoozeMistake', fp.id);
             } else if (selected.action === 'show' && selected.fix) {
                 const doc = await vscode.workspace.openTextDocument({
                     content: selected.fix.diff,
@@ -356,28 +630,27 @@ export async function activate(context: vscode.ExtensionContext) {
                 });
                 await vscode.window.showTextDocument(doc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
             } else if (selected.action === 'replay' && selected.fix) {
-                // Replay Logic (Virtual Diff)
-                const leftContent = selected.fix.before || "// 'Before' snapshot unavailable. \n// Showing raw diff instead:\n" + selected.fix.diff;
-                const rightContent = selected.fix.after || selected.fix.diff; // Fallback
-
-                const leftUri = vscode.Uri.parse(`untitled:Before-Fix-${selected.fix.id}`);
-                const rightUri = vscode.Uri.parse(`untitled:After-Fix-${selected.fix.id}`);
-
-                const edit = new vscode.WorkspaceEdit();
-                edit.insert(leftUri, new vscode.Position(0, 0), leftContent);
-                edit.insert(rightUri, new vscode.Position(0, 0), rightContent);
-                await vscode.workspace.applyEdit(edit);
-
-                await vscode.commands.executeCommand('vscode.diff',
-                    leftUri,
-                    rightUri,
-                    `Replay Fix: ${new Date(selected.fix.timestamp).toLocaleTimeString()}`
-                );
+                await replayFix(selected.fix);
             }
         }
     });
     context.subscriptions.push(viewMistakeDisposable);
 
+    // Command: Snooze a recurring mistake's warnings for N days (Quick Pick and hover links)
+    context.subscriptions.push(vscode.commands.registerCommand('engram.snoozeMistake', async (fingerprintId: string) => {
+        const fp = detector.getFingerprint(fingerprintId);
+        if (!fp) return;
+
+        const choice = await vscode.window.showQuickPick(
+            [{ label: '1 day', days: 1 }, { label: '3 days', days: 3 }, { label: '1 week', days: 7 }, { label: '30 days', days: 30 }],
+            { placeHolder: 'Snooze warnings for this mistake for…' }
+        );
+        if (!choice) return;
+
+        await detector.snoozeMistake(fp.id, choice.days);
+        vscode.window.showInformationMessage(`Engram: Warnings for this mistake snoozed for ${choice.label}.`);
+    }));
+
     // Command: Direct Replay (for Hover Links)
     let replayFixDisposable = vscode.commands.registerCommand('engram.replayFix', async (fingerprintId: string, fixId: string) => {
         const fp = detector.getFingerprint(fingerprintId);
@@ -392,25 +665,22 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        const leftContent = fix.before || `// 'Before' snapshot unavailable. \n// Showing raw diff instead:\n${fix.diff}`;
-        const rightContent = fix.after || fix.diff;
-
-        const leftUri = vscode.Uri.parse(`untitled:Before-Fix-${fix.id}`);
-        const rightUri = vscode.Uri.parse(`untitled:After-Fix-${fix.id}`);
-
-        const edit = new vscode.WorkspaceEdit();
-        edit.insert(leftUri, new vscode.Position(0, 0), leftContent);
-        edit.insert(rightUri, new vscode.Position(0, 0), rightContent);
-        await vscode.workspace.applyEdit(edit);
-
-        await vscode.commands.executeCommand('vscode.diff',
-            leftUri,
-            rightUri,
-            `Replay Fix: ${new Date(fix.timestamp).toLocaleTimeString()}`
-        );
+        await replayFix(fix);
     });
     context.subscriptions.push(replayFixDisposable);
 
+    // Quick Fix: adapt a recorded fix to a new occurrence of the mistake
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' },
+            new PastFixCodeActionProvider(),
+            { providedCodeActionKinds: PastFixCodeActionProvider.providedCodeActionKinds }
+        ),
+        vscode.commands.registerCommand('engram.applyPastFix', applyPastFixCommand)
+    );
+
+    context.subscriptions.push(vscode.commands.registerCommand('engram.mistakeInsights', () => MistakeInsightsPanel.show()));
+
     // Command: Hello World (Sanity Check)
     let disposable = vscode.commands.registerCommand('engram.helloWorld', () => {
         vscode.window.showInformationMessage('Engram is ready for new features!');
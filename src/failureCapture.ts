@@ -0,0 +1,254 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PatternEngine } from './engine';
+import { FailureLinkMethod } from './vectorStore';
+import { parseStackTrace, userFrames } from './stackTrace';
+import { parseTestReport, stripAnsi } from './testReports';
+
+/** Last known outcome of a failing test, so a later pass can be recorded as a recovery. */
+interface FailingTest {
+    memoryId: string;
+    linkMethod: FailureLinkMethod;
+    signature: string; // First line of the failure message
+}
+
+/** A failure of a task or terminal run; `signature` tells it apart from others at the same location. */
+interface RunFailure {
+    message: string;
+    filePath: string;
+    line?: number;
+    signature: string;
+    compileError?: boolean;
+}
+
+const FAILING_TESTS_KEY = 'engram.failures.failingTests';
+const FAILING_RUNS_KEY = 'engram.failures.failingRuns'; // Task or command -> failure keys of its last failing run
+const DEFAULT_REPORT_GLOBS = [
+    '**/{jest,vitest,mocha,test}-results.json',
+    '**/.report.json',
+    '**/{junit,test-results,pytest}*.xml'
+];
+
+/**
+ * Feeds the failures table without the user having to report anything: tasks that exit non-zero
+ * (plus the errors their problem matchers publish), failed terminal commands (opt-in), and test
+ * reports written to the workspace. A test that failed and later passes is recorded as a recovery.
+ */
+export class FailureCaptureService {
+    private static instance: FailureCaptureService;
+    private context: vscode.ExtensionContext | undefined;
+
+    private taskDiagnostics = new Map<vscode.TaskExecution, Set<string>>(); // Errors present when the task started
+    private terminalOutput = new Map<vscode.TerminalShellExecution, string>();
+    private reportSignatures = new Map<string, string>(); // Report path -> "mtime:size" last processed
+
+    private readonly MAX_TERMINAL_OUTPUT = 20000;
+    private readonly MAX_TASK_DIAGNOSTICS = 20;
+    private readonly MAX_REPORT_BYTES = 20 * 1024 * 1024;
+    private readonly DIAGNOSTICS_SETTLE_MS = 1000; // Problem matchers publish just after the process ends
+
+    private constructor() { }
+
+    public static getInstance(): FailureCaptureService {
+        if (!FailureCaptureService.instance) {
+            FailureCaptureService.instance = new FailureCaptureService();
+        }
+        return FailureCaptureService.instance;
+    }
+
+    public initialize(context: vscode.ExtensionContext) {
+        this.context = context;
+
+        context.subscriptions.push(
+            vscode.tasks.onDidStartTaskProcess(e => this.taskDiagnostics.set(e.execution, this.errorDiagnosticKeys())),
+            vscode.tasks.onDidEndTaskProcess(e => this.onTaskEnd(e).catch(err => console.error('[FailureCapture] Task capture failed:', err))),
+            vscode.window.onDidStartTerminalShellExecution(e => {
+                if (this.config().get<boolean>('failures.captureTerminals', false)) this.readTerminal(e.execution);
+            }),
+            vscode.window.onDidEndTerminalShellExecution(e => this.onTerminalEnd(e).catch(err => console.error('[FailureCapture] Terminal capture failed:', err)))
+        );
+
+        const globs = this.config().get<string[]>('failures.testReports', DEFAULT_REPORT_GLOBS);
+        for (const glob of globs) {
+            const watcher = vscode.workspace.createFileSystemWatcher(glob, false, false, true);
+            const onReport = (uri: vscode.Uri) => this.processReport(uri).catch(err => console.error('[FailureCapture] Report capture failed:', err));
+            watcher.onDidCreate(onReport);
+            watcher.onDidChange(onReport);
+            context.subscriptions.push(watcher);
+        }
+    }
+
+    private config() {
+        return vscode.workspace.getConfiguration('engram');
+    }
+
+    private diagnosticKey(uri: vscode.Uri, diagnostic: vscode.Diagnostic): string {
+        return `${uri.toString()}|${diagnostic.range.start.line}|${diagnostic.message}`;
+    }
+
+    private errorDiagnostics(): { uri: vscode.Uri, diagnostic: vscode.Diagnostic }[] {
+        return vscode.languages.getDiagnostics().flatMap(([uri, diagnostics]) => diagnostics
+            .filter(d => d.severity === vscode.DiagnosticSeverity.Error)
+            .map(diagnostic => ({ uri, diagnostic })));
+    }
+
+    private errorDiagnosticKeys(): Set<string> {
+        return new Set(this.errorDiagnostics().map(({ uri, diagnostic }) => this.diagnosticKey(uri, diagnostic)));
+    }
+
+    private async onTaskEnd(e: vscode.TaskProcessEndEvent) {
+        const before = this.taskDiagnostics.get(e.execution);
+        this.taskDiagnostics.delete(e.execution);
+        if (e.exitCode === undefined || !this.config().get<boolean>('failures.captureTasks', true)) return;
+
+        const task = e.execution.task;
+        const run = `task:${task.source}:${task.name}`;
+        if (e.exitCode === 0) return this.recordRunFailures(run, []);
+
+        // Errors that appeared while a task with problem matchers ran are the ones it reported
+        let newErrors: { uri: vscode.Uri, diagnostic: vscode.Diagnostic }[] = [];
+        if (task.problemMatchers.length > 0) {
+            await new Promise(resolve => setTimeout(resolve, this.DIAGNOSTICS_SETTLE_MS));
+            newErrors = this.errorDiagnostics()
+                .filter(({ uri, diagnostic }) => uri.scheme === 'file' && !(before && before.has(this.diagnosticKey(uri, diagnostic))))
+                .slice(0, this.MAX_TASK_DIAGNOSTICS);
+        }
+
+        if (newErrors.length === 0) {
+            const folder = task.scope && typeof task.scope === 'object' ? task.scope.uri.fsPath : '';
+            return this.recordRunFailures(run, [{ message: `Task "${task.name}" exited with code ${e.exitCode}`, filePath: folder, signature: `exit ${e.exitCode}` }]);
+        }
+
+        // Problem-matcher diagnostics are compile and lint errors
+        await this.recordRunFailures(run, newErrors.map(({ uri, diagnostic }) => {
+            const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+            const source = [diagnostic.source, code].filter(c => c !== undefined && c !== '').join(' ');
+            return {
+                message: `${diagnostic.message}${source ? ` (${source})` : ''}\nTask "${task.name}" exited with code ${e.exitCode}`,
+                filePath: uri.fsPath,
+                line: diagnostic.range.start.line + 1,
+                signature: `${source}:${diagnostic.message}`,
+                compileError: true
+            };
+        }));
+    }
+
+    private async readTerminal(execution: vscode.TerminalShellExecution) {
+        let output = '';
+        this.terminalOutput.set(execution, output);
+        try {
+            for await (const data of execution.read()) {
+                output = (output + data).slice(-this.MAX_TERMINAL_OUTPUT);
+                this.terminalOutput.set(execution, output);
+            }
+        } catch (e) {
+            // The stream ends with the terminal; whatever was read is kept
+        }
+    }
+
+    private async onTerminalEnd(e: vscode.TerminalShellExecutionEndEvent) {
+        const output = stripAnsi(this.terminalOutput.get(e.execution) || '');
+        this.terminalOutput.delete(e.execution);
+
+        // 130 = interrupted with Ctrl+C, not a failure of the code
+        if (e.exitCode === undefined || e.exitCode === 130 || !this.config().get<boolean>('failures.captureTerminals', false)) return;
+
+        const command = e.execution.commandLine.value.trim();
+        if (!command) return;
+        const run = `terminal:${command}`;
+        if (e.exitCode === 0) return this.recordRunFailures(run, []);
+
+        // The output tail carries the error and its stack trace, which links the failure to code
+        const tail = output.slice(-4000).trim();
+        const [frame] = userFrames(parseStackTrace(tail));
+        await this.recordRunFailures(run, [{
+            message: `$ ${command} (exit code ${e.exitCode})\n${tail}`,
+            filePath: '',
+            line: frame ? frame.line : undefined,
+            signature: `${frame ? frame.filePath : ''}:${this.errorLine(tail) || `exit ${e.exitCode}`}`
+        }]);
+    }
+
+    /** The line of command output that names the error, with counts and timings masked. */
+    private errorLine(output: string): string {
+        const lines = output.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+        const line = lines.find(l => /error|exception|panicked|fail/i.test(l)) || lines[lines.length - 1] || '';
+        return line.replace(/\d+(\.\d+)?/g, '#');
+    }
+
+    /**
+     * Records the failures of a task or terminal run, skipping those its last failing run already
+     * recorded (same file, line and signature) so a build that keeps failing the same way is
+     * recorded once. An empty list (the run succeeded) starts over.
+     */
+    private async recordRunFailures(run: string, failures: RunFailure[]) {
+        if (!this.context) return;
+        const failing = { ...this.context.workspaceState.get<Record<string, string[]>>(FAILING_RUNS_KEY, {}) };
+        const previous = new Set(failing[run] || []);
+        const key = (f: RunFailure) => `${f.filePath}|${f.line || 0}|${f.signature}`;
+        if (failures.length === 0 && previous.size === 0) return;
+
+        const engine = PatternEngine.getInstance();
+        for (const failure of failures) {
+            if (previous.has(key(failure))) continue;
+            await engine.recordFailure({ type: 'process', message: failure.message, filePath: failure.filePath, line: failure.line, compileError: failure.compileError });
+        }
+
+        if (failures.length > 0) failing[run] = failures.map(key);
+        else delete failing[run];
+        await this.context.workspaceState.update(FAILING_RUNS_KEY, failing);
+    }
+
+    /**
+     * Records each newly failing test in a report, and a recovery for each test that failed on
+     * some memory before and passes now. A test that keeps failing the same way is recorded once.
+     */
+    private async processReport(uri: vscode.Uri) {
+        if (!this.context || uri.fsPath.includes(`${path.sep}node_modules${path.sep}`)) return;
+
+        const stat = await vscode.workspace.fs.stat(uri);
+        const signature = `${stat.mtime}:${stat.size}`;
+        if (stat.size > this.MAX_REPORT_BYTES || this.reportSignatures.get(uri.fsPath) === signature) return;
+        this.reportSignatures.set(uri.fsPath, signature);
+
+        const results = parseTestReport(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+        if (!results) return;
+
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const root = folder ? folder.uri.fsPath : path.dirname(uri.fsPath);
+        const engine = PatternEngine.getInstance();
+        const failing = { ...this.context.workspaceState.get<Record<string, FailingTest>>(FAILING_TESTS_KEY, {}) };
+        let failed = 0;
+        let recovered = 0;
+
+        for (const test of results) {
+            const filePath = test.file ? path.resolve(root, test.file) : '';
+            const previous = failing[test.id];
+
+            if (test.status === 'failed') {
+                const message = `${test.name}\n${test.message || ''}`.trim();
+                const messageSignature = (test.message || '').split('\n')[0];
+                if (previous && previous.signature === messageSignature) continue;
+
+                const event = await engine.recordFailure({ type: 'test', message, filePath, line: test.line });
+                failing[test.id] = {
+                    memoryId: event.related_memory_id || (previous ? previous.memoryId : ''),
+                    linkMethod: event.related_memory_id ? (event.link_method || '') : (previous ? previous.linkMethod : ''),
+                    signature: messageSignature
+                };
+                failed++;
+            } else if (test.status === 'passed' && previous) {
+                if (previous.memoryId) {
+                    await engine.recordRecovery({ memoryId: previous.memoryId, message: `${test.name} passes again`, filePath, linkMethod: previous.linkMethod });
+                    recovered++;
+                }
+                delete failing[test.id];
+            }
+        }
+
+        await this.context.workspaceState.update(FAILING_TESTS_KEY, failing);
+        if (failed || recovered) {
+            console.log(`[FailureCapture] ${path.basename(uri.fsPath)}: ${failed} new test failure(s), ${recovered} recovery(ies)`);
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { MistakeDetector } from '../mistakeDetector';
+import { LlmService } from '../llm';
+import { FixApplication } from '../types';
+import { adaptFixByPatch, buildFixPrompt, extractCode } from '../fixAdapter';
+
+/**
+ * Applies a recorded fix to a new occurrence of the same mistake: its diff is patched onto the code
+ * around the diagnostic, or an LLM rewrites that code after it when the patch does not fit. The edit
+ * opens in the refactor preview; whether it resolved the error is logged on the fix.
+ */
+export async function applyPastFixCommand(uri: vscode.Uri, diagnostic: vscode.Diagnostic, fingerprintId: string, fixId: string) {
+    const detector = MistakeDetector.getInstance();
+    const fix = detector.getFingerprint(fingerprintId)?.fixes?.find(f => f.id === fixId);
+    if (!fix || fix.before === undefined || fix.after === undefined) {
+        vscode.window.showErrorMessage('Engram: Past fix not found.');
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const version = document.version;
+    const range = await detector.regionAround(document, diagnostic.range.start);
+    const current = document.getText(range);
+
+    let method: FixApplication['method'] = 'patch';
+    let adapted = adaptFixByPatch(fix.before, fix.after, current);
+
+    if (adapted === null) {
+        method = 'llm';
+        try {
+            const prompt = buildFixPrompt(fix, current, diagnostic.message, fix.language || document.languageId);
+            const response = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: "Engram: Adapting your past fix...",
+                cancellable: true
+            }, async (_progress, token) => LlmService.getInstance().generate('fixAdapter', prompt, { token }));
+            adapted = extractCode(response);
+        } catch (e: any) {
+            console.warn('[ApplyPastFix] LLM adaptation failed:', e);
+            vscode.window.showWarningMessage(`Engram: The past fix does not apply here and could not be adapted (${e.message || e}).`);
+            return;
+        }
+    }
+
+    if (!adapted.trim() || adapted === current) {
+        vscode.window.showInformationMessage('Engram: The past fix makes no change here.');
+        return;
+    }
+    if (document.version !== version) {
+        vscode.window.showWarningMessage('Engram: The file changed while the fix was being adapted. Try again.');
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, range, adapted, {
+        needsConfirmation: true,
+        label: 'Apply past fix',
+        description: method === 'patch' ? 'Patched from your earlier fix' : 'Adapted from your earlier fix by the LLM'
+    });
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    await detector.recordFixApplication(fingerprintId, fixId, uri, method, applied);
+}
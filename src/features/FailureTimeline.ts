@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PatternEngine } from '../engine';
+import { FailureNode } from '../ui/FailureTimelineProvider';
+import { MemoryDocumentProvider } from '../ui/MemoryDocumentProvider';
+
+async function showLines(filePath: string, startLine: number, endLine: number = startLine) {
+    const doc = await vscode.workspace.openTextDocument(filePath);
+    const start = Math.min(Math.max(0, startLine), Math.max(0, doc.lineCount - 1));
+    const end = Math.min(Math.max(endLine, start), Math.max(0, doc.lineCount - 1));
+    await vscode.window.showTextDocument(doc, { preview: true, selection: new vscode.Range(start, 0, end, 0) });
+}
+
+export async function showFailureTimelineCommand() {
+    await vscode.commands.executeCommand('engramFailures.focus');
+}
+
+/**
+ * Opens the file where the failure happened, at the stack trace line when there is one.
+ */
+export async function openFailureCommand(node?: FailureNode) {
+    if (!node) return;
+
+    const failure = node.failure;
+    if (!failure.file_path || !fs.existsSync(failure.file_path)) {
+        vscode.window.showInformationMessage(`Engram: ${failure.file_path ? `${path.basename(failure.file_path)} no longer exists.` : 'This failure has no file.'}`);
+        return;
+    }
+    await showLines(failure.file_path, Math.max(0, (failure.link_line || 1) - 1));
+}
+
+/**
+ * Opens the memory a failure is linked to: at its original location, or from the vault if the file is gone.
+ */
+export async function openFailureMemoryCommand(node?: FailureNode) {
+    if (!node) return;
+
+    const memory = node.kind === 'memory'
+        ? node.memory
+        : node.failure.related_memory_id ? await PatternEngine.getInstance().getPatternDetails(node.failure.related_memory_id) : null;
+    if (!memory) return;
+
+    if (memory.filePath && fs.existsSync(memory.filePath)) {
+        await showLines(memory.filePath, memory.startLine || 0, memory.endLine || 0);
+    } else {
+        const doc = await vscode.workspace.openTextDocument(MemoryDocumentProvider.memoryUri(memory.id, path.basename(memory.filePath || 'memory')));
+        await vscode.window.showTextDocument(doc, { preview: true });
+    }
+}
+
+export async function unlinkFailureCommand(node?: FailureNode) {
+    if (!node || !node.failure.related_memory_id) return;
+
+    const answer = await vscode.window.showWarningMessage(
+        'Unlink this failure from the code it was attributed to? The code\'s failure count is rolled back.',
+        { modal: true },
+        'Unlink'
+    );
+    if (answer !== 'Unlink') return;
+
+    await PatternEngine.getInstance().unlinkFailure(node.failure.id);
+}
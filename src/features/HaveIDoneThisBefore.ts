@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PatternEngine } from '../engine';
+import { parseMemoryQuery } from '../memoryQuery';
+
+// Embedding model truncates long input anyway; keep the query focused.
+const MAX_QUERY_LENGTH = 2000;
+
+interface ResultItem extends vscode.QuickPickItem {
+    memory: any;
+}
+
+interface ActionItem extends vscode.QuickPickItem {
+    action: 'insert' | 'side' | 'exemplar';
+}
+
+function formatTimestamp(timestamp?: string): string {
+    if (!timestamp) return 'Unknown date';
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
+
+/**
+ * Core Flow: "Have I done this before?"
+ * Queries stored memories with the selection (or the whole file) and shows ranked past solutions.
+ */
+export async function haveIDoneThisBeforeCommand() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('Engram: Open a file or select some code first.');
+        return;
+    }
+
+    const selectionText = editor.document.getText(editor.selection);
+    const queryText = (selectionText.trim() ? selectionText : editor.document.getText()).substring(0, MAX_QUERY_LENGTH);
+
+    if (!queryText.trim()) {
+        vscode.window.showWarningMessage('Engram: Nothing to search for in this file.');
+        return;
+    }
+
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Searching your code memory...",
+        cancellable: false
+    }, async () => PatternEngine.getInstance().query(queryText));
+
+    if (results.length === 0) {
+        vscode.window.showInformationMessage("Engram: You haven't done this before (no similar memories found).");
+        return;
+    }
+
+    await showMemoryResults(results, editor);
+}
+
+/**
+ * Free-text memory search with inline filters, e.g. `useAuthRedirect lang:ts source:ai since:30d -unstable`.
+ */
+export async function searchMemoriesCommand() {
+    const input = await vscode.window.showInputBox({
+        prompt: 'Engram: Search your code memory',
+        placeHolder: 'e.g. auth redirect lang:ts source:ai since:30d workspace:web -unstable scope:all'
+    });
+    if (!input || !input.trim()) return;
+
+    const memoryQuery = parseMemoryQuery(input);
+
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Searching your code memory...",
+        cancellable: false
+    }, async () => PatternEngine.getInstance().query(memoryQuery));
+
+    if (results.length === 0) {
+        vscode.window.showInformationMessage('Engram: No memories match this search.');
+        return;
+    }
+
+    await showMemoryResults(results, vscode.window.activeTextEditor);
+}
+
+async function showMemoryResults(results: any[], editor: vscode.TextEditor | undefined) {
+    // Results arrive ranked by the engine (best match first); a pattern's other variants follow its best version
+    const items: ResultItem[] = [];
+    results.forEach((r, index) => {
+        const preview = (r.content || '').replace(/\s+/g, ' ').substring(0, 60);
+        items.push({
+            label: `${r.isExemplar ? '$(star-full)' : '$(history)'} #${index + 1} ${r.summary || preview}`,
+            description: `${path.basename(r.filePath || '')} · ${formatTimestamp(r.timestamp)}${r.origin ? ` · $(database) ${r.origin}` : ''}`,
+            detail: `[${r.matchedBy || 'vector'}] ${r.isExemplar ? `Best version of "${r.patternLabel}" · ` : ''}${r.matchContext || preview}`,
+            memory: r
+        });
+
+        (r.variants || []).forEach((v: any) => {
+            const variantPreview = (v.content || '').replace(/\s+/g, ' ').substring(0, 60);
+            items.push({
+                label: `$(blank) $(git-compare) ${v.summary || variantPreview}`,
+                description: `other variant · ${path.basename(v.filePath || '')} · ${formatTimestamp(v.timestamp)}`,
+                detail: v.matchContext || variantPreview,
+                memory: { ...v, patternId: r.patternId, patternLabel: r.patternLabel, isExemplar: false }
+            });
+        });
+    });
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Found ${results.length} similar past solution(s)`,
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!selected) return;
+
+    const actions: ActionItem[] = [
+        { label: '$(split-horizontal) Open Side by Side', description: 'Compare with the current file', action: 'side' }
+    ];
+    if (editor) {
+        actions.unshift({ label: '$(insert) Insert at Cursor', description: 'Paste this past solution into the current file', action: 'insert' });
+    }
+    if (selected.memory.patternId && !selected.memory.isExemplar) {
+        actions.push({ label: '$(star-full) Use as Best Version', description: `Show this first for "${selected.memory.patternLabel}"`, action: 'exemplar' });
+    }
+
+    const action = await vscode.window.showQuickPick(actions, {
+        placeHolder: `From ${selected.memory.filePath}`
+    });
+    if (!action) return;
+
+    if (action.action === 'exemplar') {
+        await PatternEngine.getInstance().setPatternExemplar(selected.memory.patternId, selected.memory.id);
+        vscode.window.showInformationMessage(`Engram: This is now the best version of "${selected.memory.patternLabel}".`);
+        return;
+    }
+
+    const content: string = selected.memory.content || '';
+
+    if (action.action === 'insert' && editor) {
+        await editor.edit(editBuilder => {
+            editBuilder.insert(editor.selection.active, content);
+        });
+    } else {
+        const doc = await vscode.workspace.openTextDocument({
+            content: content,
+            language: editor ? editor.document.languageId : undefined
+        });
+        await vscode.window.showTextDocument(doc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+    }
+
+    // Reusing a past solution counts towards its pattern (and its best-version score)
+    await PatternEngine.getInstance().recordPatternAccess(selected.memory.id);
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { PatternEngine } from '../engine';
+
+/**
+ * Guesses the prompt that produced the selected code. The guess streams into the progress
+ * notification as it is generated, and cancelling the notification aborts the request.
+ */
+export async function inferIntentCommand() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('Engram: Select the code to infer the intent of.');
+        return;
+    }
+
+    const code = editor.document.getText(editor.selection);
+    const intent = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Engram: Inferring intent',
+        cancellable: true
+    }, async (progress, token) => {
+        let partial = '';
+        return PatternEngine.getInstance().inferIntent(code, token, chunk => {
+            partial += chunk;
+            progress.report({ message: partial.trim() });
+        });
+    });
+
+    if (!intent) {
+        vscode.window.setStatusBarMessage('Engram: No intent inferred.', 3000);
+        return;
+    }
+    const action = await vscode.window.showInformationMessage(`Engram: "${intent}"`, 'Copy');
+    if (action === 'Copy') {
+        await vscode.env.clipboard.writeText(intent);
+    }
+}
@@ -1,6 +1,6 @@
 
 import * as vscode from 'vscode';
-import { OllamaService } from '../llm';
+import { LlmService } from '../llm';
 
 export class ShadowIntuition implements vscode.InlineCompletionItemProvider {
     private static instance: ShadowIntuition;
@@ -157,42 +157,30 @@ export class ShadowIntuition implements vscode.InlineCompletionItemProvider {
 
         try {
             // Call LLM
-            const response = await fetch('http://localhost:11434/api/generate', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: 'qwen2.5:0.5b',
-                    prompt: prompt,
-                    stream: false,
-                    options: {
-                        num_predict: 50,
-                        temperature: 0.1,
-                        stop: ["SUFFIX:", "<|endoftext|>"]
-                    }
-                })
-            });
+            let prediction = (await LlmService.getInstance().generate('intuition', prompt, {
+                stop: ["SUFFIX:", "<|endoftext|>"],
+                token // Typing on aborts the request instead of letting it finish
+            })).trim();
 
             if (token.isCancellationRequested) return null;
 
-            if (response.ok) {
-                const data = await response.json() as { response: string };
-                let prediction = data.response.trim();
+            // Cleanup
+            prediction = prediction.replace(/```typescript/g, '').replace(/```/g, '').trim();
 
-                // Cleanup
-                prediction = prediction.replace(/```typescript/g, '').replace(/```/g, '').trim();
+            if (prediction) {
+                // Telepathy Broadcast
+                this.broadcastPrediction(document, prediction);
 
-                if (prediction) {
-                    // Telepathy Broadcast
-                    this.broadcastPrediction(document, prediction);
-
-                    // Return native item
-                    return [new vscode.InlineCompletionItem(prediction, new vscode.Range(position, position))];
-                }
+                // Return native item (accepting it marks the inserted text as AI-authored)
+                const item = new vscode.InlineCompletionItem(prediction, new vscode.Range(position, position));
+                item.command = { command: 'engram.provenance.inlineAccepted', title: 'Track AI Completion', arguments: [document.uri, position, prediction] };
+                return [item];
             }
         } catch (e) {
+            if (token.isCancellationRequested) return null;
             console.error("Intuition failed:", e);
             this.statusBarItem.text = '$(warning) Intuition Error';
-            this.statusBarItem.tooltip = 'Check if Ollama is running.';
+            this.statusBarItem.tooltip = 'Check if the LLM server (engram.llm.endpoint) is running.';
         }
 
         this.clearBroadcast();
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { PatternEngine } from '../engine';
+import { PatternNode } from '../ui/PatternLibraryProvider';
+import { PatternLibraryPanel } from '../ui/PatternLibraryPanel';
+
+interface PatternItem extends vscode.QuickPickItem {
+    clusterId: string;
+}
+
+/**
+ * Commands run from the tree (with a node) or from the webview / palette (with a cluster id).
+ */
+function resolveClusterId(target: PatternNode | string | undefined): string | undefined {
+    if (!target) return undefined;
+    if (typeof target === 'string') return target;
+    return target.kind === 'pattern' ? target.cluster.id : target.clusterId;
+}
+
+async function pickPattern(placeHolder: string): Promise<string | undefined> {
+    const items: PatternItem[] = PatternEngine.getInstance().getPatterns().map(p => ({
+        label: `${p.pinned ? '$(pinned) ' : ''}${p.label || 'Unnamed pattern'}`,
+        description: `${p.memberIds.length} member(s) · used ${p.usageCount}×`,
+        clusterId: p.id
+    }));
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('Engram: No patterns yet. Patterns form as you save similar code.');
+        return undefined;
+    }
+    const selected = await vscode.window.showQuickPick(items, { placeHolder });
+    return selected ? selected.clusterId : undefined;
+}
+
+/**
+ * Opens a pattern member beside the current editor and counts it as a use of its pattern.
+ */
+export async function openPatternMemberCommand(memory: any) {
+    if (!memory) return;
+
+    const doc = await vscode.workspace.openTextDocument({
+        content: memory.content || '',
+        language: memory.language || undefined
+    });
+    await vscode.window.showTextDocument(doc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+    await PatternEngine.getInstance().recordPatternAccess(memory.id);
+}
+
+export async function renamePatternCommand(target?: PatternNode | string) {
+    const engine = PatternEngine.getInstance();
+    const clusterId = resolveClusterId(target) || await pickPattern('Pattern to rename');
+    const cluster = engine.getPatterns().find(p => p.id === clusterId);
+    if (!cluster) return;
+
+    const label = await vscode.window.showInputBox({
+        prompt: 'Engram: Rename pattern',
+        value: cluster.label,
+        validateInput: value => value.trim() ? undefined : 'The name cannot be empty'
+    });
+    if (label === undefined) return;
+
+    await engine.renamePattern(cluster.id, label);
+}
+
+export async function setPatternPinnedCommand(target: PatternNode | string | undefined, pinned: boolean) {
+    const clusterId = resolveClusterId(target) || await pickPattern(pinned ? 'Pattern to pin' : 'Pattern to unpin');
+    if (!clusterId) return;
+
+    await PatternEngine.getInstance().setPatternPinned(clusterId, pinned);
+}
+
+export async function mergePatternsCommand(target?: PatternNode | string) {
+    const engine = PatternEngine.getInstance();
+    const clusterId = resolveClusterId(target) || await pickPattern('Pattern to merge into');
+    const cluster = engine.getPatterns().find(p => p.id === clusterId);
+    if (!cluster) return;
+
+    const items: PatternItem[] = engine.getPatterns()
+        .filter(p => p.id !== cluster.id)
+        .map(p => ({
+            label: p.label || 'Unnamed pattern',
+            description: `${p.memberIds.length} member(s) · used ${p.usageCount}×`,
+            clusterId: p.id
+        }));
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('Engram: There are no other patterns to merge.');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Merge into "${cluster.label}"`,
+        canPickMany: true
+    });
+    if (!selected || selected.length === 0) return;
+
+    const merged = await engine.mergePatterns(cluster.id, selected.map(s => s.clusterId));
+    if (merged) {
+        vscode.window.showInformationMessage(`Engram: Merged ${selected.length} pattern(s) into "${merged.label}" (${merged.memberIds.length} members).`);
+    }
+}
+
+export async function deletePatternCommand(target?: PatternNode | string) {
+    const engine = PatternEngine.getInstance();
+    const clusterId = resolveClusterId(target) || await pickPattern('Pattern to delete');
+    const cluster = engine.getPatterns().find(p => p.id === clusterId);
+    if (!cluster) return;
+
+    const answer = await vscode.window.showWarningMessage(
+        `Delete the pattern "${cluster.label}"? Its ${cluster.memberIds.length} memories are kept.`,
+        { modal: true },
+        'Delete'
+    );
+    if (answer !== 'Delete') return;
+
+    await engine.deletePatternCluster(cluster.id);
+}
+
+/** Makes a tree member the best version of its pattern. */
+export async function setPatternExemplarCommand(target?: PatternNode) {
+    if (!target || target.kind !== 'member') return;
+    await PatternEngine.getInstance().setPatternExemplar(target.clusterId, target.memory.id);
+}
+
+export async function resetPatternExemplarCommand(target?: PatternNode | string) {
+    const clusterId = resolveClusterId(target) || await pickPattern('Pattern to pick the best version for automatically');
+    if (!clusterId) return;
+
+    await PatternEngine.getInstance().setPatternExemplar(clusterId, null);
+}
+
+export async function showPatternCommand(target?: PatternNode | string) {
+    const clusterId = resolveClusterId(target) || await pickPattern('Pattern to show');
+    if (!clusterId) return;
+
+    await PatternLibraryPanel.show(clusterId);
+}
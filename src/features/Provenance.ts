@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import { EditTracker } from '../tracker';
+
+/**
+ * Runs when an Engram inline completion is accepted: the inserted text is tracked as AI-authored.
+ */
+export async function trackInlineCompletionCommand(uri: vscode.Uri, position: vscode.Position, text: string) {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    if (!document || !text) return;
+
+    const start = document.offsetAt(position);
+    if (document.getText().substring(start, start + text.length) !== text) return; // Edited before this ran
+
+    const range = new vscode.Range(position, document.positionAt(start + text.length));
+    EditTracker.getInstance().registerRegion(uri, range, `inline-${uuidv4()}`, '', text, 'inline', 'ai');
+}
+
+export async function markSelectionAsAiCommand() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('Engram: Select the AI-written code to mark.');
+        return;
+    }
+
+    const text = editor.document.getText(editor.selection);
+    EditTracker.getInstance().registerRegion(editor.document.uri, editor.selection, `manual-${uuidv4()}`, '', text, 'manual', 'ai');
+    vscode.window.setStatusBarMessage('Engram: Marked as AI-authored.', 3000);
+}
+
+/** Forgets the AI regions in the selection, or in the whole file when nothing is selected. */
+export async function clearAiRegionsCommand() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return;
+
+    EditTracker.getInstance().clearRegions(editor.document.uri, editor.selection.isEmpty ? undefined : editor.selection);
+    vscode.window.setStatusBarMessage('Engram: AI marks cleared.', 3000);
+}
+
+export async function toggleAiRegionsCommand() {
+    const config = vscode.workspace.getConfiguration('engram');
+    const show = !config.get<boolean>('provenance.showRegions', false);
+    await config.update('provenance.showRegions', show, vscode.ConfigurationTarget.Global);
+    vscode.window.setStatusBarMessage(`Engram: AI-authored regions ${show ? 'shown' : 'hidden'}.`, 3000);
+}
@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MistakeFix } from '../types';
+
+/**
+ * Side-by-side diff of a captured fix: the code when the error appeared and after it was resolved.
+ * Fixes captured before snapshots existed only have a description of the edit.
+ */
+export async function replayFix(fix: MistakeFix) {
+    const language = fix.language || 'plaintext';
+    const leftContent = fix.before !== undefined ? fix.before : `// 'Before' snapshot unavailable. \n// Showing raw diff instead:\n${fix.diff}`;
+    const rightContent = fix.after !== undefined ? fix.after : fix.diff;
+
+    const left = await vscode.workspace.openTextDocument({ content: leftContent, language });
+    const right = await vscode.workspace.openTextDocument({ content: rightContent, language });
+
+    const where = fix.filePath ? `${path.basename(fix.filePath)}${fix.range ? `:${fix.range.startLine + 1}` : ''} · ` : '';
+    await vscode.commands.executeCommand('vscode.diff',
+        left.uri,
+        right.uri,
+        `Replay Fix: ${where}${new Date(fix.timestamp).toLocaleTimeString()}`
+    );
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReuseAlert, ReuseAlertService } from '../reuseAlerts';
+import { MemoryDocumentProvider } from '../ui/MemoryDocumentProvider';
+import { PatternEngine } from '../engine';
+
+const OPEN_ACTION = 'Open Earlier Version';
+const DIFF_ACTION = 'Diff';
+const SUPPRESS_ACTION = 'Ignore This Pattern';
+
+function resolveAlert(target: ReuseAlert | string | undefined): ReuseAlert | undefined {
+    if (!target) return undefined;
+    return typeof target === 'string' ? ReuseAlertService.getInstance().getAlert(target) : target;
+}
+
+/**
+ * Non-blocking notification for the alerts raised by one save (the most severe one, with a count).
+ */
+export function showReuseNotification(alerts: ReuseAlert[]) {
+    if (alerts.length === 0) return;
+
+    const [first] = alerts;
+    const more = alerts.length > 1 ? ` (+${alerts.length - 1} more, see CodeLens)` : '';
+    const show = first.kind === 'unstable' ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+
+    show(`Engram: ${first.message}${more}`, OPEN_ACTION, DIFF_ACTION, SUPPRESS_ACTION).then(async choice => {
+        if (choice === OPEN_ACTION) await openEarlierVersionCommand(first);
+        else if (choice === DIFF_ACTION) await diffWithEarlierCommand(first);
+        else if (choice === SUPPRESS_ACTION) await suppressReuseAlertCommand(first);
+    });
+}
+
+/**
+ * Opens the earlier version at its original location, or from the vault if the file is gone.
+ */
+export async function openEarlierVersionCommand(target?: ReuseAlert | string) {
+    const alert = resolveAlert(target);
+    if (!alert) return;
+
+    const { earlier } = alert;
+    if (earlier.filePath && fs.existsSync(earlier.filePath)) {
+        const doc = await vscode.workspace.openTextDocument(earlier.filePath);
+        const start = Math.min(earlier.startLine, Math.max(0, doc.lineCount - 1));
+        const end = Math.min(Math.max(earlier.endLine, start), Math.max(0, doc.lineCount - 1));
+        await vscode.window.showTextDocument(doc, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preview: true,
+            selection: new vscode.Range(start, 0, end, 0)
+        });
+    } else {
+        const doc = await vscode.workspace.openTextDocument(MemoryDocumentProvider.memoryUri(earlier.id, path.basename(earlier.filePath || 'memory')));
+        await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+    }
+
+    await PatternEngine.getInstance().recordPatternAccess(earlier.id);
+}
+
+export async function diffWithEarlierCommand(target?: ReuseAlert | string) {
+    const alert = resolveAlert(target);
+    if (!alert) return;
+
+    const { earlier } = alert;
+    const earlierName = path.basename(earlier.filePath || 'memory');
+    const currentName = path.basename(vscode.Uri.parse(alert.documentUri).fsPath);
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        MemoryDocumentProvider.memoryUri(earlier.id, earlierName),
+        MemoryDocumentProvider.alertUri(alert.id, currentName),
+        `${earlierName} (earlier) ↔ ${currentName} (now)`
+    );
+    await PatternEngine.getInstance().recordPatternAccess(earlier.id);
+}
+
+export async function suppressReuseAlertCommand(target?: ReuseAlert | string) {
+    const alert = resolveAlert(target);
+    if (!alert) return;
+
+    await ReuseAlertService.getInstance().suppress(alert);
+    vscode.window.showInformationMessage('Engram: You will no longer be alerted about this pattern.');
+}
@@ -0,0 +1,117 @@
+/**
+ * Adapting a recorded fix to a new occurrence of the same mistake: the fix's before/after diff is
+ * fuzzily patched onto the code around the new error; when it does not fit, an LLM rewrites the
+ * code following the example.
+ */
+import { applyPatch, diffLines, structuredPatch } from 'diff';
+import { MistakeFix } from './types';
+
+const FUZZ_FACTOR = 2; // Context lines allowed to differ around each hunk
+
+function ensureNewline(text: string): string {
+    return text.endsWith('\n') ? text : text + '\n';
+}
+
+function indentOf(line: string): string {
+    return line.match(/^\s*/)![0];
+}
+
+function splitLines(text: string): string[] {
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+/**
+ * Re-indents the lines a patch added by how much deeper (or shallower) the surrounding code sits in
+ * `current` than the same lines did in `before`.
+ */
+function reindentAdded(current: string, patched: string, before: string): string {
+    const beforeIndents = new Map<string, number>();
+    for (const line of splitLines(before)) {
+        if (line.trim() && !beforeIndents.has(line.trim())) beforeIndents.set(line.trim(), indentOf(line).length);
+    }
+
+    const parts = diffLines(current, patched);
+    const shiftAt = (line: string) => beforeIndents.has(line.trim()) ? indentOf(line).length - beforeIndents.get(line.trim())! : undefined;
+    // Until an unchanged line precedes the added ones, use the first unchanged line that also was in `before`
+    let shift = 0;
+    let unit = ' ';
+    const firstKept = parts.filter(p => !p.added && !p.removed).flatMap(p => splitLines(p.value)).find(l => l.trim() && shiftAt(l) !== undefined);
+    if (firstKept) {
+        shift = shiftAt(firstKept)!;
+        unit = indentOf(firstKept)[0] || unit;
+    }
+
+    const out: string[] = [];
+    for (const part of parts) {
+        if (part.removed) continue;
+        for (const line of splitLines(part.value)) {
+            if (!part.added) {
+                const lineShift = line.trim() ? shiftAt(line) : undefined;
+                if (lineShift !== undefined) {
+                    shift = lineShift;
+                    unit = indentOf(line)[0] || unit;
+                }
+                out.push(line);
+            } else if (!line.trim() || shift === 0) {
+                out.push(line);
+            } else if (shift > 0) {
+                out.push(unit.repeat(shift) + line);
+            } else {
+                out.push(line.substring(Math.min(-shift, indentOf(line).length)));
+            }
+        }
+    }
+    return out.join('\n') + '\n';
+}
+
+/**
+ * Applies the change from `before` to `after` onto `current`, ignoring indentation and trailing
+ * whitespace (added lines take the indentation of the code around them). Null if a hunk cannot be
+ * placed or the result leaves `current` unchanged.
+ */
+export function adaptFixByPatch(before: string, after: string, current: string): string | null {
+    const patch = structuredPatch('fix', 'fix', ensureNewline(before), ensureNewline(after), '', '', { context: 3 });
+    if (patch.hunks.length === 0) return null;
+
+    const patched = applyPatch(ensureNewline(current), patch, {
+        fuzzFactor: FUZZ_FACTOR,
+        compareLine: (_lineNumber, line, _operation, patchContent) => line.trim() === patchContent.trim()
+    });
+    if (patched === false) return null;
+
+    const reindented = reindentAdded(ensureNewline(current), patched, before);
+    const result = current.endsWith('\n') ? reindented : reindented.replace(/\n$/, '');
+    return result === current ? null : result;
+}
+
+export function buildFixPrompt(fix: MistakeFix, current: string, errorMessage: string, language: string): string {
+    return `You are fixing a recurring mistake in ${language} code.
+The developer hit the same error before and fixed it. The code with the error:
+BEFORE:
+${fix.before}
+
+The same code after their fix:
+AFTER:
+${fix.after}
+
+The error is back ("${errorMessage}") in this code:
+CURRENT:
+${current}
+
+Apply the same kind of fix to CURRENT. Change nothing else.
+Output ONLY the complete corrected CURRENT code. No explanations, no markdown.`;
+}
+
+/** The code in an LLM response: fenced block contents if there is one, otherwise the whole text. */
+export function extractCode(response: string): string {
+    const fenced = response.match(/```[\w+-]*\n([\s\S]*?)```/);
+    return (fenced ? fenced[1] : response).replace(/\s+$/, '');
+}
+
+/** How often a fix resolved the error when applied (rejected previews and pending ones excluded). */
+export function fixSuccessRate(fix: MistakeFix): { applied: number, resolved: number } {
+    const settled = (fix.applications || []).filter(a => a.outcome === 'resolved' || a.outcome === 'unresolved');
+    return { applied: settled.length, resolved: settled.filter(a => a.outcome === 'resolved').length };
+}
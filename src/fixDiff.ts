@@ -0,0 +1,51 @@
+/**
+ * Unified diffs for captured fixes. The snapshots are regions of a file, so hunk headers are
+ * shifted to the region's position and the patch reads like one taken on the whole file.
+ */
+import { structuredPatch } from 'diff';
+import { MistakeFix } from './types';
+
+const CONTEXT_LINES = 3;
+
+/**
+ * `beforeLine` / `afterLine`: 0-based line where each snapshot starts in the file.
+ * Returns '' when the snapshots are identical.
+ */
+export function unifiedDiff(fileName: string, before: string, after: string, beforeLine: number = 0, afterLine: number = 0): string {
+    if (before === after) return '';
+
+    const patch = structuredPatch(fileName, fileName, ensureNewline(before), ensureNewline(after), '', '', { context: CONTEXT_LINES });
+    const lines = [`--- a/${fileName}`, `+++ b/${fileName}`];
+    for (const hunk of patch.hunks) {
+        lines.push(`@@ -${hunk.oldStart + beforeLine},${hunk.oldLines} +${hunk.newStart + afterLine},${hunk.newLines} @@`);
+        lines.push(...hunk.lines);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function ensureNewline(text: string): string {
+    return text.endsWith('\n') ? text : text + '\n';
+}
+
+/** The `+` / `-` / ` ` lines of a diff's hunks (headers skipped). */
+function hunkLines(diff: string): string[] {
+    const lines = diff.split('\n');
+    const firstHunk = lines.findIndex(l => l.startsWith('@@'));
+    return firstHunk === -1 ? [] : lines.slice(firstHunk).filter(l => !l.startsWith('@@'));
+}
+
+/** Lines added and removed by a unified diff. */
+export function diffStats(diff: string): { added: number, removed: number } {
+    const lines = hunkLines(diff);
+    return {
+        added: lines.filter(l => l.startsWith('+')).length,
+        removed: lines.filter(l => l.startsWith('-')).length
+    };
+}
+
+/** One line saying what a fix wrote: its first added line (older fixes store a description instead of a diff). */
+export function fixSummary(fix: MistakeFix): string {
+    if (fix.before === undefined) return fix.diff;
+    const line = hunkLines(fix.diff).find(l => l.startsWith('+') && l.substring(1).trim());
+    return line ? line.substring(1).trim() : 'Removed code';
+}
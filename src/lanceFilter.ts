@@ -0,0 +1,81 @@
+/**
+ * Typed builder for LanceDB `where` / `delete` predicates (DataFusion SQL dialect).
+ * Columns are backtick-quoted (unquoted identifiers are lower-cased by the planner, which breaks
+ * camelCase columns) and literals are escaped, so ids, file paths and user input can never change
+ * the shape of a filter.
+ *
+ *   F.and(F.eq('filePath', filePath), F.gt('timestamp', cutoff)).toString()
+ *   // `filePath` = 'C:\src\it''s.ts' AND `timestamp` > '2026-01-01T00:00:00.000Z'
+ */
+
+export type FilterValue = string | number | boolean;
+
+export class LanceFilter {
+    constructor(
+        private readonly sql: string,
+        private readonly compound: boolean = false // Needs parentheses when nested
+    ) { }
+
+    toString(): string {
+        return this.sql;
+    }
+
+    /** SQL for use as an operand of AND / OR / NOT. */
+    toOperand(): string {
+        return this.compound ? `(${this.sql})` : this.sql;
+    }
+}
+
+export function quoteIdentifier(name: string): string {
+    return `\`${name.replace(/`/g, '``')}\``;
+}
+
+/**
+ * Renders a value as a SQL literal. Strings only need their single quotes doubled:
+ * backslashes are not escape characters in this dialect (Windows paths stay as they are).
+ * Arrays become list literals (used for `update` values such as vectors).
+ */
+export function toSqlLiteral(value: FilterValue | null | Iterable<FilterValue>): string {
+    if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) throw new Error(`Cannot use ${value} in a filter`);
+        return value.toString();
+    }
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (value === null) return 'NULL';
+    if (value && typeof value === 'object' && Symbol.iterator in value) {
+        return `[${Array.from(value).map(v => toSqlLiteral(v)).join(', ')}]`;
+    }
+    throw new Error(`Unsupported filter value: ${typeof value}`);
+}
+
+function compare(column: string, operator: string, value: FilterValue): LanceFilter {
+    return new LanceFilter(`${quoteIdentifier(column)} ${operator} ${toSqlLiteral(value)}`);
+}
+
+function combine(operator: 'AND' | 'OR', filters: LanceFilter[]): LanceFilter {
+    if (filters.length === 0) throw new Error(`${operator} needs at least one filter`);
+    if (filters.length === 1) return filters[0];
+    return new LanceFilter(filters.map(f => f.toOperand()).join(` ${operator} `), true);
+}
+
+export const F = {
+    eq: (column: string, value: FilterValue) => compare(column, '=', value),
+    neq: (column: string, value: FilterValue) => compare(column, '!=', value),
+    gt: (column: string, value: FilterValue) => compare(column, '>', value),
+    gte: (column: string, value: FilterValue) => compare(column, '>=', value),
+    lt: (column: string, value: FilterValue) => compare(column, '<', value),
+    lte: (column: string, value: FilterValue) => compare(column, '<=', value),
+
+    in: (column: string, values: FilterValue[]): LanceFilter => {
+        // `IN ()` is not valid SQL: an empty set matches nothing
+        if (values.length === 0) return new LanceFilter('FALSE');
+        return new LanceFilter(`${quoteIdentifier(column)} IN (${values.map(v => toSqlLiteral(v)).join(', ')})`);
+    },
+
+    isNotNull: (column: string) => new LanceFilter(`${quoteIdentifier(column)} IS NOT NULL`),
+
+    and: (...filters: LanceFilter[]) => combine('AND', filters),
+    or: (...filters: LanceFilter[]) => combine('OR', filters),
+    not: (filter: LanceFilter) => new LanceFilter(`NOT (${filter.toString()})`)
+};
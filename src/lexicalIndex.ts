@@ -0,0 +1,165 @@
+/**
+ * In-memory BM25 index over the text fields of stored code memories.
+ * Complements vector search: exact identifiers (e.g. `useAuthRedirect`) or error codes
+ * are often too "rare" for embeddings to rank well, but BM25 scores them highly.
+ */
+
+export const INDEXED_FIELDS = ['content', 'summary', 'patternDescription', 'prompt'] as const;
+export type IndexedField = typeof INDEXED_FIELDS[number];
+
+export interface LexicalHit {
+    id: string;
+    score: number;
+    matchedFields: IndexedField[]; // Fields containing at least one query term
+    matchedTerms: string[];
+}
+
+interface IndexedDoc {
+    length: number;
+    termFreqs: Map<string, number>;
+    fieldTerms: Map<IndexedField, Set<string>>;
+}
+
+export class LexicalIndex {
+    // BM25 tuning (standard defaults)
+    private readonly K1 = 1.2;
+    private readonly B = 0.75;
+
+    private docs: Map<string, IndexedDoc> = new Map();
+    private postings: Map<string, Map<string, number>> = new Map(); // term -> docId -> tf
+    private totalLength: number = 0;
+
+    /**
+     * Splits text into lowercase terms.
+     * Identifiers are kept whole AND split on camelCase / snake_case boundaries,
+     * so `useAuthRedirect` matches both "useAuthRedirect" and "auth redirect".
+     */
+    public static tokenize(text: string): string[] {
+        const terms: string[] = [];
+        const rawTokens = text.match(/[A-Za-z0-9_$]+/g) || [];
+
+        for (const raw of rawTokens) {
+            const whole = raw.toLowerCase();
+            if (whole.length >= 2) terms.push(whole);
+
+            const parts = raw
+                .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+                .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+                .split(/[\s_$]+/)
+                .map(p => p.toLowerCase())
+                .filter(p => p.length >= 2);
+
+            if (parts.length > 1) {
+                terms.push(...parts);
+            }
+        }
+        return terms;
+    }
+
+    public get size(): number {
+        return this.docs.size;
+    }
+
+    public clear() {
+        this.docs.clear();
+        this.postings.clear();
+        this.totalLength = 0;
+    }
+
+    public has(id: string): boolean {
+        return this.docs.has(id);
+    }
+
+    /**
+     * Adds (or replaces) a document. Missing fields are treated as empty.
+     */
+    public add(id: string, record: Partial<Record<IndexedField, string>>) {
+        if (this.docs.has(id)) {
+            this.remove(id);
+        }
+
+        const termFreqs = new Map<string, number>();
+        const fieldTerms = new Map<IndexedField, Set<string>>();
+        let length = 0;
+
+        for (const field of INDEXED_FIELDS) {
+            const value = record[field];
+            if (!value) continue;
+
+            const terms = LexicalIndex.tokenize(value);
+            fieldTerms.set(field, new Set(terms));
+            length += terms.length;
+            for (const term of terms) {
+                termFreqs.set(term, (termFreqs.get(term) || 0) + 1);
+            }
+        }
+
+        if (length === 0) return;
+
+        for (const [term, tf] of termFreqs) {
+            if (!this.postings.has(term)) {
+                this.postings.set(term, new Map());
+            }
+            this.postings.get(term)!.set(id, tf);
+        }
+
+        this.docs.set(id, { length, termFreqs, fieldTerms });
+        this.totalLength += length;
+    }
+
+    public remove(id: string) {
+        const doc = this.docs.get(id);
+        if (!doc) return;
+
+        for (const term of doc.termFreqs.keys()) {
+            const posting = this.postings.get(term);
+            if (!posting) continue;
+            posting.delete(id);
+            if (posting.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.totalLength -= doc.length;
+        this.docs.delete(id);
+    }
+
+    public search(queryText: string, limit: number = 10): LexicalHit[] {
+        const queryTerms = Array.from(new Set(LexicalIndex.tokenize(queryText)));
+        if (queryTerms.length === 0 || this.docs.size === 0) return [];
+
+        const N = this.docs.size;
+        const avgLength = this.totalLength / N;
+        const scores = new Map<string, { score: number, terms: string[] }>();
+
+        for (const term of queryTerms) {
+            const posting = this.postings.get(term);
+            if (!posting) continue;
+
+            // BM25 IDF (with +1 to keep it positive for very common terms)
+            const df = posting.size;
+            const idf = Math.log(1 + (N - df + 0.5) / (df + 0.5));
+
+            for (const [docId, tf] of posting) {
+                const doc = this.docs.get(docId)!;
+                const norm = tf * (this.K1 + 1) / (tf + this.K1 * (1 - this.B + this.B * doc.length / avgLength));
+                const entry = scores.get(docId) || { score: 0, terms: [] };
+                entry.score += idf * norm;
+                entry.terms.push(term);
+                scores.set(docId, entry);
+            }
+        }
+
+        return Array.from(scores.entries())
+            .sort((a, b) => b[1].score - a[1].score)
+            .slice(0, limit)
+            .map(([id, entry]) => {
+                const doc = this.docs.get(id)!;
+                const matchedFields = INDEXED_FIELDS.filter(field => {
+                    const terms = doc.fieldTerms.get(field);
+                    return !!terms && entry.terms.some(t => terms.has(t));
+                });
+                return { id, score: entry.score, matchedFields, matchedTerms: entry.terms };
+            });
+    }
+}
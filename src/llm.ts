@@ -1,71 +1,139 @@
 import * as vscode from 'vscode';
-import { LabsController } from './experimental/LabsController';
+import { GenerateOptions, LlmProvider, LlmProviderKind, createLlmProvider, fitToTokenBudget } from './llmProviders';
 
+/** Callers of the LLM, each with its own model (`engram.llm.models`) and request defaults. */
+export type LlmFeature = 'summary' | 'intent' | 'intuition' | 'promptInjector' | 'architect' | 'journal' | 'fixAdapter';
 
-export class OllamaService {
-    private static instance: OllamaService;
-    private endpoint: string;
-    private model: string;
+export interface LlmRequestOptions extends Partial<GenerateOptions> {
+    token?: vscode.CancellationToken; // Aborts the request (e.g. a cancellable progress notification)
+}
 
-    private constructor() {
-        // Defaults
-        this.endpoint = 'http://localhost:11434';
-        this.model = 'qwen2.5-coder:1.5b';
+const DEFAULT_MODEL = 'qwen2.5-coder:1.5b';
+
+export const DEFAULT_FEATURE_MODELS: Partial<Record<LlmFeature, string>> = {
+    intuition: 'qwen2.5:0.5b', // Inline completions need the fastest model
+    promptInjector: 'qwen2.5:0.5b'
+};
+
+const FEATURE_DEFAULTS: Record<LlmFeature, LlmRequestOptions> = {
+    summary: { timeout: 2000, maxTokens: 120 },
+    intent: { timeout: 5000, maxTokens: 120 },
+    intuition: { timeout: 10000, maxTokens: 50, temperature: 0.1 },
+    promptInjector: { timeout: 5000, maxTokens: 200, temperature: 0.7 },
+    architect: { timeout: 300000, maxTokens: 1024 }, // Streamed and cancellable, so the timeout is only a safety net
+    journal: { timeout: 10000, maxTokens: 40 },
+    fixAdapter: { timeout: 30000, maxTokens: 1024, temperature: 0.1 }
+};
+
+/**
+ * Single entry point for LLM calls. The backend (Ollama, an OpenAI-compatible local server, or the
+ * mock provider for tests) and the model per feature come from `engram.llm.*`.
+ */
+export class LlmService {
+    private static instance: LlmService;
+    private provider: LlmProvider;
+    private model: string = DEFAULT_MODEL;
+    private featureModels: Partial<Record<LlmFeature, string>> = DEFAULT_FEATURE_MODELS;
+    private maxPromptTokens: number = 4096;
 
-        this.reloadConfig();
+    private constructor() {
+        this.provider = this.createProvider();
     }
 
-    public static getInstance(): OllamaService {
-        if (!OllamaService.instance) {
-            OllamaService.instance = new OllamaService();
+    public static getInstance(): LlmService {
+        if (!LlmService.instance) {
+            LlmService.instance = new LlmService();
         }
-        return OllamaService.instance;
+        return LlmService.instance;
+    }
+
+    private createProvider(): LlmProvider {
+        const config = vscode.workspace.getConfiguration('engram');
+        // Older installs configured the endpoint and model under `patternVault.*`
+        const legacy = vscode.workspace.getConfiguration('patternVault');
+
+        // `llm.model` has a default: the legacy model wins over it unless the user set one
+        const model = config.inspect<string>('llm.model');
+        const userModel = model && (model.workspaceFolderValue || model.workspaceValue || model.globalValue);
+        this.model = userModel || legacy.get<string>('llmModel') || config.get<string>('llm.model') || DEFAULT_MODEL;
+        this.featureModels = { ...DEFAULT_FEATURE_MODELS, ...config.get<Partial<Record<LlmFeature, string>>>('llm.models', {}) };
+        this.maxPromptTokens = config.get<number>('llm.maxPromptTokens', 4096);
+
+        return createLlmProvider({
+            provider: config.get<LlmProviderKind>('llm.provider', 'ollama'),
+            endpoint: config.get<string>('llm.endpoint') || legacy.get<string>('llmEndpoint') || undefined,
+            apiKey: config.get<string>('llm.apiKey') || undefined
+        });
     }
 
+    /** Re-reads `engram.llm.*`. */
     public reloadConfig() {
-        const config = vscode.workspace.getConfiguration('patternVault');
-        this.endpoint = config.get<string>('llmEndpoint') || 'http://localhost:11434';
-        this.model = config.get<string>('llmModel') || 'qwen2.5-coder:1.5b';
+        this.provider = this.createProvider();
     }
 
-    private async callLlm(prompt: string, timeout: number = 2000): Promise<string> {
-        try {
+    /** Replaces the provider (tests use a `MockLlmProvider`). */
+    public setProvider(provider: LlmProvider) {
+        this.provider = provider;
+    }
 
+    public getProvider(): LlmProvider {
+        return this.provider;
+    }
 
+    public getModel(feature: LlmFeature): string {
+        return this.featureModels[feature] || this.model;
+    }
 
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), timeout);
+    /**
+     * Completes `prompt` with the feature's model and defaults (`options` override them). The prompt
+     * is trimmed to `engram.llm.maxPromptTokens`. Pass `onToken` to stream the completion. Rejects on
+     * errors, timeouts and cancellation (both `AbortError`); use it where the caller reports failures.
+     */
+    public async generate(feature: LlmFeature, prompt: string, options: LlmRequestOptions = {}): Promise<string> {
+        const { token, ...request } = options;
+        const controller = new AbortController();
+        const subscriptions: vscode.Disposable[] = [];
+
+        if (token) {
+            if (token.isCancellationRequested) controller.abort();
+            subscriptions.push(token.onCancellationRequested(() => controller.abort()));
+        }
+        if (request.signal) {
+            if (request.signal.aborted) controller.abort();
+            const onAbort = () => controller.abort();
+            request.signal.addEventListener('abort', onAbort);
+            subscriptions.push({ dispose: () => request.signal!.removeEventListener('abort', onAbort) });
+        }
 
-            const response = await fetch(`${this.endpoint}/api/generate`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: this.model,
-                    prompt: prompt,
-                    stream: false
-                }),
+        try {
+            return await this.provider.generate(fitToTokenBudget(prompt, this.maxPromptTokens), {
+                ...FEATURE_DEFAULTS[feature],
+                ...request,
+                model: request.model || this.getModel(feature),
                 signal: controller.signal
             });
+        } finally {
+            subscriptions.forEach(s => s.dispose());
+        }
+    }
 
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                return "";
-            }
-
-            const data = await response.json() as { response: string };
-            let result = data.response.trim();
-
-
-
-            return result;
-
+    private async callLlm(prompt: string, options: LlmRequestOptions = {}, feature: LlmFeature = 'summary'): Promise<string> {
+        try {
+            return (await this.generate(feature, prompt, options)).trim();
         } catch (error) {
             // fail silently as per requirements
             return "";
         }
     }
 
+    /**
+     * Quick reachability check (the generate calls fail silently, so callers cannot tell
+     * "no answer" from "no server").
+     */
+    public async isAvailable(timeout: number = 1500): Promise<boolean> {
+        return this.provider.isAvailable(timeout);
+    }
+
     public async summarize(code: string): Promise<string> {
         return this.callLlm(`Summarize this code in one or two sentences. Focus on what it does and the problem it solves. Do not explain the syntax.\nCode:\n${code.substring(0, 1000)}\nSummary:`);
     }
@@ -74,42 +142,29 @@ export class OllamaService {
         return this.callLlm(`Summarize the core problem this code solves in one sentence. Do not mention variable names or specific implementation details. Response must be a single sentence:\n${code.substring(0, 1000)}`);
     }
 
-    public async inferIntent(code: string): Promise<string> {
-        try {
-            const prompt = `Analyze this code and infer the likely prompt or question that generated it. 
+    /**
+     * Names the pattern shared by a cluster, from its members' one-sentence descriptions.
+     */
+    public async labelPattern(descriptions: string[]): Promise<string> {
+        const list = descriptions.slice(0, 12).map(d => `- ${d.substring(0, 200)}`).join('\n');
+        const label = await this.callLlm(`These code snippets all solve a similar problem:\n${list}\nName the shared pattern in at most six words (e.g. "JWT auth middleware"). Return only the name:`, { timeout: 5000, maxTokens: 20 });
+        return label.replace(/^["'\s]+|["'.\s]+$/g, '').substring(0, 80);
+    }
+
+    /**
+     * Best effort: returns "" on failure or cancellation. `onToken` receives the raw stream.
+     */
+    public async inferIntent(code: string, token?: vscode.CancellationToken, onToken?: (chunk: string) => void): Promise<string> {
+        const prompt = `Analyze this code and infer the likely prompt or question that generated it.
             Return ONLY the inferred prompt.
-            
+
             Code:
             ${code.substring(0, 1500)}
-            
-            Likely User Prompt:`;
-
-            const controller = new AbortController();
-            // Longer timeout for "thoughtful" inference, but still background
-            const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-            const response = await fetch(`${this.endpoint}/api/generate`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: this.model,
-                    prompt: prompt,
-                    stream: false
-                }),
-                signal: controller.signal
-            });
-
-            clearTimeout(timeoutId);
 
-            if (!response.ok) {
-                return "";
-            }
-
-            const data = await response.json() as { response: string };
-            return data.response.trim().replace(/^["']|["']$/g, ''); // Clean quotes
+            Likely User Prompt:`;
 
-        } catch (error) {
-            return ""; // Best effort: return empty if failed
-        }
+        // Longer timeout for "thoughtful" inference, but still background
+        const intent = await this.callLlm(prompt, { token, onToken }, 'intent');
+        return intent.replace(/^["']|["']$/g, ''); // Clean quotes
     }
 }
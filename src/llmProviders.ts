@@ -0,0 +1,294 @@
+/**
+ * A backend that completes a prompt.
+ * `id` identifies the server kind and endpoint (the model is chosen per request).
+ */
+export interface LlmProvider {
+    readonly id: string;
+    /** Resolves with the full completion; rejects on HTTP errors, timeouts (`AbortError`) and cancellation. */
+    generate(prompt: string, options: GenerateOptions): Promise<string>;
+    isAvailable(timeout: number): Promise<boolean>;
+}
+
+export interface GenerateOptions {
+    model: string;
+    maxTokens?: number; // Completion budget (num_predict / max_tokens)
+    temperature?: number;
+    stop?: string[];
+    timeout?: number; // ms
+    signal?: AbortSignal; // Caller cancellation
+    onToken?: (chunk: string) => void; // Streams the completion as it is generated
+}
+
+export type LlmProviderKind = 'ollama' | 'openai' | 'mock';
+
+export interface LlmConfig {
+    provider: LlmProviderKind;
+    endpoint?: string; // Overrides the provider's default endpoint
+    apiKey?: string;
+    responder?: MockResponder;
+}
+
+export const DEFAULT_ENDPOINTS: Record<LlmProviderKind, string> = {
+    ollama: 'http://localhost:11434',
+    openai: 'http://localhost:8080', // llama.cpp server (LM Studio defaults to :1234)
+    mock: ''
+};
+
+const CHARS_PER_TOKEN = 4; // Rough estimate, good enough for budgeting
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Trims a prompt to roughly `maxTokens`, keeping its head (instructions) and tail (the cue the model
+ * completes) and cutting the middle.
+ */
+export function fitToTokenBudget(prompt: string, maxTokens: number): string {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    if (maxTokens <= 0 || prompt.length <= maxChars) return prompt;
+
+    const marker = '\n...\n';
+    const head = Math.floor((maxChars - marker.length) * 0.6);
+    const tail = Math.max(0, maxChars - marker.length - head);
+    return prompt.substring(0, head) + marker + prompt.substring(prompt.length - tail);
+}
+
+/** One signal for the request: aborted on timeout or when the caller's signal aborts. */
+function requestSignal(timeout?: number, signal?: AbortSignal): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    const timeoutId = timeout ? setTimeout(onAbort, timeout) : undefined;
+
+    if (signal) {
+        if (signal.aborted) controller.abort();
+        else signal.addEventListener('abort', onAbort);
+    }
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            if (timeoutId) clearTimeout(timeoutId);
+            if (signal) signal.removeEventListener('abort', onAbort);
+        }
+    };
+}
+
+function abortError(): Error {
+    const error = new Error('The operation was aborted.');
+    error.name = 'AbortError';
+    return error;
+}
+
+/** Reads a streamed response body line by line (NDJSON and server-sent events). */
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+        // Buffered response (no readable stream, or the server ignored `stream`): one pass over it
+        const text = typeof response.text === 'function' ? await response.text() : JSON.stringify(await response.json());
+        text.split('\n').forEach(line => line.trim() && onLine(line.trim()));
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(line => line.trim() && onLine(line.trim()));
+    }
+    if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * Ollama `/api/generate`.
+ */
+export class OllamaLlmProvider implements LlmProvider {
+    public readonly id: string;
+
+    constructor(private endpoint: string) {
+        this.id = `ollama:${endpoint}`;
+    }
+
+    async generate(prompt: string, options: GenerateOptions): Promise<string> {
+        const request = requestSignal(options.timeout, options.signal);
+        const modelOptions: Record<string, any> = {};
+        if (options.maxTokens !== undefined) modelOptions.num_predict = options.maxTokens;
+        if (options.temperature !== undefined) modelOptions.temperature = options.temperature;
+        if (options.stop) modelOptions.stop = options.stop;
+
+        try {
+            const response = await fetch(`${this.endpoint}/api/generate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: options.model,
+                    prompt: prompt,
+                    stream: !!options.onToken,
+                    ...(Object.keys(modelOptions).length > 0 ? { options: modelOptions } : {})
+                }),
+                signal: request.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`Ollama generate failed: HTTP ${response.status}`);
+            }
+
+            if (!options.onToken) {
+                const data = await response.json() as { response?: string };
+                return data.response || '';
+            }
+
+            let text = '';
+            await readLines(response, line => {
+                const chunk = (JSON.parse(line) as { response?: string }).response || '';
+                if (!chunk) return;
+                text += chunk;
+                options.onToken!(chunk);
+            });
+            return text;
+        } finally {
+            request.dispose();
+        }
+    }
+
+    async isAvailable(timeout: number): Promise<boolean> {
+        const request = requestSignal(timeout);
+        try {
+            const response = await fetch(`${this.endpoint}/api/tags`, { signal: request.signal });
+            return response.ok;
+        } catch (error) {
+            return false;
+        } finally {
+            request.dispose();
+        }
+    }
+}
+
+/**
+ * OpenAI-compatible local servers (llama.cpp, LM Studio, vLLM, ...) via `/v1/chat/completions`.
+ */
+export class OpenAICompatibleLlmProvider implements LlmProvider {
+    public readonly id: string;
+    private baseUrl: string;
+
+    constructor(endpoint: string, private apiKey?: string) {
+        // Accept both "http://host:port" and "http://host:port/v1"
+        this.baseUrl = endpoint.replace(/\/+$/, '').replace(/\/v1$/, '');
+        this.id = `openai:${this.baseUrl}`;
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+        return headers;
+    }
+
+    async generate(prompt: string, options: GenerateOptions): Promise<string> {
+        const request = requestSignal(options.timeout, options.signal);
+
+        try {
+            const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+                method: 'POST',
+                headers: this.headers(),
+                body: JSON.stringify({
+                    model: options.model,
+                    messages: [{ role: 'user', content: prompt }],
+                    stream: !!options.onToken,
+                    max_tokens: options.maxTokens,
+                    temperature: options.temperature,
+                    stop: options.stop
+                }),
+                signal: request.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`LLM server request failed: HTTP ${response.status}`);
+            }
+
+            if (!options.onToken) {
+                const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+                return (data.choices && data.choices[0] && data.choices[0].message && data.choices[0].message.content) || '';
+            }
+
+            let text = '';
+            await readLines(response, line => {
+                if (!line.startsWith('data:')) return;
+                const payload = line.substring(5).trim();
+                if (payload === '[DONE]') return;
+
+                const data = JSON.parse(payload) as { choices?: { delta?: { content?: string } }[] };
+                const chunk = (data.choices && data.choices[0] && data.choices[0].delta && data.choices[0].delta.content) || '';
+                if (!chunk) return;
+                text += chunk;
+                options.onToken!(chunk);
+            });
+            return text;
+        } finally {
+            request.dispose();
+        }
+    }
+
+    async isAvailable(timeout: number): Promise<boolean> {
+        const request = requestSignal(timeout);
+        try {
+            const response = await fetch(`${this.baseUrl}/v1/models`, { headers: this.headers(), signal: request.signal });
+            return response.ok;
+        } catch (error) {
+            return false;
+        } finally {
+            request.dispose();
+        }
+    }
+}
+
+export type MockResponder = (prompt: string, options: GenerateOptions) => string;
+
+/**
+ * Deterministic provider for tests: answers from `responder` (by default a fixed string derived
+ * from the model and the prompt's last line), streams word by word and honours cancellation.
+ * Every request is recorded in `calls`.
+ */
+export class MockLlmProvider implements LlmProvider {
+    public readonly id = 'mock';
+    public readonly calls: { prompt: string; options: GenerateOptions }[] = [];
+
+    constructor(private responder?: MockResponder) { }
+
+    async generate(prompt: string, options: GenerateOptions): Promise<string> {
+        this.calls.push({ prompt, options });
+        if (options.signal && options.signal.aborted) throw abortError();
+
+        let text = this.responder
+            ? this.responder(prompt, options)
+            : `[${options.model}] ${prompt.trim().split('\n').pop()!.trim().substring(0, 80)}`;
+        if (options.maxTokens !== undefined) text = text.substring(0, options.maxTokens * CHARS_PER_TOKEN);
+
+        if (options.onToken) {
+            for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+                if (options.signal && options.signal.aborted) throw abortError();
+                options.onToken(chunk);
+            }
+        }
+        return text;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return true;
+    }
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+    const endpoint = config.endpoint || DEFAULT_ENDPOINTS[config.provider] || DEFAULT_ENDPOINTS.ollama;
+
+    if (config.provider === 'mock') {
+        return new MockLlmProvider(config.responder);
+    }
+    if (config.provider === 'openai') {
+        return new OpenAICompatibleLlmProvider(endpoint, config.apiKey);
+    }
+    return new OllamaLlmProvider(endpoint);
+}
@@ -0,0 +1,144 @@
+/**
+ * Structured filters for memory search.
+ * A query can be built directly (typed object) or parsed from the inline search-box syntax:
+ *   `useAuthRedirect lang:ts source:ai since:30d workspace:web -unstable scope:all`
+ */
+
+import { F, LanceFilter } from './lanceFilter';
+
+export type MemorySource = 'human' | 'ai' | 'ai_candidate';
+
+// vault: the active vault. workspace: only memories from the current workspace. all: every known vault.
+export type SearchScope = 'vault' | 'workspace' | 'all';
+
+export interface MemoryQuery {
+    text: string;
+    language?: string; // File extension as stored on records (e.g. 'ts', 'py')
+    workspaceName?: string;
+    source?: MemorySource;
+    since?: string; // ISO timestamp (inclusive)
+    until?: string; // ISO timestamp (exclusive)
+    excludeUnstable?: boolean;
+    vectorType?: string;
+    scope?: SearchScope; // Which vaults to search (not a column filter)
+}
+
+// Records store the file extension, but users tend to type language names
+const LANGUAGE_ALIASES: Record<string, string> = {
+    typescript: 'ts',
+    typescriptreact: 'tsx',
+    javascript: 'js',
+    javascriptreact: 'jsx',
+    python: 'py',
+    rust: 'rs',
+    golang: 'go',
+    ruby: 'rb',
+    csharp: 'cs',
+    kotlin: 'kt'
+};
+
+const SOURCES: MemorySource[] = ['human', 'ai', 'ai_candidate'];
+const SCOPES: SearchScope[] = ['vault', 'workspace', 'all'];
+
+export function normalizeLanguage(language: string): string {
+    const lower = language.toLowerCase().replace(/^\./, '');
+    return LANGUAGE_ALIASES[lower] || lower;
+}
+
+/**
+ * Converts `30d`, `12h`, `2w`, `15m` or an ISO / YYYY-MM-DD date into an ISO timestamp.
+ * Returns undefined if the value is not recognised.
+ */
+export function parseDateValue(value: string, now: number = Date.now()): string | undefined {
+    const relative = value.match(/^(\d+)([mhdw])$/i);
+    if (relative) {
+        const amount = parseInt(relative[1], 10);
+        const unitMs: Record<string, number> = {
+            m: 60 * 1000,
+            h: 60 * 60 * 1000,
+            d: 24 * 60 * 60 * 1000,
+            w: 7 * 24 * 60 * 60 * 1000
+        };
+        return new Date(now - amount * unitMs[relative[2].toLowerCase()]).toISOString();
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Parses the inline search syntax. Unknown `key:value` tokens are kept as plain search text.
+ */
+export function parseMemoryQuery(input: string, now: number = Date.now()): MemoryQuery {
+    const query: MemoryQuery = { text: '' };
+    const textParts: string[] = [];
+
+    for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+        if (token === '-unstable') {
+            query.excludeUnstable = true;
+            continue;
+        }
+
+        const match = token.match(/^(lang|language|source|since|until|workspace|ws|type|scope):(.+)$/i);
+        if (!match) {
+            textParts.push(token);
+            continue;
+        }
+
+        const key = match[1].toLowerCase();
+        const value = match[2];
+
+        if (key === 'lang' || key === 'language') {
+            query.language = normalizeLanguage(value);
+        } else if (key === 'source' && SOURCES.includes(value.toLowerCase() as MemorySource)) {
+            query.source = value.toLowerCase() as MemorySource;
+        } else if (key === 'since' && parseDateValue(value, now)) {
+            query.since = parseDateValue(value, now);
+        } else if (key === 'until' && parseDateValue(value, now)) {
+            query.until = parseDateValue(value, now);
+        } else if (key === 'workspace' || key === 'ws') {
+            query.workspaceName = value;
+        } else if (key === 'type') {
+            query.vectorType = value;
+        } else if (key === 'scope' && SCOPES.includes(value.toLowerCase() as SearchScope)) {
+            query.scope = value.toLowerCase() as SearchScope;
+        } else {
+            textParts.push(token);
+        }
+    }
+
+    query.text = textParts.join(' ');
+    return query;
+}
+
+/**
+ * Builds a LanceDB filter from the structured filters. Returns undefined when unfiltered.
+ */
+export function buildWhereClause(query: MemoryQuery): LanceFilter | undefined {
+    const clauses: LanceFilter[] = [];
+
+    if (query.language) clauses.push(F.eq('language', query.language));
+    if (query.workspaceName) clauses.push(F.eq('workspaceName', query.workspaceName));
+    if (query.source) clauses.push(F.eq('source', query.source));
+    if (query.since) clauses.push(F.gte('timestamp', query.since));
+    if (query.until) clauses.push(F.lt('timestamp', query.until));
+    if (query.excludeUnstable) clauses.push(F.eq('isUnstable', false));
+    if (query.vectorType) clauses.push(F.eq('vectorType', query.vectorType));
+
+    return clauses.length > 0 ? F.and(...clauses) : undefined;
+}
+
+/**
+ * In-memory equivalent of `buildWhereClause`, used for hits that did not come from a filtered scan
+ * (e.g. the lexical index).
+ */
+export function matchesMemoryQuery(record: any, query: MemoryQuery): boolean {
+    if (query.language && record.language !== query.language) return false;
+    if (query.workspaceName && record.workspaceName !== query.workspaceName) return false;
+    if (query.source && record.source !== query.source) return false;
+    if (query.since && !(record.timestamp >= query.since)) return false;
+    if (query.until && !(record.timestamp < query.until)) return false;
+    if (query.excludeUnstable && record.isUnstable) return false;
+    if (query.vectorType && record.vectorType !== query.vectorType) return false;
+    return true;
+}
@@ -1,25 +1,56 @@
 import * as vscode from 'vscode';
-import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { MistakeFingerprint, MistakeFix, MemoryCard } from './types';
+import { FixApplication, MistakeFingerprint, MistakeFix, MistakeOccurrence, MemoryCard } from './types';
+import { transformRange } from './provenance';
+import { diffStats, fixSummary, unifiedDiff } from './fixDiff';
+import { fixSuccessRate } from './fixAdapter';
+import { pruneOccurrences } from './mistakeInsights';
+import { DEFAULT_HALF_LIFE_DAYS, DEFAULT_LEARN_AFTER_DAYS, decayedWeight, LifecycleSettings, mistakeState, recordSighting, shouldGraduate } from './mistakeLifecycle';
+import { adoptLegacyFingerprint, diagnosticSignature, languageStats, LanguageMistakeStats, legacyIndex, migrateFingerprints, NORMALIZATION_VERSION } from './mistakeFingerprint';
 const safe = require('safe-regex');
 
+/** The code around an error when it appeared, followed through edits until the error resolves. */
+interface ErrorSnapshot {
+    fingerprintId: string;
+    start: number; // Document offsets of the region, kept aligned across edits
+    end: number;
+    startLine: number; // 0-based, when the snapshot was taken
+    text: string;
+    version: number;
+}
+
+const SYMBOL_KINDS = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor];
+
 export class MistakeDetector {
     private static instance: MistakeDetector;
     private disposables: vscode.Disposable[] = [];
     private fingerprints: Map<string, MistakeFingerprint> = new Map();
+    private legacyFingerprints: Map<string, MistakeFingerprint> = new Map(); // Stored with an '[object Object]' code, see legacyIndex
     private storagePath: string | null = null;
     private initialized: boolean = false;
 
     // Fix Capture State
     private activeErrors: Map<string, Set<string>> = new Map(); // fileUri -> Set of error hashes
-    private lastEdits: Map<string, { timestamp: number, diff: string }> = new Map();
+    private snapshots: Map<string, ErrorSnapshot[]> = new Map(); // fileUri -> snapshots of its active errors
+    private readonly CONTEXT_LINES = 8; // Snapshot ±N lines when the error is not inside a function
+    private readonly MAX_SNAPSHOT_LINES = 120; // Larger enclosing functions fall back to ±N lines
+    private pendingApplications: Map<string, FixApplication> = new Map(); // `${fileUri}|${fingerprintId}` -> applied fix awaiting its outcome
+    private readonly APPLICATION_TIMEOUT_MS = 10000; // Error still there after this long -> the applied fix did not resolve it
+    private occurrences: MistakeOccurrence[] = []; // Every appearance of a mistake, for Mistake Insights
+    private occurrencesDirty: boolean = false;
+    private readonly OCCURRENCE_RETENTION_DAYS = 180;
+    private readonly MAX_OCCURRENCES = 20000;
 
     private _onMistakeRepeated = new vscode.EventEmitter<MistakeFingerprint>();
     public readonly onMistakeRepeated = this._onMistakeRepeated.event;
 
+    // Dismissed, snoozed, learned or relapsed: warnings and injected rules need refreshing
+    private _onDidChangeStates = new vscode.EventEmitter<void>();
+    public readonly onDidChangeStates = this._onDidChangeStates.event;
+    private readonly GRADUATION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
     private constructor() { }
 
     public static getInstance(): MistakeDetector {
@@ -37,6 +68,32 @@ export class MistakeDetector {
         return Array.from(this.fingerprints.values());
     }
 
+    public getLifecycleSettings(): LifecycleSettings {
+        const config = vscode.workspace.getConfiguration('engram');
+        return {
+            halfLifeDays: Math.max(1, config.get<number>('mistakes.decayHalfLifeDays', DEFAULT_HALF_LIFE_DAYS)),
+            learnAfterDays: Math.max(1, config.get<number>('mistakes.learnAfterDays', DEFAULT_LEARN_AFTER_DAYS))
+        };
+    }
+
+    /** Warnings for the fingerprint are shown (not dismissed, snoozed or learned). */
+    public isActive(fingerprint: MistakeFingerprint): boolean {
+        return mistakeState(fingerprint, Date.now()) === 'active';
+    }
+
+    /** Marks recurring mistakes that have been quiet for `learnAfterDays` as learned. */
+    private async graduateLearned() {
+        const now = Date.now();
+        const { learnAfterDays } = this.getLifecycleSettings();
+        const graduated = this.getAllFingerprints().filter(f => shouldGraduate(f, now, learnAfterDays));
+        if (graduated.length === 0) return;
+
+        graduated.forEach(f => f.learnedAt = now);
+        console.log(`[MistakeDetector] ${graduated.length} mistake(s) not seen for ${learnAfterDays} days marked as learned.`);
+        await this.saveFingerprints();
+        this._onDidChangeStates.fire();
+    }
+
     public updateFingerprint(fingerprint: MistakeFingerprint) {
         if (this.fingerprints.has(fingerprint.id)) {
             this.fingerprints.set(fingerprint.id, fingerprint);
@@ -92,6 +149,7 @@ export class MistakeDetector {
             fs.mkdirSync(storagePath, { recursive: true });
         }
         this.loadFingerprints();
+        this.loadOccurrences();
         this.initialized = true;
     }
 
@@ -106,23 +164,118 @@ export class MistakeDetector {
             if (fs.existsSync(filePath)) {
                 const data = await fs.promises.readFile(filePath, 'utf8');
                 const list = JSON.parse(data) as MistakeFingerprint[];
-                list.forEach(f => this.fingerprints.set(f.id, f));
+                const { fingerprints, merged, migrated } = migrateFingerprints(list);
+                fingerprints.forEach(f => this.fingerprints.set(f.id, f));
+                this.legacyFingerprints = legacyIndex(fingerprints);
                 console.log(`[MistakeDetector] Loaded ${list.length} fingerprints.`);
+                if (migrated > 0) {
+                    console.log(`[MistakeDetector] Re-normalized ${migrated} fingerprints (${merged} merged into another).`);
+                    await this.saveFingerprints();
+                }
+                await this.graduateLearned();
             }
         } catch (e) {
             console.error("[MistakeDetector] Failed to load fingerprints:", e);
         }
     }
 
+    private getOccurrencesPath(): string {
+        if (!this.storagePath) throw new Error("Storage path not initialized");
+        return path.join(this.storagePath, 'mistake-occurrences.json');
+    }
+
+    private async loadOccurrences() {
+        try {
+            const filePath = this.getOccurrencesPath();
+            if (fs.existsSync(filePath)) {
+                const data = await fs.promises.readFile(filePath, 'utf8');
+                // Appearances recorded before loading finished go after the stored ones
+                this.occurrences = [...(JSON.parse(data) as MistakeOccurrence[]), ...this.occurrences];
+                console.log(`[MistakeDetector] Loaded ${this.occurrences.length} mistake occurrences.`);
+            }
+        } catch (e) {
+            console.error("[MistakeDetector] Failed to load mistake occurrences:", e);
+        }
+    }
+
+    private async saveOccurrences() {
+        if (!this.storagePath || !this.occurrencesDirty) return;
+        this.occurrencesDirty = false;
+
+        const before = this.occurrences.length;
+        this.occurrences = pruneOccurrences(this.occurrences, Date.now(), this.OCCURRENCE_RETENTION_DAYS, this.MAX_OCCURRENCES);
+        if (this.occurrences.length < before) {
+            console.log(`[MistakeDetector] Dropped ${before - this.occurrences.length} mistake occurrences past retention.`);
+        }
+
+        try {
+            await fs.promises.writeFile(this.getOccurrencesPath(), JSON.stringify(this.occurrences), 'utf8');
+        } catch (e) {
+            console.error("[MistakeDetector] Failed to save mistake occurrences:", e);
+        }
+    }
+
+    /** Logs a mistake appearing in a file; an occurrence still open there (e.g. from the last session) continues instead. */
+    private recordOccurrence(fingerprint: MistakeFingerprint, uri: vscode.Uri, error: vscode.Diagnostic) {
+        if (this.hasOpenOccurrence(fingerprint.id, uri)) return;
+
+        this.occurrences.push({
+            fingerprintId: fingerprint.id,
+            timestamp: Date.now(),
+            filePath: uri.fsPath,
+            language: fingerprint.language,
+            range: { startLine: error.range.start.line, endLine: error.range.end.line }
+        });
+        this.occurrencesDirty = true;
+    }
+
+    private hasOpenOccurrence(fingerprintId: string, uri: vscode.Uri): boolean {
+        return this.occurrences.some(o => o.fingerprintId === fingerprintId && o.filePath === uri.fsPath && o.resolvedAt === undefined);
+    }
+
+    private resolveOccurrence(fingerprintId: string, uri: vscode.Uri) {
+        for (const occurrence of this.occurrences) {
+            if (occurrence.fingerprintId === fingerprintId && occurrence.filePath === uri.fsPath && occurrence.resolvedAt === undefined) {
+                occurrence.resolvedAt = Date.now();
+                this.occurrencesDirty = true;
+            }
+        }
+    }
+
+    /** Carries the history of a fingerprint stored with an '[object Object]' code over to its re-keyed successor. */
+    private adoptLegacy(fingerprint: MistakeFingerprint, error: vscode.Diagnostic) {
+        if (typeof error.code !== 'object' || this.legacyFingerprints.size === 0) return;
+        const legacy = adoptLegacyFingerprint(this.legacyFingerprints, fingerprint, error.source || '', error.message);
+        if (!legacy) return;
+
+        this.fingerprints.delete(legacy.id);
+        fingerprint.weight = decayedWeight(legacy, Date.now(), this.getLifecycleSettings().halfLifeDays) + 1;
+        fingerprint.snoozedUntil = legacy.snoozedUntil;
+        for (const occurrence of this.occurrences) {
+            if (occurrence.fingerprintId === legacy.id) {
+                occurrence.fingerprintId = fingerprint.id;
+                this.occurrencesDirty = true;
+            }
+        }
+        console.log(`[MistakeDetector] Re-keyed legacy fingerprint: ${legacy.pattern}`);
+    }
+
+    public getOccurrences(): MistakeOccurrence[] {
+        return this.occurrences;
+    }
+
     private async saveFingerprints() {
         if (!this.storagePath) return;
 
         // Phase 9: Hardening - Eviction Policy
-        // If > 5000 fingerprints, evict oldest 1000 to prevent unbounded growth.
+        // If > 5000 fingerprints, evict the ones with the lowest decayed weight to prevent unbounded growth.
         const MAX_FINGERPRINTS = 5000;
         if (this.fingerprints.size > MAX_FINGERPRINTS) {
             console.log(`[MistakeDetector] Pruning fingerprints (Size: ${this.fingerprints.size} > ${MAX_FINGERPRINTS})...`);
-            const sorted = Array.from(this.fingerprints.values()).sort((a, b) => a.lastSeen - b.lastSeen);
+            const now = Date.now();
+            const { halfLifeDays } = this.getLifecycleSettings();
+            const sorted = Array.from(this.fingerprints.values())
+                .sort((a, b) => decayedWeight(a, now, halfLifeDays) - decayedWeight(b, now, halfLifeDays));
             const toRemove = sorted.slice(0, this.fingerprints.size - MAX_FINGERPRINTS + 100); // Remove excess + buffer
             toRemove.forEach(f => this.fingerprints.delete(f.id));
             console.log(`[MistakeDetector] Evicted ${toRemove.length} old fingerprints.`);
@@ -143,23 +296,99 @@ export class MistakeDetector {
         // Listen for document changes (to capture fixes)
         const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument(e => this.handleDocumentChange(e));
 
-        context.subscriptions.push(diagnosticDisposable, documentChangeDisposable);
-        this.disposables.push(diagnosticDisposable, documentChangeDisposable);
+        const graduationTimer = setInterval(() => this.graduateLearned(), this.GRADUATION_CHECK_INTERVAL_MS);
+        const graduationDisposable = new vscode.Disposable(() => clearInterval(graduationTimer));
+
+        context.subscriptions.push(diagnosticDisposable, documentChangeDisposable, graduationDisposable);
+        this.disposables.push(diagnosticDisposable, documentChangeDisposable, graduationDisposable);
         console.log('[MistakeDetector] Started listening to diagnostics and document changes.');
     }
 
     private handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
-        if (event.contentChanges.length === 0) return;
+        const snapshots = this.snapshots.get(event.document.uri.toString());
+        if (!snapshots || event.contentChanges.length === 0) return;
+
+        // Keep each snapshot's region on its code; a region replaced entirely becomes the replacement
+        for (const snapshot of snapshots) {
+            for (const change of event.contentChanges) {
+                const moved = transformRange(snapshot, { offset: change.rangeOffset, length: change.rangeLength, text: change.text })
+                    || { start: change.rangeOffset, end: change.rangeOffset + change.text.length };
+                snapshot.start = moved.start;
+                snapshot.end = moved.end;
+            }
+        }
+    }
 
-        // Capture the last edit for this document
-        // We'll store: "At line X: Replaced Y chars with 'text'"
-        const change = event.contentChanges[0];
-        const diffDesc = `At line ${change.range.start.line + 1}: Replaced "${change.rangeLength} chars" with "${change.text.trim()}"`;
+    /**
+     * Snapshots ±CONTEXT_LINES lines around a newly appeared error, so the fix can be diffed against
+     * it once the error resolves. Taken right away, before anything awaits and the document moves on;
+     * `widenSnapshots` then grows it to the enclosing function.
+     */
+    private takeSnapshot(document: vscode.TextDocument, error: vscode.Diagnostic, fingerprintId: string): ErrorSnapshot {
+        const snapshot = this.snapshotOf(document, this.regionIn(document, error.range.start, []), fingerprintId);
+        const uriStr = document.uri.toString();
+        this.snapshots.set(uriStr, [...(this.snapshots.get(uriStr) || []).filter(s => s.fingerprintId !== fingerprintId), snapshot]);
+        return snapshot;
+    }
 
-        this.lastEdits.set(event.document.uri.toString(), {
-            timestamp: Date.now(),
-            diff: diffDesc
-        });
+    /** Widens the snapshots just taken in a document to their enclosing functions, with one symbol lookup. */
+    private async widenSnapshots(document: vscode.TextDocument, taken: { snapshot: ErrorSnapshot, position: vscode.Position }[]) {
+        if (taken.length === 0) return;
+        const version = document.version;
+        const symbols = await this.documentSymbols(document);
+        if (symbols.length === 0 || document.version !== version) return; // Edited meanwhile: keep the line windows
+
+        for (const { snapshot, position } of taken) {
+            Object.assign(snapshot, this.snapshotOf(document, this.regionIn(document, position, symbols), snapshot.fingerprintId));
+        }
+    }
+
+    private snapshotOf(document: vscode.TextDocument, range: vscode.Range, fingerprintId: string): ErrorSnapshot {
+        return {
+            fingerprintId,
+            start: document.offsetAt(range.start),
+            end: document.offsetAt(range.end),
+            startLine: range.start.line,
+            text: document.getText(range),
+            version: document.version
+        };
+    }
+
+    private async documentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+        try {
+            return await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', document.uri) || [];
+        } catch (e) {
+            return []; // No symbol provider for this language
+        }
+    }
+
+    /** The whole lines of the function enclosing `position`, or ±CONTEXT_LINES lines around it. */
+    public async regionAround(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Range> {
+        return this.regionIn(document, position, await this.documentSymbols(document));
+    }
+
+    private regionIn(document: vscode.TextDocument, position: vscode.Position, symbols: vscode.DocumentSymbol[]): vscode.Range {
+        let startLine = Math.max(0, position.line - this.CONTEXT_LINES);
+        let endLine = Math.min(document.lineCount - 1, position.line + this.CONTEXT_LINES);
+
+        const enclosing = this.enclosingFunction(symbols, position);
+        if (enclosing && enclosing.range.end.line - enclosing.range.start.line < this.MAX_SNAPSHOT_LINES) {
+            startLine = enclosing.range.start.line;
+            endLine = enclosing.range.end.line;
+        }
+
+        return new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    }
+
+    private enclosingFunction(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+        for (const symbol of symbols) {
+            if (!symbol.range || !symbol.range.contains(position)) continue;
+            // Innermost first: a method inside a class, a callback inside a function
+            const inner = this.enclosingFunction(symbol.children || [], position);
+            if (inner) return inner;
+            if (SYMBOL_KINDS.includes(symbol.kind)) return symbol;
+        }
+        return undefined;
     }
 
     private async handleDiagnosticsChange(event: vscode.DiagnosticChangeEvent) {
@@ -167,53 +396,85 @@ export class MistakeDetector {
             const uriStr = uri.toString();
             const diagnostics = vscode.languages.getDiagnostics(uri);
             const errors = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error);
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uriStr);
 
             const currentHashes = new Set<string>();
+            const previousHashes = this.activeErrors.get(uriStr) || new Set();
+            const snapshotted: { snapshot: ErrorSnapshot, position: vscode.Position }[] = [];
 
             // 1. Process Logic: New Occurrences
             for (const error of errors) {
-                const { hash, normalized, code } = this.fingerprintError(error);
+                const { hash, normalized } = this.fingerprintError(error);
+                const appeared = !currentHashes.has(hash) && !previousHashes.has(hash);
+                if (appeared && document) {
+                    snapshotted.push({ snapshot: this.takeSnapshot(document, error, hash), position: error.range.start });
+                }
                 currentHashes.add(hash);
 
                 // Create or Update Fingerprint
                 if (this.fingerprints.has(hash)) {
                     const existing = this.fingerprints.get(hash)!;
+                    if (existing.language === 'unknown' && document) existing.language = document.languageId;
+                    // A closed file reopened with the mistake still in it: the same occurrence, not a new sighting
+                    if (appeared && this.hasOpenOccurrence(hash, uri)) continue;
+
+                    // Throttle count update (1s debounce); the weight grows once per appearance
+                    const { counted, relapsed } = recordSighting(existing, appeared, Date.now(), this.getLifecycleSettings().halfLifeDays, 1000);
+                    if (relapsed) {
+                        // Learned mistakes come back when they recur
+                        console.log(`[MistakeDetector] Learned mistake recurred: ${existing.pattern}`);
+                        this._onDidChangeStates.fire();
+                    }
 
-                    // Throttle count update (1s debounce)
-                    if (Date.now() - existing.lastSeen > 1000) {
-                        existing.count++;
-                        existing.lastSeen = Date.now();
-
+                    if (counted) {
                         // Step 5: Detect Repeated Mistakes w/ Sensitivity
                         const config = vscode.workspace.getConfiguration('engram');
                         const sensitivity = config.get<string>('sensitivity', 'breeze');
                         const threshold = sensitivity === 'strict' ? 1 : 2; // Strict: >1 (2+), Breeze: >2 (3+)
 
-                        if (existing.count > threshold) {
+                        if (existing.count > threshold && this.isActive(existing)) {
                             this._onMistakeRepeated.fire(existing);
                         }
                     }
                 } else {
                     const newFingerprint: MistakeFingerprint = {
                         id: hash,
-                        language: 'unknown', // TODO: detect language
+                        language: document ? document.languageId : 'unknown',
+                        source: error.source,
+                        normalization: NORMALIZATION_VERSION,
                         detectionMethod: 'diagnostic',
                         pattern: normalized,
                         count: 1,
                         lastSeen: Date.now(),
+                        weight: 1,
+                        weightUpdatedAt: Date.now(),
                         fixes: []
                     };
+                    this.adoptLegacy(newFingerprint, error);
                     this.fingerprints.set(hash, newFingerprint);
                 }
+
+                if (appeared) {
+                    this.recordOccurrence(this.fingerprints.get(hash)!, uri, error);
+                }
             }
 
+            if (document) await this.widenSnapshots(document, snapshotted);
+
             // 2. Fix Logic: Detect Resolved Errors
             // Compare previous Active Errors with Current Errors
-            const previousHashes = this.activeErrors.get(uriStr) || new Set();
             for (const oldHash of previousHashes) {
                 if (!currentHashes.has(oldHash)) {
                     // Error was present, now gone -> RESOLVED
-                    await this.captureFix(oldHash, uriStr);
+                    // (unless the file was closed, which clears its diagnostics; the occurrence stays open)
+                    if (document) this.resolveOccurrence(oldHash, uri);
+                    if (this.pendingApplications.has(`${uriStr}|${oldHash}`)) {
+                        // Resolved by an applied past fix: count it for that fix rather than capturing a copy of it
+                        this.settleFixApplication(uriStr, oldHash, 'resolved');
+                        this.snapshots.set(uriStr, (this.snapshots.get(uriStr) || []).filter(s => s.fingerprintId !== oldHash));
+                    } else {
+                        await this.captureFix(oldHash, uriStr);
+                    }
                 }
             }
 
@@ -221,40 +482,103 @@ export class MistakeDetector {
             this.activeErrors.set(uriStr, currentHashes);
 
             await this.saveFingerprints();
+            await this.saveOccurrences();
         }
     }
 
     private async captureFix(fingerprintId: string, uriStr: string) {
-        const fingerprint = this.fingerprints.get(fingerprintId);
-        if (!fingerprint) return;
+        const snapshots = this.snapshots.get(uriStr) || [];
+        const snapshot = snapshots.find(s => s.fingerprintId === fingerprintId);
+        this.snapshots.set(uriStr, snapshots.filter(s => s !== snapshot));
 
-        const lastEdit = this.lastEdits.get(uriStr);
-        if (!lastEdit) return;
+        const fingerprint = this.fingerprints.get(fingerprintId);
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uriStr);
+        if (!fingerprint || !snapshot || !document || document.version === snapshot.version) return;
+
+        // The region as it reads now, widened to whole lines
+        const startLine = document.positionAt(snapshot.start).line;
+        const endLine = document.positionAt(Math.max(snapshot.start, snapshot.end)).line;
+        if (endLine - startLine > this.MAX_SNAPSHOT_LINES * 2) return; // Region swallowed by a whole-file rewrite
+        const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+        const after = document.getText(range);
+
+        // Resolved without touching the region (fixed in another file, or the file was closed)
+        const fileName = vscode.workspace.asRelativePath(document.uri, false);
+        const diff = unifiedDiff(fileName, snapshot.text, after, snapshot.startLine, startLine);
+        if (!diff) return;
+
+        // Avoid duplicate fixes (the same change made again)
+        if (!fingerprint.fixes) fingerprint.fixes = [];
+        if (fingerprint.fixes.some(f => f.before === snapshot.text && f.after === after)) return;
+
+        const fix: MistakeFix = {
+            id: uuidv4(),
+            description: `Fixed via edit in ${path.basename(document.uri.fsPath)}`,
+            diff,
+            before: snapshot.text,
+            after,
+            timestamp: Date.now(),
+            filePath: document.uri.fsPath,
+            range: { startLine, endLine },
+            language: document.languageId
+        };
+        fingerprint.fixes.push(fix);
+        const stats = diffStats(diff);
+        console.log(`[MistakeDetector] Captured fix for ${fingerprintId}: +${stats.added} -${stats.removed} in ${fileName}`);
+    }
 
-        // Ensure the edit happened recently (e.g., within 5 seconds)
-        if (Date.now() - lastEdit.timestamp > 5000) return;
+    /**
+     * Recorded fixes for the mistake behind `diagnostic` that can be applied to new code (they have
+     * before/after snapshots), most successful first, then most recent.
+     */
+    public getApplicableFixes(diagnostic: vscode.Diagnostic): { fingerprint: MistakeFingerprint, fixes: MistakeFix[] } | undefined {
+        const fingerprint = this.fingerprints.get(this.fingerprintError(diagnostic).hash);
+        if (!fingerprint || fingerprint.ignored || !fingerprint.fixes) return undefined;
+
+        const score = (fix: MistakeFix) => {
+            const { applied, resolved } = fixSuccessRate(fix);
+            return (resolved + 1) / (applied + 2); // Untried fixes rank between working and failing ones
+        };
+        const fixes = fingerprint.fixes
+            .filter(f => f.before !== undefined && f.after !== undefined)
+            .sort((a, b) => score(b) - score(a) || b.timestamp - a.timestamp);
+        return fixes.length > 0 ? { fingerprint, fixes } : undefined;
+    }
 
-        // Avoid duplicate fixes (simple check)
-        if (!fingerprint.fixes) fingerprint.fixes = [];
-        const isDuplicate = fingerprint.fixes.some(f => f.diff === lastEdit.diff);
-
-        if (!isDuplicate) {
-            // Reconstruct snapshots
-            // BEFORE: We don't have the full previous text, but we know the diff.
-            // AFTER: We have the current text (document state after edit).
-            // This is a simplification. Ideally we should cache the 'before' state when the error was first seen.
-            // For now, let's treat the 'diff' as the 'after' snippet if it's an insertion/replacement.
-
-            const fix: MistakeFix = {
-                id: uuidv4(),
-                description: `Fixed via edit in ${path.basename(vscode.Uri.parse(uriStr).fsPath)}`,
-                diff: lastEdit.diff,
-                after: lastEdit.diff.includes('Replaced') ? lastEdit.diff.split('with "')[1].slice(0, -1) : '...',
-                timestamp: lastEdit.timestamp
-            };
-            fingerprint.fixes.push(fix);
-            console.log(`[MistakeDetector] Captured fix for ${fingerprintId}: ${fix.diff}`);
+    /**
+     * Logs a past fix applied at `uri` (`applied`: the edit landed, else its preview was declined).
+     * An applied fix settles as 'resolved' when the error disappears from the file, 'unresolved' if
+     * it is still there after APPLICATION_TIMEOUT_MS.
+     */
+    public async recordFixApplication(fingerprintId: string, fixId: string, uri: vscode.Uri, method: FixApplication['method'], applied: boolean): Promise<FixApplication | undefined> {
+        const fix = this.fingerprints.get(fingerprintId)?.fixes?.find(f => f.id === fixId);
+        if (!fix) return undefined;
+
+        const application: FixApplication = { timestamp: Date.now(), method, filePath: uri.fsPath, outcome: applied ? 'pending' : 'rejected' };
+        fix.applications = [...(fix.applications || []), application];
+
+        if (applied) {
+            const key = `${uri.toString()}|${fingerprintId}`;
+            this.pendingApplications.set(key, application);
+            setTimeout(() => {
+                if (this.pendingApplications.get(key) === application) {
+                    this.settleFixApplication(uri.toString(), fingerprintId, 'unresolved');
+                    this.saveFingerprints();
+                }
+            }, this.APPLICATION_TIMEOUT_MS);
         }
+
+        await this.saveFingerprints();
+        return application;
+    }
+
+    private settleFixApplication(uriStr: string, fingerprintId: string, outcome: FixApplication['outcome']) {
+        const key = `${uriStr}|${fingerprintId}`;
+        const application = this.pendingApplications.get(key);
+        if (!application) return;
+        this.pendingApplications.delete(key);
+        application.outcome = outcome;
+        console.log(`[MistakeDetector] Applied fix for ${fingerprintId}: ${outcome}`);
     }
 
     public async ignoreMistake(id: string) {
@@ -262,16 +586,17 @@ export class MistakeDetector {
         if (fingerprint) {
             fingerprint.ignored = true;
             await this.saveFingerprints();
-            // Force refresh of CodeLenses via event?
-            // Actually, we should fire an event or just let the provider poll/handle it.
-            // The provider listens to onMistakeRepeated, but maybe it should listen to 'onChanged' generally?
-            // For now, let's fire onMistakeRepeated to trigger refresh, or just let it be.
-            // Better: Trigger a generic refresh if possible, or just wait for next diagnostic event.
-            // We can hack it by firing the existing event or adding a new one. 
-            // Let's rely on the CodeLensProvider listening to a "change" event if we had one.
-            // Since we don't, we might need to assume the command execution triggers a provider refresh 
-            // via 'vscode.languages.registerCodeLensProvider' mechanism or explicit refresh command.
-            // But let's just save for now.
+            this._onDidChangeStates.fire();
+        }
+    }
+
+    /** Pauses warnings for the mistake for `days` days. */
+    public async snoozeMistake(id: string, days: number) {
+        const fingerprint = this.fingerprints.get(id);
+        if (fingerprint) {
+            fingerprint.snoozedUntil = Date.now() + days * 24 * 60 * 60 * 1000;
+            await this.saveFingerprints();
+            this._onDidChangeStates.fire();
         }
     }
 
@@ -283,6 +608,11 @@ export class MistakeDetector {
             return undefined;
         }
 
+        const state = mistakeState(fingerprint, Date.now());
+        if (state === 'snoozed' || state === 'learned') {
+            return undefined;
+        }
+
         let lastAction = "Unresolved / Ignored";
         let lastFixId: string | undefined;
 
@@ -290,7 +620,7 @@ export class MistakeDetector {
             lastAction = "You manually dismissed this warning.";
         } else if (fingerprint.fixes && fingerprint.fixes.length > 0) {
             const lastFix = fingerprint.fixes[fingerprint.fixes.length - 1];
-            lastAction = `You fixed it by editing code: "${lastFix.diff.substring(0, 60)}..."`;
+            lastAction = `You fixed it by editing code: "${fixSummary(lastFix).substring(0, 60)}..."`;
             lastFixId = lastFix.id;
         }
 
@@ -300,7 +630,12 @@ export class MistakeDetector {
         let analysis: string | undefined;
         if (fingerprint.fixes && fingerprint.fixes.length > 0) {
             const f = fingerprint.fixes[0];
-            analysis = `This resembles a previous change caused by **${f.description.split(' in ')[0]}**. \n\nYou previously resolved this by modifying ${f.diff.length} characters.`;
+            let change = `modifying ${f.diff.length} characters`;
+            if (f.before !== undefined) {
+                const { added, removed } = diffStats(f.diff);
+                change = `adding ${added} and removing ${removed} line(s)`;
+            }
+            analysis = `This resembles a previous change caused by **${f.description.split(' in ')[0]}**. \n\nYou previously resolved this by ${change}.`;
         }
 
         return {
@@ -315,19 +650,18 @@ export class MistakeDetector {
         };
     }
 
+    /** Mistake counts per language of the documents the errors appeared in. */
+    public getLanguageStats(): LanguageMistakeStats[] {
+        return languageStats(this.getAllFingerprints().filter(f => f.detectionMethod === 'diagnostic'));
+    }
+
     public fingerprintError(diagnostic: vscode.Diagnostic): { hash: string, normalized: string, code: string } {
-        let message = diagnostic.message;
-        const normalizedMessage = message.replace(/'[^']*'/g, "'...'").replace(/"[^"]*"/g, '"..."');
         const source = diagnostic.source || '';
-        const code = String(diagnostic.code || '');
-        const fullSignature = `${source}:${code}:${normalizedMessage}`;
-        const hash = crypto.createHash('sha256').update(fullSignature).digest('hex');
+        // Linters report `{ value, target }` codes (the rule and its docs link)
+        const code = typeof diagnostic.code === 'object' ? String(diagnostic.code.value) : String(diagnostic.code || '');
+        const { hash, normalized } = diagnosticSignature(source, code, diagnostic.message);
 
-        return {
-            hash,
-            normalized: fullSignature,
-            code: String(diagnostic.code || '')
-        };
+        return { hash, normalized, code };
     }
 
     public dispose() {
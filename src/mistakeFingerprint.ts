@@ -0,0 +1,172 @@
+/**
+ * Fingerprints for diagnostics: the message is normalized per diagnostic source so occurrences of
+ * the same mistake that differ only in identifiers, numbers, paths or type arguments share a hash.
+ */
+import * as crypto from 'crypto';
+import { MistakeFingerprint } from './types';
+
+/** Bumped when normalization changes; fingerprints with an older version are re-keyed on load. */
+export const NORMALIZATION_VERSION = 2;
+
+type SourceFamily = 'typescript' | 'eslint' | 'python' | 'rust' | 'other';
+
+const FAMILIES: { family: SourceFamily, sources: RegExp }[] = [
+    { family: 'typescript', sources: /^(ts|typescript|tsserver|tsc|js|javascript|deno-ts)$/i },
+    { family: 'eslint', sources: /^(eslint|biome|tslint)$/i },
+    { family: 'python', sources: /^(pylance|pyright|basedpyright|mypy|pylint|flake8|ruff|pycodestyle|pyflakes|jedi)$/i },
+    { family: 'rust', sources: /^(rust-analyzer|rustc|clippy|cargo)$/i }
+];
+
+export function sourceFamily(source: string): SourceFamily {
+    return FAMILIES.find(f => f.sources.test(source.trim()))?.family || 'other';
+}
+
+const PATH = /(?:[A-Za-z]:)?(?:[\\/][\w.@+-]+){2,}|\.{1,2}[\\/][\w.@+\\/-]+/g;
+const NUMBER = /\b(?:0x[0-9a-fA-F]+|\d+(?:\.\d+)?)\b/g;
+const SINGLE_QUOTED = /'[^'\n]*'/g;
+const DOUBLE_QUOTED = /"[^"\n]*"/g;
+const BACKTICKED = /`[^`\n]*`/g;
+const LIFETIME = /'[a-z_]\w*\b(?!')/g;
+
+/** Replaces `Name<...>` (or `name[...]`) type arguments, innermost first, so nesting collapses too. */
+function stripTypeArguments(message: string, open: string, close: string): string {
+    const placeholder = '\u0001';
+    const innermost = new RegExp(`(\\w)\\${open}[^\\${open}\\${close}]*\\${close}`, 'g');
+    let previous: string;
+    do {
+        previous = message;
+        message = message.replace(innermost, `$1${placeholder}`);
+    } while (message !== previous);
+    return message.split(placeholder).join(`${open}...${close}`);
+}
+
+/** The message with the parts that vary between occurrences of one mistake masked out. */
+export function normalizeMessage(source: string, message: string): string {
+    const family = sourceFamily(source);
+    let text = message.replace(PATH, '<path>');
+
+    switch (family) {
+        case 'rust':
+            // Types and names are in backticks; lifetimes ('a) would otherwise pair up as quotes
+            text = text.replace(BACKTICKED, '`...`').replace(LIFETIME, "'_").replace(DOUBLE_QUOTED, '"..."');
+            text = stripTypeArguments(text, '<', '>');
+            break;
+        case 'python':
+            text = text.replace(DOUBLE_QUOTED, '"..."').replace(SINGLE_QUOTED, "'...'");
+            text = stripTypeArguments(text, '[', ']');
+            break;
+        case 'typescript':
+        case 'eslint':
+            text = text.replace(SINGLE_QUOTED, "'...'").replace(DOUBLE_QUOTED, '"..."').replace(BACKTICKED, '`...`');
+            text = stripTypeArguments(text, '<', '>');
+            break;
+        default:
+            text = text.replace(BACKTICKED, '`...`').replace(SINGLE_QUOTED, "'...'").replace(DOUBLE_QUOTED, '"..."');
+            text = stripTypeArguments(stripTypeArguments(text, '<', '>'), '[', ']');
+    }
+
+    return text.replace(NUMBER, '#').replace(/\s+/g, ' ').trim();
+}
+
+/** `source:code:normalizedMessage`, the fingerprint's `pattern`, and its hash (the fingerprint id). */
+export function diagnosticSignature(source: string, code: string, message: string): { hash: string, normalized: string } {
+    const normalized = `${source}:${code}:${normalizeMessage(source, message)}`;
+    return { hash: crypto.createHash('sha256').update(normalized).digest('hex'), normalized };
+}
+
+/** Folds `from` into `into`: counts add up, fixes and scopes are combined, a dismissal is kept. */
+export function mergeFingerprint(into: MistakeFingerprint, from: MistakeFingerprint) {
+    into.count += from.count;
+    into.lastSeen = Math.max(into.lastSeen, from.lastSeen);
+    into.fixes = [...(into.fixes || []), ...(from.fixes || [])].sort((a, b) => a.timestamp - b.timestamp);
+    into.ignored = into.ignored || from.ignored || undefined;
+    into.enforcementLevel = into.enforcementLevel || from.enforcementLevel;
+    if (from.ignoredScopes) into.ignoredScopes = Array.from(new Set([...(into.ignoredScopes || []), ...from.ignoredScopes]));
+    if (into.language === 'unknown') into.language = from.language;
+    if (!into.source) into.source = from.source;
+}
+
+/**
+ * Re-keys diagnostic fingerprints stored with an older normalization and merges the ones that now
+ * share a hash. The old `pattern` is re-normalized (its quoted parts were already masked, which the
+ * current rules leave as they are). Fingerprints stored as 'unknown' take the language of their fixes.
+ */
+export function migrateFingerprints(list: MistakeFingerprint[]): { fingerprints: MistakeFingerprint[], merged: number, migrated: number } {
+    const result = new Map<string, MistakeFingerprint>();
+    let merged = 0;
+    let migrated = 0;
+
+    // Current ones first, so older records fold into them rather than the other way round
+    const ordered = [...list].sort((a, b) => Number(b.normalization === NORMALIZATION_VERSION) - Number(a.normalization === NORMALIZATION_VERSION));
+    for (const original of ordered) {
+        let fingerprint = original;
+        if (fingerprint.detectionMethod === 'diagnostic' && fingerprint.normalization !== NORMALIZATION_VERSION) {
+            const [source, code, ...message] = fingerprint.pattern.split(':');
+            const { hash, normalized } = diagnosticSignature(source, code || '', message.join(':'));
+            const language = fingerprint.language === 'unknown'
+                ? [...(fingerprint.fixes || [])].reverse().find(f => f.language)?.language || 'unknown'
+                : fingerprint.language;
+            fingerprint = { ...fingerprint, id: hash, pattern: normalized, source: fingerprint.source || source, language, normalization: NORMALIZATION_VERSION };
+            migrated++;
+        }
+
+        const existing = result.get(fingerprint.id);
+        if (existing) {
+            mergeFingerprint(existing, fingerprint);
+            merged++;
+        } else {
+            result.set(fingerprint.id, fingerprint);
+        }
+    }
+
+    return { fingerprints: Array.from(result.values()), merged, migrated };
+}
+
+/** Code stored by fingerprints recorded before linters' `{ value, target }` codes were unwrapped. */
+const OBJECT_CODE = '[object Object]';
+
+/**
+ * Migrated fingerprints whose stored code is '[object Object]', keyed by source and normalized message.
+ * Their hash can never match a new diagnostic, so they wait here for the first one that does.
+ */
+export function legacyIndex(fingerprints: MistakeFingerprint[]): Map<string, MistakeFingerprint> {
+    const index = new Map<string, MistakeFingerprint>();
+    for (const fingerprint of fingerprints) {
+        if (fingerprint.detectionMethod !== 'diagnostic') continue;
+        const [source, code, ...message] = fingerprint.pattern.split(':');
+        const key = `${source}:${message.join(':')}`;
+        if (code === OBJECT_CODE && !index.has(key)) index.set(key, fingerprint);
+    }
+    return index;
+}
+
+/** Folds the legacy fingerprint for this diagnostic (if any) into `into`, and returns it so the caller can drop it. */
+export function adoptLegacyFingerprint(index: Map<string, MistakeFingerprint>, into: MistakeFingerprint, source: string, message: string): MistakeFingerprint | undefined {
+    const key = `${source}:${normalizeMessage(source, message)}`;
+    const legacy = index.get(key);
+    if (!legacy) return undefined;
+    index.delete(key);
+    mergeFingerprint(into, legacy);
+    return legacy;
+}
+
+export interface LanguageMistakeStats {
+    language: string;
+    mistakes: number; // Distinct fingerprints
+    occurrences: number;
+    fixed: number; // Fingerprints with at least one recorded fix
+}
+
+/** Mistake counts per language, most frequent first. */
+export function languageStats(fingerprints: MistakeFingerprint[]): LanguageMistakeStats[] {
+    const byLanguage = new Map<string, LanguageMistakeStats>();
+    for (const fingerprint of fingerprints) {
+        const language = fingerprint.language || 'unknown';
+        const stats = byLanguage.get(language) || { language, mistakes: 0, occurrences: 0, fixed: 0 };
+        stats.mistakes++;
+        stats.occurrences += fingerprint.count;
+        if (fingerprint.fixes && fingerprint.fixes.length > 0) stats.fixed++;
+        byLanguage.set(language, stats);
+    }
+    return Array.from(byLanguage.values()).sort((a, b) => b.occurrences - a.occurrences);
+}
@@ -0,0 +1,127 @@
+/**
+ * Analytics over the mistake occurrence log: how often mistakes appear over time, how long they take
+ * to fix, where they come from, and which ones stopped recurring.
+ */
+import { MistakeOccurrence } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Drops occurrences older than `maxAgeDays`, then all but the newest `maxEntries`. */
+export function pruneOccurrences(occurrences: MistakeOccurrence[], now: number, maxAgeDays: number, maxEntries: number): MistakeOccurrence[] {
+    const cutoff = now - maxAgeDays * DAY_MS;
+    const kept = occurrences.filter(o => o.timestamp >= cutoff);
+    return kept.length > maxEntries
+        ? [...kept].sort((a, b) => a.timestamp - b.timestamp).slice(kept.length - maxEntries)
+        : kept;
+}
+
+export function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Local calendar day, e.g. '2024-03-07'. */
+export function dayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export interface MistakeTrend {
+    fingerprintId: string;
+    recent: number; // Occurrences in the second half of the window
+    previous: number; // ...and in the first half
+}
+
+export interface LearnedMistake {
+    fingerprintId: string;
+    occurrences: number;
+    lastSeen: number;
+}
+
+export interface MistakeInsights {
+    windowDays: number;
+    total: number; // Occurrences in the window
+    distinct: number; // Fingerprints among them
+    daily: { day: string, count: number }[]; // Every day of the window, oldest first
+    medianTimeToFixMs: number | null;
+    resolved: number;
+    topFiles: { filePath: string, count: number, line: number }[]; // `line`: most recent occurrence
+    topLanguages: { language: string, count: number }[];
+    trends: MistakeTrend[]; // Most frequent mistakes of the window
+    learned: LearnedMistake[];
+}
+
+export interface InsightOptions {
+    windowDays: number;
+    learnedAfterDays: number; // A recurring mistake not seen for this long counts as learned
+    top: number;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        if (!groups.has(k)) groups.set(k, []);
+        groups.get(k)!.push(item);
+    }
+    return groups;
+}
+
+export function computeInsights(occurrences: MistakeOccurrence[], now: number, options: InsightOptions): MistakeInsights {
+    const windowStart = now - options.windowDays * DAY_MS;
+    const halfway = now - (options.windowDays / 2) * DAY_MS;
+    const inWindow = occurrences.filter(o => o.timestamp >= windowStart && o.timestamp <= now);
+
+    const perDay = groupBy(inWindow, o => dayKey(o.timestamp));
+    const daily: { day: string, count: number }[] = [];
+    for (let i = options.windowDays - 1; i >= 0; i--) {
+        const day = dayKey(now - i * DAY_MS);
+        daily.push({ day, count: (perDay.get(day) || []).length });
+    }
+
+    const fixTimes = inWindow.filter(o => o.resolvedAt !== undefined).map(o => o.resolvedAt! - o.timestamp);
+
+    const topFiles = Array.from(groupBy(inWindow, o => o.filePath).entries())
+        .map(([filePath, list]) => ({ filePath, count: list.length, line: list.reduce((a, b) => b.timestamp > a.timestamp ? b : a).range.startLine }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, options.top);
+
+    const topLanguages = Array.from(groupBy(inWindow, o => o.language || 'unknown').entries())
+        .map(([language, list]) => ({ language, count: list.length }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, options.top);
+
+    const perFingerprint = groupBy(inWindow, o => o.fingerprintId);
+    const trends = Array.from(perFingerprint.entries())
+        .map(([fingerprintId, list]) => ({
+            fingerprintId,
+            recent: list.filter(o => o.timestamp >= halfway).length,
+            previous: list.filter(o => o.timestamp < halfway).length
+        }))
+        .sort((a, b) => (b.recent + b.previous) - (a.recent + a.previous))
+        .slice(0, options.top);
+
+    // Learned: recurred at least once, fixed the last time, and quiet since
+    const learnedBefore = now - options.learnedAfterDays * DAY_MS;
+    const learned = Array.from(groupBy(occurrences, o => o.fingerprintId).entries())
+        .map(([fingerprintId, list]) => ({ fingerprintId, list, last: list.reduce((a, b) => b.timestamp > a.timestamp ? b : a) }))
+        .filter(({ list, last }) => list.length >= 2 && last.timestamp < learnedBefore && last.resolvedAt !== undefined)
+        .map(({ fingerprintId, list, last }) => ({ fingerprintId, occurrences: list.length, lastSeen: last.timestamp }))
+        .sort((a, b) => b.occurrences - a.occurrences);
+
+    return {
+        windowDays: options.windowDays,
+        total: inWindow.length,
+        distinct: perFingerprint.size,
+        daily,
+        medianTimeToFixMs: median(fixTimes),
+        resolved: fixTimes.length,
+        topFiles,
+        topLanguages,
+        trends,
+        learned
+    };
+}
@@ -0,0 +1,67 @@
+/**
+ * Lifecycle of a mistake fingerprint: its weight decays while the mistake does not recur, the user
+ * can snooze its warnings, and it graduates to "learned" after a quiet period (until it recurs).
+ */
+import { MistakeFingerprint } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HALF_LIFE_DAYS = 14;
+export const DEFAULT_LEARN_AFTER_DAYS = 30;
+
+export type MistakeState = 'active' | 'ignored' | 'snoozed' | 'learned';
+
+export interface LifecycleSettings {
+    halfLifeDays: number; // Weight halves every N days without a recurrence
+    learnAfterDays: number; // Quiet period before a recurring mistake counts as learned
+}
+
+/** The fingerprint's weight at `now`. Fingerprints stored before decay existed start from their count. */
+export function decayedWeight(fingerprint: MistakeFingerprint, now: number, halfLifeDays: number): number {
+    const weight = fingerprint.weight !== undefined ? fingerprint.weight : fingerprint.count;
+    const since = fingerprint.weightUpdatedAt !== undefined ? fingerprint.weightUpdatedAt : fingerprint.lastSeen;
+    const elapsedDays = Math.max(0, now - since) / DAY_MS;
+    return weight * Math.pow(0.5, elapsedDays / halfLifeDays);
+}
+
+/** Adds a recurrence to the weight. Returns true if the mistake had been learned (it is active again). */
+export function recordRecurrence(fingerprint: MistakeFingerprint, now: number, halfLifeDays: number): boolean {
+    fingerprint.weight = decayedWeight(fingerprint, now, halfLifeDays) + 1;
+    fingerprint.weightUpdatedAt = now;
+
+    const relapsed = fingerprint.learnedAt !== undefined;
+    fingerprint.learnedAt = undefined;
+    return relapsed;
+}
+
+/**
+ * Updates a fingerprint whose error is present in a diagnostics refresh. Only a new appearance adds
+ * to the weight, decayed from the previous sighting (so before `lastSeen` moves); the count goes up
+ * at most once per `throttleMs`. `relapsed`: a learned mistake is active again.
+ */
+export function recordSighting(fingerprint: MistakeFingerprint, appeared: boolean, now: number, halfLifeDays: number, throttleMs: number): { counted: boolean, relapsed: boolean } {
+    const relapsed = appeared && recordRecurrence(fingerprint, now, halfLifeDays);
+    const counted = now - fingerprint.lastSeen > throttleMs;
+    if (counted) {
+        fingerprint.count++;
+        fingerprint.lastSeen = now;
+    }
+    return { counted, relapsed };
+}
+
+/** A diagnostic mistake that recurred at least once and has then been quiet for `learnAfterDays`. */
+export function shouldGraduate(fingerprint: MistakeFingerprint, now: number, learnAfterDays: number): boolean {
+    return fingerprint.detectionMethod === 'diagnostic'
+        && fingerprint.learnedAt === undefined
+        && !fingerprint.ignored
+        && fingerprint.count >= 2
+        && now - fingerprint.lastSeen >= learnAfterDays * DAY_MS;
+}
+
+/** Whether warnings and rules for the fingerprint are shown ('active') or held back, and why. */
+export function mistakeState(fingerprint: MistakeFingerprint, now: number): MistakeState {
+    if (fingerprint.ignored) return 'ignored';
+    if (fingerprint.snoozedUntil !== undefined && fingerprint.snoozedUntil > now) return 'snoozed';
+    if (fingerprint.learnedAt !== undefined) return 'learned';
+    return 'active';
+}
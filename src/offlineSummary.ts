@@ -0,0 +1,142 @@
+/**
+ * Deterministic, extractive stand-ins for the LLM summary and pattern description, used when no
+ * LLM is reachable. Built from the symbol name, signature, doc comment, imports and the most
+ * frequent identifiers, so the same code always yields the same text (and the same embedding).
+ */
+
+export type SummarySource = 'llm' | 'extractive';
+
+export interface SummaryInput {
+    content: string;
+    symbolName?: string;
+    signature?: string;
+    language?: string;
+}
+
+export interface ExtractiveSummary {
+    summary: string;
+    patternDescription: string;
+}
+
+const MAX_TERMS = 5;
+const MAX_IMPORTS = 3;
+
+// Keywords and filler that say nothing about what the code does
+const STOP_WORDS = new Set([
+    'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break',
+    'continue', 'new', 'this', 'self', 'class', 'extends', 'implements', 'interface', 'type', 'enum', 'import',
+    'export', 'from', 'default', 'async', 'await', 'try', 'catch', 'finally', 'throw', 'throws', 'true', 'false',
+    'null', 'undefined', 'void', 'public', 'private', 'protected', 'static', 'readonly', 'def', 'lambda', 'pass',
+    'none', 'and', 'or', 'not', 'in', 'is', 'of', 'as', 'with', 'yield', 'fn', 'func', 'pub', 'impl', 'mut',
+    'struct', 'string', 'number', 'boolean', 'any', 'int', 'str', 'bool', 'float', 'the', 'a', 'an', 'to',
+    'get', 'set', 'value', 'data', 'result', 'item', 'items', 'args', 'err', 'error', 'e', 'i', 'j', 'k', 'x',
+    'y', 'n', 'length', 'console', 'log', 'require', 'module', 'exports', 'typeof', 'instanceof', 'elif',
+    'package', 'main', 'unknown', 'object', 'array', 'promise', 'map', 'push', 'then', 'raise', 'except'
+]);
+
+/** "fetchUserProfile" / "fetch_user_profile" -> ["fetch", "user", "profile"] */
+export function splitIdentifier(identifier: string): string[] {
+    return identifier
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9]+/)
+        .map(w => w.toLowerCase())
+        .filter(w => w.length > 0 && !/^\d+$/.test(w));
+}
+
+/** First sentence of the leading doc comment (JSDoc, `//`, `#` or a Python docstring). */
+export function extractDocComment(content: string): string {
+    const block = content.match(/^\s*\/\*\*?([\s\S]*?)\*\//);
+    const docstring = content.match(/^[^\n]*\n\s*(?:"""|''')([\s\S]*?)(?:"""|''')/) || content.match(/^\s*(?:"""|''')([\s\S]*?)(?:"""|''')/);
+    const lines = content.match(/^(?:\s*(?:\/\/|#)(?!!)[^\n]*\n)+/);
+
+    let text = '';
+    if (block) text = block[1].replace(/^\s*\*\s?/gm, '');
+    else if (docstring) text = docstring[1];
+    else if (lines) text = lines[0].replace(/^\s*(?:\/\/+|#+)\s?/gm, '');
+
+    text = text.split(/\n\s*@/)[0].replace(/\s+/g, ' ').trim(); // Drop JSDoc tags
+    const sentence = text.match(/^(.+?[.!?])(\s|$)/);
+    return (sentence ? sentence[1] : text).substring(0, 200);
+}
+
+export function extractImports(content: string): string[] {
+    const modules: string[] = [];
+    const patterns = [
+        /\bimport\s+(?:[\s\S]*?\s+from\s+)?['"]([^'"]+)['"]/g, // ES modules
+        /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g, // CommonJS
+        /^\s*from\s+([\w.]+)\s+import\b/gm, // Python
+        /^\s*import\s+([\w.]+)\s*$/gm, // Python / Java / Go single import
+        /^\s*use\s+([\w:]+)/gm // Rust
+    ];
+    for (const pattern of patterns) {
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(content)) !== null) {
+            // Package name only: "@scope/pkg/sub" -> "@scope/pkg", "./utils/auth" -> "auth"
+            const name = match[1].startsWith('.')
+                ? match[1].split('/').pop() || match[1]
+                : match[1].startsWith('@') ? match[1].split('/').slice(0, 2).join('/') : match[1].split(/[/:]/)[0];
+            if (name && !modules.includes(name)) modules.push(name);
+        }
+    }
+    return modules;
+}
+
+/** Most frequent meaningful words across identifiers (ties broken alphabetically). */
+export function extractKeyTerms(content: string, exclude: string[] = [], limit: number = MAX_TERMS): string[] {
+    const code = content
+        .replace(/\/\*[\s\S]*?\*\//g, ' ')
+        .replace(/(^|[^:])\/\/[^\n]*/g, '$1 ')
+        .replace(/(['"`])(?:\\.|(?!\1)[^\\\n])*\1/g, ' ');
+
+    const counts = new Map<string, number>();
+    for (const identifier of code.match(/[A-Za-z_$][\w$]*/g) || []) {
+        for (const word of splitIdentifier(identifier)) {
+            if (word.length < 3 || STOP_WORDS.has(word) || exclude.includes(word)) continue;
+            counts.set(word, (counts.get(word) || 0) + 1);
+        }
+    }
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([word]) => word);
+}
+
+function parameterNames(signature: string): string[] {
+    const params = signature.match(/\(([^)]*)\)/);
+    if (!params || !params[1].trim()) return [];
+    return params[1]
+        .split(',')
+        .map(p => p.trim().replace(/^(?:\.\.\.|\*{1,2}|&)/, '').split(/[\s:=?]/)[0])
+        .filter(p => p && p !== 'self' && p !== 'this');
+}
+
+export function extractiveSummary(input: SummaryInput): ExtractiveSummary {
+    const nameWords = input.symbolName ? splitIdentifier(input.symbolName.split('.').pop() || input.symbolName) : [];
+    const params = parameterNames(input.signature || '');
+    const imports = extractImports(input.content).slice(0, MAX_IMPORTS);
+    const terms = extractKeyTerms(input.content, nameWords);
+    const doc = extractDocComment(input.content);
+
+    // Summary: what a reader would want in a result list
+    const subject = input.symbolName ? `\`${input.symbolName}\`` : `${input.language || 'Code'} snippet`;
+    const parts = [doc || `${subject}${nameWords.length > 0 ? `: ${nameWords.join(' ')}` : ''}`];
+    if (params.length > 0) parts.push(`takes ${params.slice(0, 4).join(', ')}`);
+    if (imports.length > 0) parts.push(`uses ${imports.join(', ')}`);
+    if (!doc && terms.length > 0) parts.push(`works with ${terms.slice(0, 3).join(', ')}`);
+    const summary = parts.join('; ').replace(/\.;/g, ';');
+
+    // Description: normalized (lower case, no punctuation or concrete names) for the abstraction vector
+    const action = nameWords.length > 0 ? nameWords.join(' ') : terms.slice(0, 2).join(' ');
+    const otherTerms = nameWords.length > 0 ? terms : terms.slice(2);
+    const description = [
+        action,
+        imports.length > 0 ? `using ${imports.map(m => splitIdentifier(m).join(' ')).join(', ')}` : '',
+        otherTerms.length > 0 ? `involving ${otherTerms.join(', ')}` : ''
+    ].filter(Boolean).join(' ');
+
+    return {
+        summary: summary.endsWith('.') ? summary : `${summary}.`,
+        patternDescription: description ? `Code to ${description}.` : ''
+    };
+}
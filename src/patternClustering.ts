@@ -0,0 +1,176 @@
+/**
+ * Re-clustering for the pattern consolidation pass: average-linkage clustering of pattern vectors,
+ * matching the new groups to the clusters they replace, and the membership changes between the two.
+ */
+
+export interface ClusterItem {
+    id: string; // Memory id
+    vector: number[]; // Pattern abstraction vector
+}
+
+export interface ExistingCluster {
+    id: string;
+    label: string;
+    memberIds: string[];
+}
+
+/**
+ * One memory moving between clusters during a consolidation pass.
+ */
+export interface ClusterChange {
+    timestamp: string;
+    memoryId: string;
+    fromClusterId: string | null; // null: memory was not clustered before
+    fromLabel: string;
+    toClusterId: string;
+    toLabel: string;
+}
+
+export function cosineDistance(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 1;
+    return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Average-linkage agglomerative clustering, cut at `maxDistance` (cosine distance).
+ * Uses the nearest-neighbour chain algorithm: O(n²) time and memory.
+ * Returns groups of item ids (every item lands in exactly one group).
+ */
+export function agglomerativeCluster(items: ClusterItem[], maxDistance: number): string[][] {
+    const n = items.length;
+    if (n === 0) return [];
+    if (n === 1) return [[items[0].id]];
+
+    const dist = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            const d = cosineDistance(items[i].vector, items[j].vector);
+            dist[i * n + j] = d;
+            dist[j * n + i] = d;
+        }
+    }
+
+    // Each active slot stands for a cluster that contains the item with the same index
+    const size = new Array<number>(n).fill(1);
+    const active = new Array<boolean>(n).fill(true);
+    const merges: { a: number, b: number, distance: number }[] = [];
+    const chain: number[] = [];
+    let remaining = n;
+
+    while (remaining > 1) {
+        if (chain.length === 0) chain.push(active.indexOf(true));
+
+        const a = chain[chain.length - 1];
+        const prev = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+        let nearest = -1;
+        let nearestDistance = Infinity;
+        for (let k = 0; k < n; k++) {
+            if (!active[k] || k === a) continue;
+            const d = dist[a * n + k];
+            // Prefer the previous chain element on ties, otherwise the chain can cycle
+            if (d < nearestDistance || (d === nearestDistance && k === prev)) {
+                nearest = k;
+                nearestDistance = d;
+            }
+        }
+
+        if (nearest !== prev) {
+            chain.push(nearest);
+            continue;
+        }
+
+        // Reciprocal nearest neighbours: merge `prev` into `a` (Lance-Williams, average linkage)
+        chain.pop();
+        chain.pop();
+        merges.push({ a, b: prev, distance: nearestDistance });
+        for (let k = 0; k < n; k++) {
+            if (!active[k] || k === a || k === prev) continue;
+            const d = (size[a] * dist[a * n + k] + size[prev] * dist[prev * n + k]) / (size[a] + size[prev]);
+            dist[a * n + k] = d;
+            dist[k * n + a] = d;
+        }
+        size[a] += size[prev];
+        active[prev] = false;
+        remaining--;
+    }
+
+    // Average linkage is monotone, so the merges under the cut form exactly the cut's clusters
+    const parent = items.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+    for (const merge of merges) {
+        if (merge.distance <= maxDistance) parent[find(merge.b)] = find(merge.a);
+    }
+
+    const groups = new Map<number, string[]>();
+    items.forEach((item, i) => {
+        const root = find(i);
+        const group = groups.get(root) || [];
+        group.push(item.id);
+        groups.set(root, group);
+    });
+    return Array.from(groups.values());
+}
+
+/**
+ * Keeps cluster identities stable across passes: each new group inherits the id of the existing
+ * cluster it overlaps most (each id used once). Returns the inherited id per group, or null.
+ */
+export function matchGroupsToClusters(groups: string[][], existing: ExistingCluster[]): (string | null)[] {
+    const pairs: { group: number, clusterId: string, overlap: number }[] = [];
+    groups.forEach((group, index) => {
+        const members = new Set(group);
+        for (const cluster of existing) {
+            const overlap = cluster.memberIds.filter(id => members.has(id)).length;
+            if (overlap > 0) pairs.push({ group: index, clusterId: cluster.id, overlap });
+        }
+    });
+
+    pairs.sort((x, y) => y.overlap - x.overlap);
+
+    const result: (string | null)[] = groups.map(() => null);
+    const used = new Set<string>();
+    for (const pair of pairs) {
+        if (result[pair.group] !== null || used.has(pair.clusterId)) continue;
+        result[pair.group] = pair.clusterId;
+        used.add(pair.clusterId);
+    }
+    return result;
+}
+
+/**
+ * Lists the memories whose cluster changed between two assignments.
+ */
+export function diffMemberships(before: ExistingCluster[], after: ExistingCluster[], timestamp: string): ClusterChange[] {
+    const previous = new Map<string, ExistingCluster>();
+    before.forEach(cluster => cluster.memberIds.forEach(id => previous.set(id, cluster)));
+
+    const changes: ClusterChange[] = [];
+    for (const cluster of after) {
+        for (const memoryId of cluster.memberIds) {
+            const from = previous.get(memoryId);
+            if (from && from.id === cluster.id) continue;
+            changes.push({
+                timestamp,
+                memoryId,
+                fromClusterId: from ? from.id : null,
+                fromLabel: from ? from.label : '',
+                toClusterId: cluster.id,
+                toLabel: cluster.label
+            });
+        }
+    }
+    return changes;
+}
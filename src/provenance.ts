@@ -0,0 +1,63 @@
+/**
+ * Offset bookkeeping for AI-authored regions: keeps a region's [start, end) aligned with its text
+ * as the document is edited, and finds it again when a file is reopened.
+ */
+
+export interface OffsetRange {
+    start: number;
+    end: number; // Exclusive
+}
+
+/** A text replacement in document offsets, as in `TextDocumentContentChangeEvent`. */
+export interface OffsetChange {
+    offset: number; // Start of the replaced text
+    length: number; // Length of the replaced text (0 for an insertion)
+    text: string;
+}
+
+/**
+ * Where a region ends up after a change, or null if its text was deleted or replaced entirely.
+ * Text inserted exactly at a region's edge stays outside it (typing next to AI code is not AI code);
+ * a replacement inside or across the region becomes part of it (AI code edited by hand).
+ */
+export function transformRange(range: OffsetRange, change: OffsetChange): OffsetRange | null {
+    const changeEnd = change.offset + change.length;
+    const delta = change.text.length - change.length;
+
+    if (change.length === 0) {
+        const shift = (position: number, isEnd: boolean) =>
+            position > change.offset || (position === change.offset && !isEnd) ? position + delta : position;
+        return { start: shift(range.start, false), end: shift(range.end, true) };
+    }
+
+    if (change.offset <= range.start && changeEnd >= range.end) return null; // Replaced entirely
+
+    const start = range.start <= change.offset ? range.start : range.start >= changeEnd ? range.start + delta : change.offset;
+    const end = range.end >= changeEnd ? range.end + delta : range.end <= change.offset ? range.end : change.offset + change.text.length;
+    return end > start ? { start, end } : null;
+}
+
+/** Applies the changes of one edit in order (each offset is relative to the text after the previous one). */
+export function transformRangeAll(range: OffsetRange, changes: OffsetChange[]): OffsetRange | null {
+    let current: OffsetRange | null = range;
+    for (const change of changes) {
+        if (!current) break;
+        current = transformRange(current, change);
+    }
+    return current;
+}
+
+/**
+ * Finds a persisted region in the current text of its file: at its stored offsets if the text there
+ * is unchanged, otherwise at the occurrence of its text closest to where it was. Null if it is gone.
+ */
+export function relocateRange(text: string, range: OffsetRange, content: string): OffsetRange | null {
+    if (!content) return null;
+    if (text.substring(range.start, range.end) === content) return range;
+
+    let best = -1;
+    for (let index = text.indexOf(content); index !== -1; index = text.indexOf(content, index + 1)) {
+        if (best === -1 || Math.abs(index - range.start) < Math.abs(best - range.start)) best = index;
+    }
+    return best === -1 ? null : { start: best, end: best + content.length };
+}
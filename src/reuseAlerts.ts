@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PatternEngine } from './engine';
+
+export type ReuseAlertKind = 'duplicate' | 'cluster' | 'unstable';
+
+export interface EarlierVersion {
+    id: string; // Memory id
+    filePath: string;
+    timestamp: string;
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * A freshly saved chunk that resembles something already in the vault.
+ */
+export interface ReuseAlert {
+    id: string;
+    kind: ReuseAlertKind;
+    documentUri: string;
+    startLine: number; // 0-based, like the chunker
+    endLine: number;
+    content: string; // The new chunk (for diffs)
+    language: string;
+    message: string;
+    earlier: EarlierVersion;
+    suppressKey: string; // Pattern id, or the earlier memory id if it is not clustered
+}
+
+const SUPPRESSED_KEY = 'engram.reuseAlerts.suppressed';
+const SEVERITY: Record<ReuseAlertKind, number> = { unstable: 0, duplicate: 1, cluster: 2 };
+
+export function formatTimeAgo(timestamp: string, now: number = Date.now()): string {
+    const seconds = Math.floor((now - Date.parse(timestamp)) / 1000);
+    if (isNaN(seconds)) return 'a while ago';
+
+    const units: [number, string][] = [[7 * 86400, 'week'], [86400, 'day'], [3600, 'hour'], [60, 'minute']];
+    for (const [size, unit] of units) {
+        if (seconds >= size) {
+            const count = Math.floor(seconds / size);
+            return `${count} ${unit}${count > 1 ? 's' : ''} ago`;
+        }
+    }
+    return 'just now';
+}
+
+/**
+ * Turns `PatternEngine.store` results into reuse alerts: duplicates of code written elsewhere,
+ * chunks that join an existing pattern, and chunks that resemble an unstable pattern.
+ * Alerts are kept per document (for CodeLens) until its next save.
+ */
+export class ReuseAlertService {
+    private static instance: ReuseAlertService;
+    private context: vscode.ExtensionContext | null = null;
+    private alerts: Map<string, ReuseAlert[]> = new Map(); // document uri -> alerts
+    private notified: Set<string> = new Set(); // One notification per document / earlier version per session
+
+    private _onDidChangeAlerts = new vscode.EventEmitter<void>();
+    public readonly onDidChangeAlerts = this._onDidChangeAlerts.event;
+
+    private constructor() { }
+
+    public static getInstance(): ReuseAlertService {
+        if (!ReuseAlertService.instance) {
+            ReuseAlertService.instance = new ReuseAlertService();
+        }
+        return ReuseAlertService.instance;
+    }
+
+    public setContext(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    public isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('engram').get<boolean>('reuseAlerts.enabled', true);
+    }
+
+    public getAlerts(uri: vscode.Uri): ReuseAlert[] {
+        return this.alerts.get(uri.toString()) || [];
+    }
+
+    public getAlert(id: string): ReuseAlert | undefined {
+        for (const alerts of this.alerts.values()) {
+            const alert = alerts.find(a => a.id === id);
+            if (alert) return alert;
+        }
+        return undefined;
+    }
+
+    public clear(uri: vscode.Uri) {
+        if (this.alerts.delete(uri.toString())) this._onDidChangeAlerts.fire();
+    }
+
+    /**
+     * Replaces the document's alerts with the ones found in this save. Returns the alerts that
+     * have not been notified yet (most severe first).
+     */
+    public async update(document: vscode.TextDocument, results: any[]): Promise<ReuseAlert[]> {
+        if (!this.isEnabled()) return [];
+
+        const alerts: ReuseAlert[] = [];
+        for (const result of results) {
+            const alert = await this.toAlert(document, result);
+            if (alert && !this.isSuppressed(alert.suppressKey)) alerts.push(alert);
+        }
+        alerts.sort((a, b) => SEVERITY[a.kind] - SEVERITY[b.kind]);
+
+        this.alerts.set(document.uri.toString(), alerts);
+        this._onDidChangeAlerts.fire();
+
+        const fresh = alerts.filter(a => !this.notified.has(`${a.documentUri}|${a.earlier.id}`));
+        fresh.forEach(a => this.notified.add(`${a.documentUri}|${a.earlier.id}`));
+        return fresh;
+    }
+
+    public isSuppressed(key: string): boolean {
+        if (!this.context) return false;
+        return (this.context.globalState.get<string[]>(SUPPRESSED_KEY) || []).includes(key);
+    }
+
+    public async suppress(alert: ReuseAlert): Promise<void> {
+        if (this.context) {
+            const suppressed = this.context.globalState.get<string[]>(SUPPRESSED_KEY) || [];
+            if (!suppressed.includes(alert.suppressKey)) {
+                await this.context.globalState.update(SUPPRESSED_KEY, [...suppressed, alert.suppressKey]);
+            }
+        }
+        for (const [uri, alerts] of this.alerts) {
+            this.alerts.set(uri, alerts.filter(a => a.suppressKey !== alert.suppressKey));
+        }
+        this._onDidChangeAlerts.fire();
+    }
+
+    /** One alert per chunk: unstable > duplicate > joined a pattern. Matches in the same file are ignored. */
+    private async toAlert(document: vscode.TextDocument, result: any): Promise<ReuseAlert | null> {
+        const engine = PatternEngine.getInstance();
+        const base = {
+            documentUri: document.uri.toString(),
+            startLine: result.startLine || 0,
+            endLine: result.endLine || 0,
+            content: result.content || '',
+            language: result.language || document.languageId
+        };
+        const isElsewhere = (row: any) => !!row && !!row.filePath && path.resolve(row.filePath) !== path.resolve(document.uri.fsPath);
+        const suppressKeyFor = (memoryId: string) => {
+            const cluster = engine.getPatternForMemory(memoryId);
+            return cluster ? cluster.id : memoryId;
+        };
+
+        if (result.riskAlert) {
+            const earlier = await engine.getPatternDetails(result.riskAlert.id);
+            if (isElsewhere(earlier)) {
+                return {
+                    ...base,
+                    id: `unstable:${result.riskAlert.id}:${base.startLine}`,
+                    kind: 'unstable',
+                    message: `${result.riskAlert.message} Seen in ${vscode.workspace.asRelativePath(earlier.filePath)}.`,
+                    earlier: this.toEarlier(earlier, result.riskAlert.id),
+                    suppressKey: suppressKeyFor(result.riskAlert.id)
+                };
+            }
+        }
+
+        if (result.stored === false && result.similar && result.similar.length > 0) {
+            const earlier = result.similar[0];
+            if (isElsewhere(earlier)) {
+                return {
+                    ...base,
+                    id: `duplicate:${result.id}:${base.startLine}`,
+                    kind: 'duplicate',
+                    message: `You wrote this in ${vscode.workspace.asRelativePath(earlier.filePath)} ${formatTimeAgo(earlier.timestamp)}.`,
+                    earlier: this.toEarlier(earlier, result.id),
+                    suppressKey: suppressKeyFor(result.id)
+                };
+            }
+        }
+
+        if (result.matchedCluster) {
+            const cluster = result.matchedCluster;
+            const exemplarId = engine.getExemplarId(cluster);
+            const candidates = [exemplarId, ...cluster.memberIds].filter(id => id && id !== result.id);
+            for (const candidateId of Array.from(new Set(candidates)).slice(0, 5)) {
+                const earlier = await engine.getPatternDetails(candidateId);
+                if (!isElsewhere(earlier)) continue;
+                return {
+                    ...base,
+                    id: `cluster:${cluster.id}:${base.startLine}`,
+                    kind: 'cluster',
+                    message: `Matches your pattern "${cluster.label}" (${cluster.memberIds.length} versions, last in ${vscode.workspace.asRelativePath(earlier.filePath)} ${formatTimeAgo(earlier.timestamp)}).`,
+                    earlier: this.toEarlier(earlier, candidateId),
+                    suppressKey: cluster.id
+                };
+            }
+        }
+
+        return null;
+    }
+
+    private toEarlier(row: any, id: string): EarlierVersion {
+        return {
+            id,
+            filePath: row.filePath,
+            timestamp: row.timestamp || '',
+            startLine: row.startLine || 0,
+            endLine: row.endLine || 0
+        };
+    }
+}
@@ -1,4 +1,7 @@
 import { MistakeFingerprint } from './types';
+import { decayedWeight, DEFAULT_HALF_LIFE_DAYS, mistakeState } from './mistakeLifecycle';
+
+const MIN_RULE_WEIGHT = 1; // Below this the mistake has not recurred for several half-lives
 
 /**
  * Responsible for translating raw "Mistake Fingerprints" into natural language rules
@@ -19,14 +22,18 @@ export class RuleManager {
     /**
      * Converts a list of fingerprints into a markdown-formatted rule block.
      * @param fingerprints List of all detected mistakes
+     * @param halfLifeDays Decay of a mistake's weight while it does not recur
      */
-    public generateRules(fingerprints: MistakeFingerprint[]): string {
-        // 1. Filter for "High Frequency" mistakes (count > 3)
-        // or mistakes that are explicitly flagged as strict.
+    public generateRules(fingerprints: MistakeFingerprint[], halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS, now: number = Date.now()): string {
+        // 1. Filter for "High Frequency" mistakes (count > 3) that are still active
+        // (not dismissed, snoozed or learned) and recent enough to carry weight.
         const significantMistakes = fingerprints
-            .filter(f => f.count >= 3 && !f.ignored)
-            .sort((a, b) => b.count - a.count)
-            .slice(0, 5); // Top 5 most annoying mistakes
+            .filter(f => f.count >= 3 && mistakeState(f, now) === 'active')
+            .map(f => ({ fingerprint: f, weight: decayedWeight(f, now, halfLifeDays) }))
+            .filter(m => m.weight >= MIN_RULE_WEIGHT)
+            .sort((a, b) => b.weight - a.weight)
+            .slice(0, 5) // Top 5 most annoying mistakes
+            .map(m => m.fingerprint);
 
         if (significantMistakes.length === 0) {
             return "";
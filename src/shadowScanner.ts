@@ -55,7 +55,7 @@ export class ShadowScanner {
 
         for (const fp of fingerprints) {
             if (!fp.enforcementLevel || fp.enforcementLevel === 'silent') continue;
-            if (fp.ignored) continue;
+            if (!detector.isActive(fp)) continue;
             // Exclusion check
             if (fp.ignoredScopes && this.isIgnoredScope(document.fileName, fp.ignoredScopes)) continue;
 
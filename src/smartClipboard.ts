@@ -26,7 +26,7 @@ export class SmartClipboard {
         // Get Global Rules
         // In the future: filter rules by relevance to 'text'
         const detector = MistakeDetector.getInstance();
-        const rules = RuleManager.getInstance().generateRules(detector.getAllFingerprints());
+        const rules = RuleManager.getInstance().generateRules(detector.getAllFingerprints(), detector.getLifecycleSettings().halfLifeDays);
 
         if (!rules) {
             // No rules? Just copy normal text
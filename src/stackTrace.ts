@@ -0,0 +1,117 @@
+/**
+ * Stack trace parsing for failure linking: finds the files and lines an error points at in
+ * Node / V8, browser (Firefox / Safari), TypeScript compiler and Python output.
+ */
+
+export interface StackFrame {
+    filePath: string; // As written in the trace (file:// URLs decoded)
+    line: number; // 1-based
+    column?: number;
+    functionName?: string;
+    isLibrary: boolean; // node_modules, site-packages, runtime internals
+    isCompileError?: boolean; // A compiler diagnostic (tsc), not a frame of running code
+}
+
+const V8_FRAME = /^\s*at\s+(?:(.+?)\s+\()?(.+?):(\d+)(?::(\d+))?\)?\s*$/;
+const GECKO_FRAME = /^\s*([^@\s]*)@(.+?):(\d+):(\d+)\s*$/;
+const PYTHON_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+))?/;
+const TSC_PAREN = /^(.+?\.[cm]?[jt]sx?)\((\d+),(\d+)\):\s/; // src/a.ts(12,5): error TS2322
+const TSC_COLON = /^(.+?\.[cm]?[jt]sx?):(\d+):(\d+)\s+-\s+/; // src/a.ts:12:5 - error TS2322
+
+const LIBRARY_PATH = /(^|[\\/])(node_modules|site-packages|dist-packages)[\\/]|^node:|^internal[\\/]|^<|[\\/]lib[\\/]python\d/;
+
+function toFilePath(location: string): string {
+    if (!location.startsWith('file://')) return location;
+    try {
+        const pathname = decodeURIComponent(new URL(location).pathname);
+        return /^\/[A-Za-z]:\//.test(pathname) ? pathname.substring(1) : pathname; // file:///C:/x -> C:/x
+    } catch (e) {
+        return location;
+    }
+}
+
+function frame(location: string, line: string, column?: string, functionName?: string): StackFrame | null {
+    const filePath = toFilePath(location.trim());
+    if (!filePath || filePath === 'native' || filePath === '<anonymous>') return null;
+    return {
+        filePath,
+        line: parseInt(line, 10),
+        column: column ? parseInt(column, 10) : undefined,
+        functionName: functionName ? functionName.trim() : undefined,
+        isLibrary: LIBRARY_PATH.test(filePath)
+    };
+}
+
+/**
+ * Frames in the order they should be blamed: innermost (where the error was thrown) first.
+ * Python tracebacks list the most recent call last, so they are reversed.
+ */
+export function parseStackTrace(text: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+    const pythonFrames: StackFrame[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        let match: RegExpMatchArray | null;
+        let parsed: StackFrame | null = null;
+
+        if ((match = line.match(PYTHON_FRAME))) {
+            const pythonFrame = frame(match[1], match[2], undefined, match[3]);
+            if (pythonFrame) pythonFrames.push(pythonFrame);
+            continue;
+        }
+        if ((match = line.match(V8_FRAME))) parsed = frame(match[2], match[3], match[4], match[1]);
+        else if ((match = line.match(GECKO_FRAME))) parsed = frame(match[2], match[3], match[4], match[1]);
+        else if ((match = line.match(TSC_PAREN)) || (match = line.match(TSC_COLON))) {
+            parsed = frame(match[1], match[2], match[3]);
+            if (parsed) parsed.isCompileError = true;
+        }
+
+        if (parsed) frames.push(parsed);
+    }
+
+    return [...pythonFrames.reverse(), ...frames];
+}
+
+/** Frames in the user's own code, deduplicated by file and line. */
+export function userFrames(frames: StackFrame[]): StackFrame[] {
+    const seen = new Set<string>();
+    return frames.filter(f => {
+        const key = `${f.filePath}:${f.line}`;
+        if (f.isLibrary || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+const TEST_FILE = /(^|[\\/])(__tests__|tests?|spec)[\\/]|[._-](test|spec)\.[^\\/]+$|(^|[\\/])test_[^\\/]+\.py$|_test\.(py|go)$/;
+
+export function isTestFile(filePath: string): boolean {
+    return TEST_FILE.test(filePath);
+}
+
+/**
+ * Likely source files for a test file: "src/users.test.ts" -> "src/users.ts",
+ * "src/__tests__/users.ts" -> "src/users.ts", "tests/test_users.py" -> "users.py" (beside "tests/").
+ */
+export function subjectFilesForTest(testPath: string): string[] {
+    const normalized = testPath.replace(/\\/g, '/');
+    const dir = normalized.includes('/') ? normalized.substring(0, normalized.lastIndexOf('/')) : '';
+    const base = normalized.substring(normalized.lastIndexOf('/') + 1);
+
+    const subjectBase = base
+        .replace(/[._-](test|spec)(\.[^.]+)$/, '$2')
+        .replace(/^test_(.+\.py)$/, '$1')
+        .replace(/_test(\.(py|go))$/, '$1');
+
+    const dirs = [dir];
+    const parent = dir.replace(/(^|\/)(__tests__|tests?|spec)$/, '');
+    if (parent !== dir) {
+        dirs.push(parent);
+        if (!/(^|\/)src$/.test(parent)) dirs.push(parent ? `${parent}/src` : 'src');
+    }
+
+    const candidates = dirs
+        .map(d => (d ? `${d}/${subjectBase}` : subjectBase))
+        .filter(candidate => candidate !== normalized);
+    return Array.from(new Set(candidates)).map(c => (testPath.includes('\\') ? c.replace(/\//g, '\\') : c));
+}
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { TypeScriptChunker, TreeSitterChunker } from '../../chunker';
+
+suite('AST Chunker Test Suite', () => {
+
+    test('TypeScript: one chunk per function with doc comment and signature', () => {
+        const source = [
+            '// file header',
+            '',
+            '/** Redirects unauthenticated users. */',
+            'export function useAuthRedirect(user: User | null): void {',
+            "    if (!user) redirect('/login');",
+            '}',
+            '',
+            'export const add = (a: number, b: number) => {',
+            '    return a + b;',
+            '};'
+        ].join('\n');
+
+        const chunks = new TypeScriptChunker().chunk(source, 'auth.ts');
+        assert.strictEqual(chunks.length, 2);
+
+        assert.strictEqual(chunks[0].symbolName, 'useAuthRedirect');
+        assert.strictEqual(chunks[0].signature, 'export function useAuthRedirect(user: User | null): void');
+        assert.strictEqual(chunks[0].docComment, '/** Redirects unauthenticated users. */');
+        assert.strictEqual(chunks[0].startLine, 2);
+        assert.strictEqual(chunks[0].endLine, 5);
+
+        assert.strictEqual(chunks[1].symbolName, 'add');
+        assert.strictEqual(chunks[1].startLine, 7);
+        assert.strictEqual(chunks[1].endLine, 9);
+    });
+
+    test('TypeScript: methods without modifiers are found in large classes', () => {
+        const methods = Array.from({ length: 30 }, (_, i) => `    step${i}() {\n        return ${i};\n    }`).join('\n');
+        const source = `class Pipeline {\n${methods}\n}`;
+
+        const chunks = new TypeScriptChunker().chunk(source, 'pipeline.ts');
+        assert.strictEqual(chunks.length, 30);
+        assert.strictEqual(chunks[0].kind, 'method');
+        assert.strictEqual(chunks[0].symbolName, 'Pipeline.step0');
+        assert.strictEqual(chunks[0].startLine, 1);
+    });
+
+    test('Python: functions and docstrings via tree-sitter', async () => {
+        const source = [
+            'import os',
+            '',
+            'def load(path: str) -> str:',
+            '    """Reads a file."""',
+            '    return open(path).read()'
+        ].join('\n');
+
+        const chunks = await new TreeSitterChunker().chunk(source, 'io.py');
+        assert.strictEqual(chunks.length, 1);
+        assert.strictEqual(chunks[0].symbolName, 'load');
+        assert.strictEqual(chunks[0].signature, 'def load(path: str) -> str');
+        assert.strictEqual(chunks[0].docComment, '"""Reads a file."""');
+        assert.strictEqual(chunks[0].startLine, 2);
+        assert.strictEqual(chunks[0].endLine, 4);
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { bestWindowSimilarity, codeSimilarity, containsCode, countsAgainstStability } from '../../churn';
+
+const saved = [
+    'export function total(items: Item[]): number {',
+    '    let sum = 0;',
+    '    for (const item of items) {',
+    '        sum += item.price * item.quantity;',
+    '    }',
+    '    return sum;',
+    '}'
+].join('\n');
+
+suite('Churn Test Suite', () => {
+    test('finds code again after reformatting, but not after an edit', () => {
+        const reformatted = `import { Item } from './item';\n\n${saved.replace(/\n\s*/g, ' ')}\n`;
+        assert.ok(containsCode(reformatted, saved));
+        assert.ok(!containsCode(reformatted.replace('quantity', 'qty'), saved));
+        assert.ok(!containsCode('anything', ''));
+    });
+
+    test('scores renames and reformatting high and unrelated code low', () => {
+        const renamed = saved.replace(/\bsum\b/g, 'acc').replace(/\bitem\b/g, 'line');
+        const unrelated = 'export async function fetchUser(id: string) {\n    const res = await fetch(`/users/${id}`);\n    return res.json();\n}';
+
+        assert.strictEqual(codeSimilarity(saved, saved), 1);
+        assert.ok(codeSimilarity(saved, renamed) > 0.7, 'renamed');
+        assert.ok(codeSimilarity(saved, unrelated) < 0.4, 'unrelated');
+        assert.strictEqual(codeSimilarity(saved, ''), 0);
+    });
+
+    test('locates a changed snippet inside a larger file', () => {
+        const filler = Array.from({ length: 30 }, (_, i) => `const setting${i} = loadSetting('key${i}');`).join('\n');
+        const split = saved.replace('item.price * item.quantity', 'item.price *\n            item.quantity');
+        const file = `${filler}\n\n${split.replace(/\bsum\b/g, 'acc')}\n\n${filler}`;
+
+        assert.ok(bestWindowSimilarity(saved, file) > 0.7);
+        assert.ok(bestWindowSimilarity(saved, filler) < 0.3);
+        assert.strictEqual(bestWindowSimilarity(saved, ''), 0);
+    });
+
+    test('only reverts and deletions of AI code count against stability', () => {
+        assert.ok(countsAgainstStability('deleted', 'ai'));
+        assert.ok(countsAgainstStability('reverted', 'ai_candidate'));
+        assert.ok(!countsAgainstStability('deleted', 'human'));
+        assert.ok(!countsAgainstStability('moved', 'ai'));
+        assert.ok(!countsAgainstStability('refactored', 'ai'));
+    });
+});
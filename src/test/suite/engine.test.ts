@@ -69,6 +69,39 @@ suite('Engram Pattern Engine Test Suite', () => {
         assert.strictEqual(finalMatches[0].failureLog, 'Confirmed Failure', 'Failure log should be updated');
     });
 
+    test('Unlinking a compile error leaves the failure count alone', async () => {
+        const engine = PatternEngine.getInstance();
+        const stamp = Date.now();
+        const filePath = `/test/compile_${stamp}.ts`;
+        const content = [
+            `function parseConfig_${stamp}(raw: string) {`,
+            '    const trimmed = raw.trim();',
+            '    const value: number = JSON.parse(trimmed);',
+            '    const doubled = value * 2;',
+            '    return doubled;',
+            '}'
+        ].join('\n');
+
+        const [memory] = await engine.store({ content, filePath, languageId: 'typescript', workspaceName: 'TestWorkspace' });
+        await engine.updateMemory(memory.id, { failureCount: 3, isUnstable: true });
+
+        // A compiler diagnostic pinned to the memory's line: linked, but never counted
+        const failure = await engine.recordFailure({
+            type: 'process',
+            message: "Type 'string' is not assignable to type 'number'.",
+            filePath,
+            line: 3,
+            compileError: true
+        });
+        assert.strictEqual(failure.failure_type, 'compile');
+        assert.strictEqual(failure.related_memory_id, memory.id);
+
+        await engine.unlinkFailure(failure.id);
+        const after = await engine.getPatternDetails(memory.id);
+        assert.strictEqual(after.failureCount, 3, 'Unlinking must not undo a failure that was never counted');
+        assert.strictEqual(after.isUnstable, true);
+    });
+
     test('AI Intent Inference (Mock)', async () => {
         // This tests if the prompt field is correctly stored
         const engine = PatternEngine.getInstance();
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { editSimilarity, scoreExemplar, selectExemplar } from '../../exemplar';
+
+suite('Pattern Exemplar Test Suite', () => {
+    const now = Date.parse('2026-06-01T00:00:00.000Z');
+    const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+    test('editSimilarity compares line by line', () => {
+        const code = 'function a() {\n  return 1;\n}';
+        assert.strictEqual(editSimilarity(code, code), 1);
+        assert.strictEqual(editSimilarity(code, '  function a() {\n    return 1;\n  }'), 1, 'indentation is ignored');
+        assert.ok(Math.abs(editSimilarity(code, 'function a() {\n  return 2;\n}') - 2 / 3) < 1e-9);
+        assert.strictEqual(editSimilarity('a\nb', 'c\nd'), 0);
+    });
+
+    test('trust and stability outweigh recency and reuse', () => {
+        const trustedOld = { id: 'trusted', timestamp: daysAgo(365), isTrusted: true };
+        const unstableFresh = { id: 'unstable', timestamp: daysAgo(0), reuseCount: 15, isUnstable: true, failureCount: 3 };
+        const plain = { id: 'plain', timestamp: daysAgo(10) };
+
+        assert.strictEqual(selectExemplar([unstableFresh, plain, trustedOld], now), 'trusted');
+        assert.strictEqual(selectExemplar([unstableFresh, plain], now), 'plain');
+        assert.strictEqual(selectExemplar([], now), null);
+    });
+
+    test('AI responses kept as pasted beat heavily rewritten ones', () => {
+        const response = 'const x = 1;\nconst y = 2;\nexport { x, y };';
+        const kept = { id: 'kept', source: 'ai', timestamp: daysAgo(5), pastedResponse: response, finalEditedCode: response };
+        const rewritten = { id: 'rewritten', source: 'ai', timestamp: daysAgo(5), pastedResponse: response, finalEditedCode: 'let z = 3;' };
+
+        assert.ok(scoreExemplar(kept, now) > scoreExemplar(rewritten, now));
+        assert.strictEqual(selectExemplar([rewritten, kept], now), 'kept');
+    });
+});
@@ -5,6 +5,7 @@ import * as fs from 'fs';
 import { SnippetStore } from '../../snippetStore';
 import { SessionStore } from '../../sessionStore';
 import { MistakeDetector } from '../../mistakeDetector';
+import { EditTracker } from '../../tracker';
 
 suite('Engram Feature Test Suite', () => {
 
@@ -193,4 +194,52 @@ suite('Engram Feature Test Suite', () => {
         // assert.ok(card!.analysis!.includes('Fixed typoe'));
     });
 
+    test('Mistakes: reopening a file with an unfixed mistake is not a new sighting', async () => {
+        const detector = MistakeDetector.getInstance();
+        const hash = 'reopen-hash';
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (detector as any).fingerprintError = () => ({ hash, normalized: 'reopen' });
+
+        const uri = vscode.Uri.file(path.join(__dirname, 'reopen.ts')); // Never opened, like a closed file
+        const collection = vscode.languages.createDiagnosticCollection('engram-test');
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 10), 'reopen', vscode.DiagnosticSeverity.Error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const refresh = () => (detector as any).handleDiagnosticsChange({ uris: [uri] });
+
+        collection.set(uri, [diagnostic]);
+        await refresh();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const fingerprint = (detector as any).fingerprints.get(hash);
+        fingerprint.lastSeen -= 5000; // Past the count throttle
+        fingerprint.learnedAt = Date.now();
+        const { count, weight } = fingerprint;
+
+        collection.clear(); // Closing the file clears its diagnostics; the occurrence stays open
+        await refresh();
+        collection.set(uri, [diagnostic]); // Reopened, the diagnostics come back
+        await refresh();
+        collection.dispose();
+
+        assert.strictEqual(fingerprint.count, count);
+        assert.strictEqual(fingerprint.weight, weight);
+        assert.ok(fingerprint.learnedAt, 'Should not count as a recurrence of a learned mistake');
+        assert.strictEqual(detector.getOccurrences().filter(o => o.fingerprintId === hash).length, 1);
+    });
+
+    test('Provenance: edits to two regions back to back both reach their memories', async function () {
+        this.timeout(5000);
+        const tracker = EditTracker.getInstance();
+        const updates: Record<string, string> = {};
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (tracker as any).engine = { updateMemory: async (id: string, u: { finalEditedCode: string }) => { updates[id] = u.finalEditedCode; } };
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const schedule = (region: object) => (tracker as any).scheduleUpdate(region);
+        schedule({ id: 'conv-a', recordId: 'mem-a', lastContent: 'edited A' });
+        schedule({ id: 'conv-b', recordId: 'mem-b', lastContent: 'edited B' });
+
+        await new Promise(r => setTimeout(r, 2200));
+        assert.deepStrictEqual(updates, { 'mem-a': 'edited A', 'mem-b': 'edited B' });
+    });
+
 });
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { adaptFixByPatch, extractCode, fixSuccessRate } from '../../fixAdapter';
+import { MistakeFix } from '../../types';
+
+const before = [
+    'function load(id) {',
+    '    const user = db.find(id);',
+    '    return user.name;',
+    '}'
+].join('\n');
+
+const after = [
+    'function load(id) {',
+    '    const user = db.find(id);',
+    '    if (!user) return undefined;',
+    '    return user.name;',
+    '}'
+].join('\n');
+
+suite('Fix Adapter Test Suite', () => {
+    test('patches a past fix onto shifted, re-indented code with a changed context line', () => {
+        const current = [
+            'class Repo {',
+            '    // Loads a user',
+            '    load(id) {',
+            '        const user = db.find(id);',
+            '        return user.name;',
+            '    }',
+            '}'
+        ].join('\n');
+
+        const adapted = adaptFixByPatch(before, after, current);
+        assert.ok(adapted, 'patch should apply');
+        const lines = adapted!.split('\n');
+        assert.strictEqual(lines.length, 8);
+        assert.strictEqual(lines[4], '        if (!user) return undefined;', 'added line takes the indentation around it');
+        assert.strictEqual(lines[5], '        return user.name;', 'surrounding code is kept as it was');
+        assert.ok(!adapted!.endsWith('\n'));
+    });
+
+    test('returns null when the change does not fit', () => {
+        assert.strictEqual(adaptFixByPatch(before, after, 'const total = items.reduce((a, b) => a + b, 0);\nconsole.log(total);'), null);
+        assert.strictEqual(adaptFixByPatch(before, after, after), null, 'already fixed');
+    });
+
+    test('extracts code from LLM responses and counts settled applications', () => {
+        assert.strictEqual(extractCode('Here you go:\n```ts\nconst a = 1;\n```\nDone.'), 'const a = 1;');
+        assert.strictEqual(extractCode('const a = 1;\n\n'), 'const a = 1;');
+
+        const fix: MistakeFix = {
+            id: 'f', description: '', diff: '', timestamp: 0,
+            applications: [
+                { timestamp: 1, method: 'patch', filePath: 'a.ts', outcome: 'resolved' },
+                { timestamp: 2, method: 'llm', filePath: 'a.ts', outcome: 'unresolved' },
+                { timestamp: 3, method: 'patch', filePath: 'a.ts', outcome: 'rejected' },
+                { timestamp: 4, method: 'patch', filePath: 'a.ts', outcome: 'pending' }
+            ]
+        };
+        assert.deepStrictEqual(fixSuccessRate(fix), { applied: 2, resolved: 1 });
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { diffStats, fixSummary, unifiedDiff } from '../../fixDiff';
+
+const before = [
+    'function area(r) {',
+    '    const pi = 3.14;',
+    '    return pi * r * r',
+    '}'
+].join('\n');
+const after = [
+    'function area(r: number): number {',
+    '    const pi = Math.PI;',
+    '    return pi * r * r;',
+    '}'
+].join('\n');
+
+suite('Fix Diff Test Suite', () => {
+    test('writes a unified diff with hunk headers at the region position in the file', () => {
+        const diff = unifiedDiff('src/geometry.ts', before, after, 40, 42);
+
+        assert.deepStrictEqual(diff.split('\n').slice(0, 3), [
+            '--- a/src/geometry.ts',
+            '+++ b/src/geometry.ts',
+            '@@ -41,4 +43,4 @@'
+        ]);
+        assert.ok(diff.includes('\n-    const pi = 3.14;\n') && diff.includes('\n+    const pi = Math.PI;\n'));
+        assert.deepStrictEqual(diffStats(diff), { added: 3, removed: 3 });
+        assert.strictEqual(unifiedDiff('src/geometry.ts', before, before), '');
+    });
+
+    test('summarizes fixes by their first added line', () => {
+        const diff = unifiedDiff('q.sql', 'SELECT 1\n-- old comment\n', 'SELECT 1\n');
+        assert.deepStrictEqual(diffStats(diff), { added: 0, removed: 1 }, 'a removed "--" line is not a header');
+
+        assert.strictEqual(fixSummary({ id: 'a', description: '', diff: unifiedDiff('a.ts', before, after), before, after, timestamp: 0 }), 'function area(r: number): number {');
+        assert.strictEqual(fixSummary({ id: 'b', description: '', diff, before: 'x', after: 'y', timestamp: 0 }), 'Removed code');
+        assert.strictEqual(fixSummary({ id: 'c', description: '', diff: 'At line 5: Replaced "3 chars" with "foo"', timestamp: 0 }), 'At line 5: Replaced "3 chars" with "foo"');
+    });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { F, toSqlLiteral } from '../../lanceFilter';
+
+suite('LanceDB Filter Builder Test Suite', () => {
+    test('Escapes quotes so hostile ids cannot widen the filter', () => {
+        const filter = F.eq('id', "x' OR '1'='1");
+        assert.strictEqual(filter.toString(), "`id` = 'x'' OR ''1''=''1'");
+    });
+
+    test('Leaves backslashes alone (Windows paths) and quotes camelCase columns', () => {
+        const filter = F.and(F.eq('filePath', "C:\\src\\it's.ts"), F.gt('timestamp', '2026-01-01T00:00:00.000Z'));
+        assert.strictEqual(filter.toString(), "`filePath` = 'C:\\src\\it''s.ts' AND `timestamp` > '2026-01-01T00:00:00.000Z'");
+    });
+
+    test('Escapes backticks in column names', () => {
+        assert.strictEqual(F.isNotNull('a` = 1 OR `b').toString(), '`a`` = 1 OR ``b` IS NOT NULL');
+    });
+
+    test('Nests AND / OR / NOT with parentheses', () => {
+        const filter = F.and(
+            F.or(F.eq('source', 'ai'), F.eq('source', 'ai_candidate')),
+            F.not(F.in('id', ['a', "b'); DROP TABLE vectors; --"]))
+        );
+        assert.strictEqual(
+            filter.toString(),
+            "(`source` = 'ai' OR `source` = 'ai_candidate') AND NOT (`id` IN ('a', 'b''); DROP TABLE vectors; --'))"
+        );
+    });
+
+    test('Handles empty IN lists and rejects non-finite numbers', () => {
+        assert.strictEqual(F.in('id', []).toString(), 'FALSE');
+        assert.throws(() => F.gt('failureCount', NaN));
+        assert.strictEqual(toSqlLiteral([0.5, 1]), '[0.5, 1]');
+        assert.strictEqual(toSqlLiteral(true), 'TRUE');
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { LexicalIndex } from '../../lexicalIndex';
+
+suite('Lexical Index (BM25) Test Suite', () => {
+
+    test('Tokenizer keeps identifiers whole and splits camelCase / snake_case', () => {
+        const terms = LexicalIndex.tokenize('useAuthRedirect(parse_jwt_token)');
+        assert.ok(terms.includes('useauthredirect'));
+        assert.ok(terms.includes('auth'));
+        assert.ok(terms.includes('redirect'));
+        assert.ok(terms.includes('parse_jwt_token'));
+        assert.ok(terms.includes('jwt'));
+    });
+
+    test('Exact identifier ranks its document first', () => {
+        const index = new LexicalIndex();
+        index.add('a', { content: 'export function useAuthRedirect() { return redirect("/login"); }' });
+        index.add('b', { content: 'function redirectHome() { window.location = "/"; }' });
+        index.add('c', { summary: 'Formats a date for display' });
+
+        const hits = index.search('useAuthRedirect');
+        assert.strictEqual(hits[0].id, 'a');
+        assert.deepStrictEqual(hits[0].matchedFields, ['content']);
+    });
+
+    test('Matches error codes in prompts and reports the matched field', () => {
+        const index = new LexicalIndex();
+        index.add('a', { content: 'const x = 1;', prompt: 'fix TS2322 in the reducer' });
+        index.add('b', { content: 'const y = 2;' });
+
+        const hits = index.search('TS2322');
+        assert.strictEqual(hits.length, 1);
+        assert.deepStrictEqual(hits[0].matchedFields, ['prompt']);
+    });
+
+    test('Incremental update and removal', () => {
+        const index = new LexicalIndex();
+        index.add('a', { content: 'function legacyName() {}' });
+        index.add('a', { content: 'function renamedHelper() {}' });
+
+        assert.strictEqual(index.size, 1);
+        assert.strictEqual(index.search('legacyName').length, 0);
+        assert.strictEqual(index.search('renamedHelper')[0].id, 'a');
+
+        index.remove('a');
+        assert.strictEqual(index.size, 0);
+        assert.strictEqual(index.search('renamedHelper').length, 0);
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import {
+    MockLlmProvider,
+    OllamaLlmProvider,
+    OpenAICompatibleLlmProvider,
+    createLlmProvider,
+    estimateTokens,
+    fitToTokenBudget
+} from '../../llmProviders';
+
+suite('LLM Providers Test Suite', () => {
+    let originalFetch: any;
+
+    setup(() => {
+        originalFetch = global.fetch;
+    });
+
+    teardown(() => {
+        global.fetch = originalFetch;
+    });
+
+    test('createLlmProvider picks the backend and default endpoint', () => {
+        assert.strictEqual(createLlmProvider({ provider: 'ollama' }).id, 'ollama:http://localhost:11434');
+        assert.strictEqual(createLlmProvider({ provider: 'openai', endpoint: 'http://localhost:1234/v1/' }).id, 'openai:http://localhost:1234');
+        assert.ok(createLlmProvider({ provider: 'mock' }) instanceof MockLlmProvider);
+    });
+
+    test('fitToTokenBudget keeps the head and tail of long prompts', () => {
+        assert.strictEqual(fitToTokenBudget('short prompt', 100), 'short prompt');
+
+        const prompt = `Instructions\n${'x'.repeat(5000)}\nSummary:`;
+        const fitted = fitToTokenBudget(prompt, 100);
+        assert.ok(estimateTokens(fitted) <= 100);
+        assert.ok(fitted.startsWith('Instructions'));
+        assert.ok(fitted.endsWith('Summary:'));
+    });
+
+    test('MockLlmProvider is deterministic, streams and honours cancellation', async () => {
+        const provider = new MockLlmProvider(prompt => `echo ${prompt.length}`);
+        const chunks: string[] = [];
+
+        const text = await provider.generate('hello world', { model: 'm', onToken: c => chunks.push(c) });
+        assert.strictEqual(text, 'echo 11');
+        assert.strictEqual(chunks.join(''), text);
+        assert.strictEqual(await new MockLlmProvider().generate('a\nb', { model: 'm' }), await new MockLlmProvider().generate('a\nb', { model: 'm' }));
+
+        const controller = new AbortController();
+        controller.abort();
+        await assert.rejects(provider.generate('x', { model: 'm', signal: controller.signal }), (e: any) => e.name === 'AbortError');
+        assert.strictEqual(provider.calls.length, 2);
+
+        // Cancelling mid-stream stops the remaining chunks
+        const midStream = new AbortController();
+        const received: string[] = [];
+        const words = new MockLlmProvider(() => 'one two three four');
+        await assert.rejects(words.generate('x', {
+            model: 'm',
+            signal: midStream.signal,
+            onToken: c => { received.push(c); midStream.abort(); }
+        }), (e: any) => e.name === 'AbortError');
+        assert.deepStrictEqual(received, ['one ']);
+    });
+
+    test('Ollama and OpenAI-compatible providers send the model, budget and parse streams', async () => {
+        let captured: any = null;
+        global.fetch = async (url: any, options: any) => {
+            captured = { url, body: JSON.parse(options.body) };
+            return { ok: true, json: async () => ({ response: 'done' }) } as any;
+        };
+
+        const ollama = new OllamaLlmProvider('http://localhost:11434');
+        assert.strictEqual(await ollama.generate('p', { model: 'qwen', maxTokens: 50, temperature: 0.1 }), 'done');
+        assert.strictEqual(captured.url, 'http://localhost:11434/api/generate');
+        assert.deepStrictEqual(captured.body.options, { num_predict: 50, temperature: 0.1 });
+
+        global.fetch = async (url: any, options: any) => {
+            captured = { url, body: JSON.parse(options.body) };
+            return {
+                ok: true,
+                text: async () => 'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n'
+            } as any;
+        };
+
+        const chunks: string[] = [];
+        const openai = new OpenAICompatibleLlmProvider('http://localhost:8080');
+        assert.strictEqual(await openai.generate('p', { model: 'local', maxTokens: 20, onToken: c => chunks.push(c) }), 'Hello');
+        assert.deepStrictEqual(chunks, ['Hel', 'lo']);
+        assert.strictEqual(captured.url, 'http://localhost:8080/v1/chat/completions');
+        assert.strictEqual(captured.body.max_tokens, 20);
+        assert.strictEqual(captured.body.stream, true);
+
+        global.fetch = async () => ({ ok: false, status: 500 } as any);
+        await assert.rejects(ollama.generate('p', { model: 'qwen' }), /HTTP 500/);
+    });
+});
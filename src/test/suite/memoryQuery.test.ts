@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { parseMemoryQuery, buildWhereClause } from '../../memoryQuery';
+
+suite('Memory Query Filters Test Suite', () => {
+    const now = Date.parse('2026-01-31T00:00:00.000Z');
+
+    test('Parses inline filters and keeps the remaining text', () => {
+        const q = parseMemoryQuery('auth redirect lang:typescript source:ai since:30d -unstable scope:all', now);
+        assert.strictEqual(q.text, 'auth redirect');
+        assert.strictEqual(q.language, 'ts');
+        assert.strictEqual(q.source, 'ai');
+        assert.strictEqual(q.since, '2026-01-01T00:00:00.000Z');
+        assert.strictEqual(q.excludeUnstable, true);
+        assert.strictEqual(q.scope, 'all');
+    });
+
+    test('Unknown or invalid filters stay in the search text', () => {
+        const q = parseMemoryQuery('http://host source:robot since:never', now);
+        assert.strictEqual(q.text, 'http://host source:robot since:never');
+        assert.strictEqual(q.source, undefined);
+        assert.strictEqual(q.since, undefined);
+    });
+
+    test('Builds an escaped where clause', () => {
+        const where = buildWhereClause({ text: '', workspaceName: "it's' OR '1'='1", excludeUnstable: true });
+        assert.strictEqual(String(where), "`workspaceName` = 'it''s'' OR ''1''=''1' AND `isUnstable` = FALSE");
+        assert.strictEqual(buildWhereClause({ text: 'x' }), undefined);
+    });
+});
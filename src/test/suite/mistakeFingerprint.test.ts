@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { adoptLegacyFingerprint, diagnosticSignature, languageStats, legacyIndex, migrateFingerprints, normalizeMessage, NORMALIZATION_VERSION } from '../../mistakeFingerprint';
+import { MistakeFingerprint } from '../../types';
+
+function legacy(pattern: string, count: number, language = 'unknown'): MistakeFingerprint {
+    return { id: `old-${pattern}`, language, detectionMethod: 'diagnostic', pattern, count, lastSeen: count };
+}
+
+suite('Mistake Fingerprint Test Suite', () => {
+    test('masks numbers, paths and type arguments per source', () => {
+        assert.strictEqual(
+            normalizeMessage('ts', 'Expected 2 arguments, but got 3.'),
+            normalizeMessage('ts', 'Expected 1 arguments, but got 0.'));
+        assert.strictEqual(
+            normalizeMessage('ts', "Cannot find module '../lib/util' or its corresponding type declarations."),
+            "Cannot find module '...' or its corresponding type declarations.");
+        assert.strictEqual(normalizeMessage('ts', 'Argument of type Map<string, Array<number>> is not valid'), 'Argument of type Map<...> is not valid');
+        assert.strictEqual(
+            normalizeMessage('eslint', 'Expected indentation of 4 spaces but found 2.'),
+            'Expected indentation of # spaces but found #.');
+        assert.strictEqual(
+            normalizeMessage('Pylance', 'Argument of type list[dict[str, int]] cannot be assigned to parameter "items"'),
+            'Argument of type list[...] cannot be assigned to parameter "..."');
+        assert.strictEqual(
+            normalizeMessage('rust-analyzer', "mismatched types: expected `Vec<i32>`, found `&'a str`"),
+            'mismatched types: expected `...`, found `...`');
+        assert.strictEqual(normalizeMessage('gcc', 'no such file /home/me/src/app.c at line 12'), 'no such file <path> at line #');
+    });
+
+    test('keeps the source and code in the signature', () => {
+        const a = diagnosticSignature('ts', '2554', 'Expected 2 arguments, but got 3.');
+        assert.strictEqual(a.normalized, 'ts:2554:Expected # arguments, but got #.');
+        assert.strictEqual(a.hash, diagnosticSignature('ts', '2554', 'Expected 4 arguments, but got 1.').hash);
+        assert.notStrictEqual(a.hash, diagnosticSignature('eslint', '2554', 'Expected 2 arguments, but got 3.').hash);
+    });
+
+    test('migrates legacy fingerprints and merges the ones that collapse', () => {
+        const current = diagnosticSignature('ts', '2554', 'Expected 1 arguments, but got 0.');
+        const list: MistakeFingerprint[] = [
+            legacy('ts:2554:Expected 2 arguments, but got 3.', 2),
+            { ...legacy('ts:2554:Expected 1 arguments, but got 2.', 3), ignored: true, fixes: [{ id: 'f', description: '', diff: '', timestamp: 5, language: 'typescriptreact' }] },
+            { ...legacy(current.normalized, 4, 'typescript'), id: current.hash, normalization: NORMALIZATION_VERSION },
+            legacy('ts:2304:Cannot find name \'...\'.', 1),
+            { id: 'rule', language: 'all', detectionMethod: 'regex', pattern: '/console\\.log/', count: 0, lastSeen: 0 }
+        ];
+
+        const { fingerprints, merged, migrated } = migrateFingerprints(list);
+        assert.strictEqual(migrated, 3);
+        assert.strictEqual(merged, 2);
+        assert.strictEqual(fingerprints.length, 3);
+
+        const argCount = fingerprints.find(f => f.id === current.hash)!;
+        assert.strictEqual(argCount.count, 9);
+        assert.strictEqual(argCount.language, 'typescript');
+        assert.strictEqual(argCount.ignored, true);
+        assert.strictEqual(argCount.fixes!.length, 1);
+
+        const cannotFind = fingerprints.find(f => f.pattern.startsWith('ts:2304'))!;
+        assert.strictEqual(cannotFind.normalization, NORMALIZATION_VERSION);
+        assert.strictEqual(cannotFind.source, 'ts');
+        assert.ok(fingerprints.some(f => f.id === 'rule'), 'non-diagnostic rules are kept as they are');
+
+        assert.strictEqual(migrateFingerprints(fingerprints).migrated, 0, 'runs once');
+    });
+
+    test('folds legacy fingerprints stored with an object code into the first new one that matches', () => {
+        const { fingerprints } = migrateFingerprints([
+            legacy('eslint:[object Object]:Expected indentation of 4 spaces but found 2.', 3, 'javascript'),
+            legacy('eslint:[object Object]:Expected indentation of 8 spaces but found 6.', 2, 'javascript'),
+            legacy('Pylance:[object Object]:"foo" is not defined', 1, 'python')
+        ]);
+        assert.strictEqual(fingerprints.length, 2, 'legacy records of one message merge with each other');
+
+        const index = legacyIndex(fingerprints);
+        assert.strictEqual(index.size, 2);
+
+        const eslint = diagnosticSignature('eslint', 'indent', 'Expected indentation of 2 spaces but found 0.');
+        assert.ok(!fingerprints.some(f => f.id === eslint.hash), 'the re-keyed hash never matches');
+
+        const fresh: MistakeFingerprint = { id: eslint.hash, language: 'javascript', detectionMethod: 'diagnostic', pattern: eslint.normalized, count: 1, lastSeen: 100, fixes: [] };
+        const adopted = adoptLegacyFingerprint(index, fresh, 'eslint', 'Expected indentation of 2 spaces but found 0.');
+        assert.ok(adopted && adopted.pattern.startsWith('eslint:[object Object]:'));
+        assert.strictEqual(fresh.count, 6);
+        assert.strictEqual(fresh.id, eslint.hash);
+
+        assert.strictEqual(adoptLegacyFingerprint(index, fresh, 'eslint', 'Expected indentation of 2 spaces but found 0.'), undefined, 'adopted once');
+        assert.strictEqual(adoptLegacyFingerprint(index, fresh, 'pyright', '"foo" is not defined'), undefined, 'the source must match');
+        assert.strictEqual(index.size, 1);
+    });
+
+    test('aggregates mistakes per language', () => {
+        const stats = languageStats([legacy('a', 2, 'python'), legacy('b', 5, 'typescript'), { ...legacy('c', 1, 'python'), fixes: [{ id: 'f', description: '', diff: '', timestamp: 0 }] }]);
+        assert.deepStrictEqual(stats, [
+            { language: 'typescript', mistakes: 1, occurrences: 5, fixed: 0 },
+            { language: 'python', mistakes: 2, occurrences: 3, fixed: 1 }
+        ]);
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { computeInsights, dayKey, median, pruneOccurrences } from '../../mistakeInsights';
+import { MistakeOccurrence } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 30, 12).getTime();
+
+function occurrence(fingerprintId: string, daysAgo: number, filePath = '/src/a.ts', fixedAfterMinutes?: number, language = 'typescript'): MistakeOccurrence {
+    const timestamp = NOW - daysAgo * DAY;
+    return {
+        fingerprintId,
+        timestamp,
+        filePath,
+        language,
+        range: { startLine: daysAgo, endLine: daysAgo },
+        resolvedAt: fixedAfterMinutes === undefined ? undefined : timestamp + fixedAfterMinutes * 60000
+    };
+}
+
+suite('Mistake Insights Test Suite', () => {
+    test('prunes by age, then by count', () => {
+        const log = [occurrence('a', 200), occurrence('a', 10), occurrence('b', 5), occurrence('c', 1)];
+        assert.deepStrictEqual(pruneOccurrences(log, NOW, 180, 10).map(o => o.fingerprintId), ['a', 'b', 'c']);
+        assert.deepStrictEqual(pruneOccurrences(log, NOW, 180, 2).map(o => o.fingerprintId), ['b', 'c']);
+    });
+
+    test('computes frequency, time to fix, top files and trends', () => {
+        const log = [
+            occurrence('a', 20, '/src/a.ts', 10),
+            occurrence('a', 18, '/src/a.ts', 30),
+            occurrence('a', 2, '/src/b.ts', 5),
+            occurrence('b', 3, '/src/a.py', undefined, 'python'),
+            occurrence('b', 1, '/src/a.py', 60, 'python'),
+            occurrence('c', 45, '/src/old.ts', 1) // Outside the window
+        ];
+        const insights = computeInsights(log, NOW, { windowDays: 30, learnedAfterDays: 30, top: 10 });
+
+        assert.strictEqual(insights.total, 5);
+        assert.strictEqual(insights.distinct, 2);
+        assert.strictEqual(insights.daily.length, 30);
+        assert.strictEqual(insights.daily[29].day, dayKey(NOW));
+        assert.strictEqual(insights.daily.reduce((sum, d) => sum + d.count, 0), 5);
+
+        assert.strictEqual(insights.resolved, 4);
+        assert.strictEqual(insights.medianTimeToFixMs, 20 * 60000);
+
+        assert.deepStrictEqual(insights.topFiles[0], { filePath: '/src/a.ts', count: 2, line: 18 });
+        assert.deepStrictEqual(insights.topLanguages, [{ language: 'typescript', count: 3 }, { language: 'python', count: 2 }]);
+        assert.deepStrictEqual(insights.trends, [
+            { fingerprintId: 'a', recent: 1, previous: 2 },
+            { fingerprintId: 'b', recent: 2, previous: 0 }
+        ]);
+    });
+
+    test('lists recurring mistakes that were fixed and stopped appearing as learned', () => {
+        const log = [
+            occurrence('learned', 90, '/a.ts', 5), occurrence('learned', 60, '/a.ts', 5),
+            occurrence('once', 90, '/a.ts', 5), // Never recurred
+            occurrence('recent', 90, '/a.ts', 5), occurrence('recent', 3, '/a.ts', 5),
+            occurrence('open', 90, '/a.ts', 5), occurrence('open', 50, '/a.ts') // Still unfixed
+        ];
+        const insights = computeInsights(log, NOW, { windowDays: 30, learnedAfterDays: 30, top: 10 });
+        assert.deepStrictEqual(insights.learned, [{ fingerprintId: 'learned', occurrences: 2, lastSeen: NOW - 60 * DAY }]);
+        assert.strictEqual(median([]), null);
+        assert.strictEqual(median([3, 1, 2]), 2);
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { decayedWeight, mistakeState, recordRecurrence, recordSighting, shouldGraduate } from '../../mistakeLifecycle';
+import { RuleManager } from '../../ruleManager';
+import { MistakeFingerprint } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1000 * DAY;
+
+function fingerprint(pattern: string, count: number, lastSeenDaysAgo: number, extra: Partial<MistakeFingerprint> = {}): MistakeFingerprint {
+    return { id: pattern, language: 'typescript', detectionMethod: 'diagnostic', pattern: `ts:1:${pattern}`, count, lastSeen: NOW - lastSeenDaysAgo * DAY, ...extra };
+}
+
+suite('Mistake Lifecycle Test Suite', () => {
+    test('decays weight by half-life and adds recurrences on top', () => {
+        const legacy = fingerprint('a', 8, 14);
+        assert.strictEqual(decayedWeight(legacy, NOW, 14), 4, 'legacy fingerprints decay from their count');
+        assert.strictEqual(decayedWeight(legacy, NOW, 7), 2);
+
+        recordRecurrence(legacy, NOW, 14);
+        assert.strictEqual(legacy.weight, 5);
+        assert.strictEqual(decayedWeight(legacy, NOW + 14 * DAY, 14), 2.5);
+    });
+
+    test('adds weight once per appearance, decayed from the previous sighting', () => {
+        const legacy = fingerprint('a', 8, 14);
+        assert.deepStrictEqual(recordSighting(legacy, true, NOW, 14, 1000), { counted: true, relapsed: false });
+        assert.strictEqual(legacy.weight, 5, 'decayed over the 14 days since it was last seen');
+        assert.strictEqual(legacy.count, 9);
+        assert.strictEqual(legacy.lastSeen, NOW);
+
+        // Further refreshes while the error stays put
+        assert.deepStrictEqual(recordSighting(legacy, false, NOW + 500, 14, 1000), { counted: false, relapsed: false });
+        recordSighting(legacy, false, NOW + 5000, 14, 1000);
+        assert.strictEqual(legacy.weight, 5);
+        assert.strictEqual(legacy.count, 10);
+
+        recordSighting(legacy, true, NOW + 14 * DAY, 14, 1000);
+        assert.strictEqual(legacy.weight, 3.5);
+    });
+
+    test('graduates quiet recurring mistakes and brings them back when they recur', () => {
+        const quiet = fingerprint('quiet', 3, 31);
+        assert.ok(shouldGraduate(quiet, NOW, 30));
+        assert.ok(!shouldGraduate(fingerprint('recent', 3, 10), NOW, 30));
+        assert.ok(!shouldGraduate(fingerprint('once', 1, 90), NOW, 30), 'never recurred');
+        assert.ok(!shouldGraduate(fingerprint('dismissed', 3, 90, { ignored: true }), NOW, 30));
+
+        quiet.learnedAt = NOW;
+        assert.strictEqual(mistakeState(quiet, NOW), 'learned');
+        assert.ok(!shouldGraduate(quiet, NOW, 30), 'already learned');
+
+        assert.strictEqual(recordRecurrence(quiet, NOW + DAY, 14), true, 'relapse');
+        assert.strictEqual(mistakeState(quiet, NOW + DAY), 'active');
+        assert.strictEqual(recordRecurrence(quiet, NOW + 2 * DAY, 14), false);
+    });
+
+    test('snoozes until the given time', () => {
+        const snoozed = fingerprint('s', 3, 0, { snoozedUntil: NOW + DAY });
+        assert.strictEqual(mistakeState(snoozed, NOW), 'snoozed');
+        assert.strictEqual(mistakeState(snoozed, NOW + 2 * DAY), 'active');
+        assert.strictEqual(mistakeState({ ...snoozed, ignored: true }, NOW), 'ignored');
+    });
+
+    test('injects only active mistakes that still carry weight, heaviest first', () => {
+        const rules = RuleManager.getInstance().generateRules([
+            fingerprint('old but frequent', 50, 200),
+            fingerprint('recent', 3, 1),
+            fingerprint('heavier', 6, 1),
+            fingerprint('snoozed', 9, 1, { snoozedUntil: NOW + DAY }),
+            fingerprint('learned', 9, 1, { learnedAt: NOW })
+        ], 14, NOW);
+
+        assert.ok(rules.indexOf('heavier') !== -1 && rules.indexOf('heavier') < rules.indexOf('recent'));
+        assert.ok(!rules.includes('old but frequent'));
+        assert.ok(!rules.includes('snoozed'));
+        assert.ok(!rules.includes('learned'));
+        assert.strictEqual(RuleManager.getInstance().generateRules([fingerprint('learned', 9, 1, { learnedAt: NOW })], 14, NOW), '');
+    });
+});
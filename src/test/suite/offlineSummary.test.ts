@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { extractDocComment, extractImports, extractiveSummary, splitIdentifier } from '../../offlineSummary';
+
+suite('Offline Summary Test Suite', () => {
+    test('splitIdentifier handles camelCase, PascalCase, acronyms and snake_case', () => {
+        assert.deepStrictEqual(splitIdentifier('fetchUserProfile'), ['fetch', 'user', 'profile']);
+        assert.deepStrictEqual(splitIdentifier('parseHTTPResponse'), ['parse', 'http', 'response']);
+        assert.deepStrictEqual(splitIdentifier('load_config_v2'), ['load', 'config', 'v2']);
+    });
+
+    test('extracts doc comments and imports', () => {
+        assert.strictEqual(extractDocComment('/**\n * Refreshes the session token. Retries once.\n * @param id user\n */\nfunction a() {}'), 'Refreshes the session token.');
+        assert.strictEqual(extractDocComment('def load(path):\n    """Load the YAML config from disk."""\n    return 1'), 'Load the YAML config from disk.');
+        assert.strictEqual(extractDocComment('function a() {}'), '');
+
+        const imports = extractImports("import axios from 'axios';\nimport { x } from '@scope/pkg/sub';\nconst fs = require('fs');\nimport { y } from './utils/auth';");
+        assert.deepStrictEqual(imports, ['axios', '@scope/pkg', 'auth', 'fs']);
+    });
+
+    test('extractiveSummary is deterministic and uses symbol, signature and identifiers', () => {
+        const input = {
+            content: "async function fetchUserProfile(userId: string, token: string) {\n  const response = await axios.get(`/users/${userId}`, { headers: { token } });\n  return response.data.profile;\n}",
+            symbolName: 'fetchUserProfile',
+            signature: '(userId: string, token: string)',
+            language: 'typescript'
+        };
+
+        const first = extractiveSummary(input);
+        assert.deepStrictEqual(extractiveSummary(input), first);
+        assert.ok(first.summary.startsWith('`fetchUserProfile`: fetch user profile; takes userId, token'), first.summary);
+        assert.ok(first.patternDescription.startsWith('Code to fetch user profile'), first.patternDescription);
+        assert.ok(first.patternDescription.includes('token'), first.patternDescription);
+    });
+
+    test('extractiveSummary still describes anonymous snippets', () => {
+        const result = extractiveSummary({ content: 'retryCount = retryCount + 1\nif retryCount > maxRetries:\n    raise TimeoutError()', language: 'python' });
+        assert.ok(result.summary.startsWith('python snippet'), result.summary);
+        assert.ok(result.patternDescription.includes('retry'), result.patternDescription);
+    });
+});
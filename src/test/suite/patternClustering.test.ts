@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { agglomerativeCluster, matchGroupsToClusters, diffMemberships } from '../../patternClustering';
+
+suite('Pattern Clustering Test Suite', () => {
+    const sorted = (groups: string[][]) => groups.map(g => [...g].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+
+    test('Groups near-duplicate vectors and keeps distant ones apart', () => {
+        const groups = agglomerativeCluster([
+            { id: 'a1', vector: [1, 0, 0] },
+            { id: 'a2', vector: [0.98, 0.05, 0] },
+            { id: 'b1', vector: [0, 1, 0] },
+            { id: 'b2', vector: [0.02, 0.97, 0.05] },
+            { id: 'c1', vector: [0, 0, 1] }
+        ], 0.15);
+
+        assert.deepStrictEqual(sorted(groups), [['a1', 'a2'], ['b1', 'b2'], ['c1']]);
+    });
+
+    test('Handles empty, single and identical inputs', () => {
+        assert.deepStrictEqual(agglomerativeCluster([], 0.15), []);
+        assert.deepStrictEqual(agglomerativeCluster([{ id: 'x', vector: [1, 0] }], 0.15), [['x']]);
+        const same = agglomerativeCluster(['p', 'q', 'r'].map(id => ({ id, vector: [0.5, 0.5] })), 0.15);
+        assert.deepStrictEqual(sorted(same), [['p', 'q', 'r']]);
+    });
+
+    test('Keeps cluster ids stable and reports moved memories', () => {
+        // Old: one heterogeneous cluster and a near-duplicate of half of it
+        const before = [
+            { id: 'old-1', label: 'mixed', memberIds: ['a1', 'a2', 'b1'] },
+            { id: 'old-2', label: 'dup', memberIds: ['b2'] }
+        ];
+        const groups = [['a1', 'a2'], ['b1', 'b2']];
+
+        const ids = matchGroupsToClusters(groups, before);
+        assert.deepStrictEqual(ids, ['old-1', 'old-2']);
+
+        const after = [
+            { id: 'old-1', label: 'mixed', memberIds: ['a1', 'a2'] },
+            { id: 'old-2', label: 'b pattern', memberIds: ['b1', 'b2'] }
+        ];
+        const changes = diffMemberships(before, after, '2026-01-01T00:00:00.000Z');
+        assert.deepStrictEqual(changes.map(c => [c.memoryId, c.fromClusterId, c.toClusterId]), [['b1', 'old-1', 'old-2']]);
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { relocateRange, transformRange, transformRangeAll } from '../../provenance';
+
+// Region "BBBB" at [4, 8) in "aaaaBBBBcccc"
+const region = { start: 4, end: 8 };
+
+function apply(text: string, change: { offset: number, length: number, text: string }): string {
+    return text.substring(0, change.offset) + change.text + text.substring(change.offset + change.length);
+}
+
+suite('Provenance Test Suite', () => {
+    test('shifts a region for edits before it and ignores edits after it', () => {
+        assert.deepStrictEqual(transformRange(region, { offset: 0, length: 0, text: 'xx' }), { start: 6, end: 10 });
+        assert.deepStrictEqual(transformRange(region, { offset: 1, length: 2, text: '' }), { start: 2, end: 6 });
+        assert.deepStrictEqual(transformRange(region, { offset: 9, length: 2, text: 'zzzz' }), region);
+    });
+
+    test('keeps typing at the edges outside and edits inside within the region', () => {
+        assert.deepStrictEqual(transformRange(region, { offset: 4, length: 0, text: 'x' }), { start: 5, end: 9 }, 'insert at start');
+        assert.deepStrictEqual(transformRange(region, { offset: 8, length: 0, text: 'x' }), region, 'insert at end');
+        assert.deepStrictEqual(transformRange(region, { offset: 5, length: 2, text: 'xyz' }), { start: 4, end: 9 }, 'edit inside');
+        assert.deepStrictEqual(transformRange(region, { offset: 2, length: 4, text: 'Q' }), { start: 2, end: 5 }, 'replace across start');
+        assert.deepStrictEqual(transformRange(region, { offset: 6, length: 4, text: 'Q' }), { start: 4, end: 7 }, 'replace across end');
+        assert.strictEqual(transformRange(region, { offset: 3, length: 6, text: 'Q' }), null, 'replaced entirely');
+    });
+
+    test('follows the region text through a sequence of edits', () => {
+        let text = 'aaaaBBBBcccc';
+        const changes = [
+            { offset: 10, length: 1, text: '' }, // After (applied first, like VS Code's descending multi-cursor edits)
+            { offset: 6, length: 0, text: '--' }, // Inside
+            { offset: 0, length: 2, text: 'zzz' } // Before
+        ];
+        changes.forEach(change => text = apply(text, change));
+
+        const moved = transformRangeAll(region, changes)!;
+        assert.strictEqual(text.substring(moved.start, moved.end), 'BB--BB');
+    });
+
+    test('relocates persisted regions in a changed file', () => {
+        assert.deepStrictEqual(relocateRange('aaaaBBBBcccc', region, 'BBBB'), region);
+        assert.deepStrictEqual(relocateRange('new line\naaaaBBBBcccc', region, 'BBBB'), { start: 13, end: 17 });
+        assert.deepStrictEqual(relocateRange('BBBB..........BBBB', { start: 12, end: 16 }, 'BBBB'), { start: 14, end: 18 }, 'closest occurrence');
+        assert.strictEqual(relocateRange('aaaacccc', region, 'BBBB'), null);
+    });
+});
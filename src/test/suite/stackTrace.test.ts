@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { parseStackTrace, userFrames } from '../../stackTrace';
+
+suite('Stack Trace Test Suite', () => {
+    test('parses Node / V8 traces innermost first and flags library frames', () => {
+        const trace = [
+            "TypeError: Cannot read properties of undefined (reading 'id')",
+            '    at getUser (/work/app/src/users.ts:42:17)',
+            '    at async Promise.all (index 0)',
+            '    at Object.<anonymous> (file:///work/app/src/main.js:7:3)',
+            '    at Module._compile (node:internal/modules/cjs/loader:1105:14)',
+            '    at run (/work/app/node_modules/runner/index.js:10:5)'
+        ].join('\n');
+
+        const frames = parseStackTrace(trace);
+        assert.deepStrictEqual(frames.map(f => [f.filePath, f.line, f.isLibrary]), [
+            ['/work/app/src/users.ts', 42, false],
+            ['/work/app/src/main.js', 7, false],
+            ['node:internal/modules/cjs/loader', 1105, true],
+            ['/work/app/node_modules/runner/index.js', 10, true]
+        ]);
+        assert.strictEqual(frames[0].functionName, 'getUser');
+        assert.strictEqual(userFrames(frames).length, 2);
+    });
+
+    test('parses Python tracebacks (most recent call last)', () => {
+        const trace = [
+            'Traceback (most recent call last):',
+            '  File "/work/app/main.py", line 10, in <module>',
+            '    run()',
+            '  File "/usr/lib/python3.11/site-packages/click/core.py", line 1157, in __call__',
+            '  File "/work/app/jobs.py", line 27, in run',
+            "    raise KeyError('job')",
+            "KeyError: 'job'"
+        ].join('\n');
+
+        const frames = parseStackTrace(trace);
+        assert.deepStrictEqual(userFrames(frames).map(f => [f.filePath, f.line, f.functionName]), [
+            ['/work/app/jobs.py', 27, 'run'],
+            ['/work/app/main.py', 10, '<module>']
+        ]);
+    });
+
+    test('parses TypeScript compiler and browser locations', () => {
+        const frames = parseStackTrace([
+            "src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+            "src/db.ts:3:1 - error TS2304: Cannot find name 'pool'.",
+            'handleClick@http://localhost:3000/static/js/main.js:120:9'
+        ].join('\n'));
+
+        assert.deepStrictEqual(frames.map(f => [f.filePath, f.line, f.column]), [
+            ['src/api.ts', 12, 5],
+            ['src/db.ts', 3, 1],
+            ['http://localhost:3000/static/js/main.js', 120, 9]
+        ]);
+        assert.deepStrictEqual(frames.map(f => !!f.isCompileError), [true, true, false], 'compiler diagnostics are not frames of running code');
+        assert.deepStrictEqual(parseStackTrace('Error: something went wrong'), []);
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { parseTestReport } from '../../testReports';
+import { isTestFile, subjectFilesForTest } from '../../stackTrace';
+
+suite('Test Reports Test Suite', () => {
+    test('parses Jest / Vitest JSON, including files that failed to run', () => {
+        const report = JSON.stringify({
+            numFailedTests: 1,
+            testResults: [
+                {
+                    name: '/work/app/src/users.test.ts',
+                    status: 'failed',
+                    assertionResults: [
+                        { ancestorTitles: ['users'], title: 'loads a user', fullName: 'users loads a user', status: 'passed', failureMessages: [] },
+                        { ancestorTitles: ['users'], title: 'rejects bad ids', status: 'failed', location: { line: 12, column: 3 }, failureMessages: ['\u001b[31mError: expected 404\u001b[39m\n    at getUser (/work/app/src/users.ts:42:17)'] },
+                        { ancestorTitles: [], title: 'later', status: 'pending', failureMessages: [] }
+                    ]
+                },
+                { name: '/work/app/src/broken.test.ts', status: 'failed', message: "Cannot find module './missing'", assertionResults: [] }
+            ]
+        });
+
+        const results = parseTestReport(report)!;
+        assert.deepStrictEqual(results.map(r => [r.name, r.status, r.line]), [
+            ['users loads a user', 'passed', undefined],
+            ['users rejects bad ids', 'failed', 12],
+            ['later', 'skipped', undefined],
+            ['(test file failed to run)', 'failed', undefined]
+        ]);
+        assert.strictEqual(results[1].id, '/work/app/src/users.test.ts::users rejects bad ids');
+        assert.ok(results[1].message!.startsWith('Error: expected 404\n'), 'ANSI colors are stripped');
+    });
+
+    test('parses Mocha and pytest JSON reports', () => {
+        const mocha = parseTestReport(JSON.stringify({
+            stats: { tests: 2, passes: 1, failures: 1 },
+            tests: [
+                { title: 'adds', fullTitle: 'math adds', file: 'test/math.js', err: {} },
+                { title: 'divides', fullTitle: 'math divides', file: 'test/math.js', err: { message: 'expected 2', stack: 'AssertionError: expected 2\n    at lib/math.js:9:11' } }
+            ],
+            passes: [{ fullTitle: 'math adds', file: 'test/math.js' }],
+            failures: [{ fullTitle: 'math divides', file: 'test/math.js' }]
+        }))!;
+        assert.deepStrictEqual(mocha.map(r => [r.name, r.status]), [['math adds', 'passed'], ['math divides', 'failed']]);
+        assert.ok(mocha[1].message!.includes('lib/math.js:9:11'));
+
+        const pytest = parseTestReport(JSON.stringify({
+            tests: [
+                { nodeid: 'tests/test_jobs.py::test_run', lineno: 4, outcome: 'failed', call: { outcome: 'failed', crash: { message: "KeyError: 'job'" }, longrepr: 'jobs.py:27: KeyError' } },
+                { nodeid: 'tests/test_jobs.py::TestQueue::test_empty', lineno: 10, outcome: 'passed', call: { outcome: 'passed' } }
+            ]
+        }))!;
+        assert.deepStrictEqual(pytest.map(r => [r.file, r.name, r.status, r.line]), [
+            ['tests/test_jobs.py', 'test_run', 'failed', 5],
+            ['tests/test_jobs.py', 'TestQueue::test_empty', 'passed', 11]
+        ]);
+        assert.strictEqual(pytest[0].message, "KeyError: 'job'\njobs.py:27: KeyError");
+    });
+
+    test('parses JUnit XML and ignores unrelated files', () => {
+        const xml = [
+            '<?xml version="1.0" encoding="utf-8"?>',
+            '<testsuites><testsuite name="pytest" tests="3">',
+            '<testcase classname="tests.test_jobs" name="test_run" file="tests/test_jobs.py" line="4">',
+            '<failure message="KeyError: &apos;job&apos;"><![CDATA[File "jobs.py", line 27, in run]]></failure>',
+            '</testcase>',
+            '<testcase classname="tests.test_jobs" name="test_ok" file="tests/test_jobs.py" line="9" />',
+            '<testcase classname="UsersSpec" name="skips"><skipped /></testcase>',
+            '</testsuite></testsuites>'
+        ].join('\n');
+
+        const results = parseTestReport(xml)!;
+        assert.deepStrictEqual(results.map(r => [r.name, r.status, r.line]), [
+            ['test_run', 'failed', 4],
+            ['test_ok', 'passed', 9],
+            ['UsersSpec skips', 'skipped', undefined]
+        ]);
+        assert.strictEqual(results[0].message, "KeyError: 'job'\nFile \"jobs.py\", line 27, in run");
+
+        assert.strictEqual(parseTestReport('{"name": "my-app", "version": "1.0.0"}'), null);
+        assert.strictEqual(parseTestReport('<html></html>'), null);
+    });
+
+    test('maps test files to the code under test', () => {
+        assert.ok(isTestFile('src/users.test.ts'));
+        assert.ok(isTestFile('tests/test_jobs.py'));
+        assert.ok(!isTestFile('src/users.ts'));
+
+        assert.deepStrictEqual(subjectFilesForTest('src/users.test.ts'), ['src/users.ts']);
+        assert.deepStrictEqual(subjectFilesForTest('src/__tests__/users.ts'), ['src/users.ts']);
+        assert.deepStrictEqual(subjectFilesForTest('tests/test_jobs.py'), ['tests/jobs.py', 'jobs.py', 'src/jobs.py']);
+    });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as lancedb from 'vectordb';
+import { VectorStore } from '../../vectorStore';
+import { EmbeddingService } from '../../embeddings';
+
+suite('VectorStore Bulk Update Test Suite', () => {
+    const tmpVault = path.join(__dirname, 'tmp_vault_bulk');
+    let store: VectorStore;
+    let vector: number[];
+
+    suiteSetup(async () => {
+        fs.rmSync(tmpVault, { recursive: true, force: true });
+        store = new VectorStore(tmpVault);
+        await store.init();
+        vector = await EmbeddingService.getInstance().getEmbedding('function add(a, b) { return a + b; }');
+    });
+
+    const row = (id: string, content: string) => ({
+        id, vector, content, vectorType: 'code', timestamp: '2026-01-01T00:00:00.000Z'
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(tmpVault, { recursive: true, force: true });
+    });
+
+    test('updateMany changes only the given fields', async () => {
+        await store.upsert([row('a', 'a'), row('b', 'b')]);
+        const [before] = await store.getByIds(['a']);
+
+        await store.updateMany([
+            { id: 'a', values: { isTrusted: true, summary: "it's fine" } },
+            { id: 'b', values: { isTrusted: true, summary: "it's fine" } }
+        ]);
+
+        const [afterA, afterB] = await store.getByIds(['a', 'b']);
+        assert.strictEqual(afterA.isTrusted, true);
+        assert.strictEqual(afterB.summary, "it's fine");
+        assert.strictEqual(afterA.timestamp, before.timestamp, 'timestamp must not be rewritten');
+        assert.deepStrictEqual(afterA.vector, before.vector, 'vector must be kept');
+        assert.strictEqual(afterA.content, 'a');
+    });
+
+    test('getByIds keeps the requested order and tolerates hostile ids', async () => {
+        await store.upsert([row('first', 'first'), row('second', 'second')]);
+
+        const rows = await store.getByIds(['second', "x') OR ('1'='1", 'first']);
+        assert.deepStrictEqual(rows.map(r => r.content), ['second', 'first']);
+    });
+
+    test('upsert inserts new rows and replaces existing ones', async () => {
+        await store.upsert([row('fixed-id', 'v1')]);
+        await store.upsert([row('fixed-id', 'v2')]);
+
+        const rows = await store.getByIds(['fixed-id']);
+        assert.strictEqual(rows.length, 1);
+        assert.strictEqual(rows[0].content, 'v2');
+        assert.strictEqual(rows[0].timestamp, '2026-01-01T00:00:00.000Z');
+    });
+
+    test('opening an older table adds the missing columns and keeps its rows', async () => {
+        const oldVault = path.join(__dirname, 'tmp_vault_columns');
+        fs.rmSync(oldVault, { recursive: true, force: true });
+
+        // A clusters table from before `pinned` existed
+        const db = await lancedb.connect(oldVault);
+        await db.createTable('clusters', [{
+            vector, id: 'c1', label: 'auth', memberIds: ['a'], usageCount: 3, lastUsed: '2026-01-01T00:00:00.000Z'
+        }]);
+
+        try {
+            const upgraded = new VectorStore(oldVault);
+            await upgraded.init();
+
+            const [cluster] = await upgraded.getByIds(['c1'], 'clusters');
+            assert.strictEqual(cluster.label, 'auth');
+            assert.strictEqual(cluster.usageCount, 3);
+            assert.strictEqual(cluster.pinned, false);
+
+            await upgraded.updateMany([{ id: 'c1', values: { pinned: true } }], 'clusters');
+            const [pinned] = await upgraded.getByIds(['c1'], 'clusters');
+            assert.strictEqual(pinned.pinned, true);
+        } finally {
+            fs.rmSync(oldVault, { recursive: true, force: true });
+        }
+    });
+});
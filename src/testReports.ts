@@ -0,0 +1,151 @@
+/**
+ * Test report parsing for failure capture: Jest / Vitest and Mocha JSON reporters,
+ * pytest-json-report and JUnit XML (pytest --junitxml, jest-junit, mocha-junit-reporter, Vitest).
+ */
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestResult {
+    id: string; // Stable across runs: "<file>::<full name>"
+    name: string;
+    file?: string; // Test file as written in the report (may be relative)
+    line?: number; // 1-based, when the report has it
+    status: TestStatus;
+    message?: string; // Failure message and stack trace
+}
+
+const ANSI = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI, '');
+}
+
+function result(name: string, file: string | undefined, status: TestStatus, message?: string, line?: number): TestResult {
+    return {
+        id: `${file || ''}::${name}`,
+        name,
+        file: file || undefined,
+        line: line || undefined,
+        status,
+        message: message ? stripAnsi(message).trim() : undefined
+    };
+}
+
+function toStatus(value: string | undefined): TestStatus {
+    if (value === 'passed' || value === 'pass') return 'passed';
+    if (value === 'failed' || value === 'fail' || value === 'error') return 'failed';
+    return 'skipped'; // pending, todo, skipped, disabled, xfailed ...
+}
+
+/** Jest `--json` and Vitest `--reporter=json` (same shape). */
+function parseJestLike(report: any): TestResult[] {
+    const results: TestResult[] = [];
+    for (const file of report.testResults || []) {
+        for (const test of file.assertionResults || []) {
+            const name = test.fullName || [...(test.ancestorTitles || []), test.title].join(' ');
+            const message = (test.failureMessages || []).join('\n') || undefined;
+            results.push(result(name, file.name, toStatus(test.status), message, test.location && test.location.line));
+        }
+        // A file that failed to run at all (syntax error, missing import) has no assertions
+        if ((file.assertionResults || []).length === 0 && file.status === 'failed' && file.message) {
+            results.push(result('(test file failed to run)', file.name, 'failed', file.message));
+        }
+    }
+    return results;
+}
+
+/** Mocha `--reporter json`. */
+function parseMocha(report: any): TestResult[] {
+    const failed = new Set((report.failures || []).map((t: any) => `${t.file}::${t.fullTitle}`));
+    const passed = new Set((report.passes || []).map((t: any) => `${t.file}::${t.fullTitle}`));
+
+    return (report.tests || []).map((test: any) => {
+        const key = `${test.file}::${test.fullTitle}`;
+        const err = test.err || {};
+        const status: TestStatus = failed.has(key) || err.message ? 'failed' : passed.has(key) ? 'passed' : 'skipped';
+        const message = status === 'failed' ? [err.message, err.stack].filter(Boolean).join('\n') : undefined;
+        return result(test.fullTitle || test.title, test.file, status, message);
+    });
+}
+
+/** pytest-json-report (`--json-report`). */
+function parsePytestJson(report: any): TestResult[] {
+    return (report.tests || []).map((test: any) => {
+        const [file, ...names] = String(test.nodeid).split('::');
+        const phase = ['setup', 'call', 'teardown'].map(p => test[p]).find((p: any) => p && p.outcome === 'failed') || test.call || {};
+        const crash = phase.crash || {};
+        const message = toStatus(test.outcome) === 'failed'
+            ? [crash.message, typeof phase.longrepr === 'string' ? phase.longrepr : ''].filter(Boolean).join('\n')
+            : undefined;
+        return result(names.join('::') || test.nodeid, file, toStatus(test.outcome), message, test.lineno ? test.lineno + 1 : undefined);
+    });
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&');
+}
+
+function xmlAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(tag)) !== null) {
+        attributes[match[1]] = decodeXml(match[3] !== undefined ? match[3] : match[4]);
+    }
+    return attributes;
+}
+
+/** JUnit XML: `<testcase>` elements with optional `<failure>`, `<error>` or `<skipped>` children. */
+function parseJUnit(xml: string): TestResult[] {
+    const results: TestResult[] = [];
+    const pattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(xml)) !== null) {
+        const attributes = xmlAttributes(match[1]);
+        const body = match[2] || '';
+        const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+        const name = attributes.classname && !attributes.file ? `${attributes.classname} ${attributes.name}` : attributes.name;
+
+        let status: TestStatus = 'passed';
+        let message: string | undefined;
+        if (failure) {
+            status = 'failed';
+            message = [xmlAttributes(failure[2]).message, decodeXml(failure[3] || '')].filter(Boolean).join('\n');
+        } else if (/<skipped\b/.test(body)) {
+            status = 'skipped';
+        }
+        results.push(result(name || 'unnamed test', attributes.file, status, message, attributes.line ? parseInt(attributes.line, 10) : undefined));
+    }
+    return results;
+}
+
+/**
+ * Detects the report format from its content. Returns null for files that are not test reports.
+ */
+export function parseTestReport(content: string): TestResult[] | null {
+    const text = content.trim();
+    if (text.startsWith('<')) {
+        return /<testcase\b/.test(text) || /<testsuites?\b/.test(text) ? parseJUnit(text) : null;
+    }
+
+    let report: any;
+    try {
+        report = JSON.parse(text);
+    } catch (e) {
+        return null;
+    }
+    if (!report || typeof report !== 'object') return null;
+
+    if (Array.isArray(report.testResults)) return parseJestLike(report);
+    if (Array.isArray(report.tests) && report.stats && ('passes' in report || 'failures' in report)) return parseMocha(report);
+    if (Array.isArray(report.tests) && report.tests.every((t: any) => typeof t.nodeid === 'string')) return parsePytestJson(report);
+    return null;
+}
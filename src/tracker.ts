@@ -1,20 +1,47 @@
 import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
 import { PatternEngine } from './engine';
+import { PasteDetector } from './pasteDetector';
+import { SessionStore } from './sessionStore';
+import { OffsetRange, relocateRange, transformRangeAll } from './provenance';
+
+export type ProvenanceOrigin = 'paste' | 'inline' | 'manual';
 
 interface TrackedRegion {
     id: string; // conversationId
-    recordId: string; // LanceDB ID
-    uri: vscode.Uri;
-    range: vscode.Range;
-    lastContent: string;
+    recordId: string; // LanceDB ID of the memory saved from this region ('' until saved)
+    origin: ProvenanceOrigin;
+    source: 'ai' | 'ai_candidate'; // 'ai_candidate': pasted from outside the editor, not confirmed as AI output
+    start: number; // Document offsets, kept aligned across edits
+    end: number;
+    insertedText: string; // As the AI wrote it
+    lastContent: string; // As it reads now
+    timestamp: number;
+    version?: number; // Document version the region was registered at (not persisted)
 }
 
+const REGIONS_KEY = 'engram.provenance.regions';
+const MIN_PASTE_LINES = 3;
+const SESSION_WINDOW_MS = 30 * 60 * 1000; // Pastes this soon after a recorded prompt are AI output
+const MAX_REGIONS_PER_FILE = 100;
+
+/**
+ * AI provenance: follows the regions of a file that came from an AI (accepted inline completions,
+ * pastes of AI output, or code marked by hand) through edits, persists them per file across
+ * sessions, and keeps the `finalEditedCode` of the memories saved from them up to date.
+ */
 export class EditTracker {
     private static instance: EditTracker;
     // Map uri string -> regions
     private trackedRegions: Map<string, TrackedRegion[]> = new Map();
     private engine: PatternEngine;
-    private saveTimeout: NodeJS.Timeout | null = null;
+    private context: vscode.ExtensionContext | undefined;
+    private saveTimeouts: Map<string, NodeJS.Timeout> = new Map(); // recordId -> pending final_edited_code write
+    private persistTimeout: NodeJS.Timeout | null = null;
+    private decorationType: vscode.TextEditorDecorationType | undefined;
+
+    private _onDidChangeRegions = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChangeRegions = this._onDidChangeRegions.event;
 
     private constructor() {
         this.engine = PatternEngine.getInstance();
@@ -27,121 +54,269 @@ export class EditTracker {
         return EditTracker.instance;
     }
 
-    public registerRegion(uri: vscode.Uri, range: vscode.Range, conversationId: string, recordId: string, initialContent: string) {
-        const key = uri.toString();
-        if (!this.trackedRegions.has(key)) {
-            this.trackedRegions.set(key, []);
+    public startListening(context: vscode.ExtensionContext) {
+        this.context = context;
+        const persisted = context.workspaceState.get<Record<string, TrackedRegion[]>>(REGIONS_KEY, {});
+        for (const [key, regions] of Object.entries(persisted)) {
+            this.trackedRegions.set(key, regions);
         }
+        vscode.workspace.textDocuments.forEach(document => this.restoreRegions(document));
 
-        const regions = this.trackedRegions.get(key)!;
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor('diffEditor.insertedTextBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        });
+
+        context.subscriptions.push(
+            this.decorationType,
+            this._onDidChangeRegions,
+            vscode.workspace.onDidChangeTextDocument(e => this.onTextChange(e)),
+            vscode.workspace.onDidOpenTextDocument(document => this.restoreRegions(document)),
+            PasteDetector.getInstance().onPasteDetected(event => this.onPaste(event)),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('engram.provenance.showRegions')) this.updateDecorations();
+            }),
+            this.onDidChangeRegions(() => this.updateDecorations()),
+            { dispose: () => this.flush() }
+        );
+        this.updateDecorations();
+        console.log(`[Tracker] Restored AI regions for ${this.trackedRegions.size} file(s).`);
+    }
+
+    /**
+     * Starts following a region inserted by an AI. `range` is where the text is now; the region is
+     * not moved by the change event that inserted it.
+     */
+    public registerRegion(
+        uri: vscode.Uri,
+        range: vscode.Range,
+        conversationId: string,
+        recordId: string,
+        initialContent: string,
+        origin: ProvenanceOrigin = 'manual',
+        source: 'ai' | 'ai_candidate' = 'ai'
+    ) {
+        const document = this.findDocument(uri);
+        if (!document) return;
+
+        const key = uri.toString();
+        const regions = this.trackedRegions.get(key) || [];
         regions.push({
             id: conversationId,
             recordId: recordId,
-            uri: uri,
-            range: range,
-            lastContent: initialContent
+            origin,
+            source,
+            start: document.offsetAt(range.start),
+            end: document.offsetAt(range.end),
+            insertedText: initialContent,
+            lastContent: initialContent,
+            timestamp: Date.now(),
+            version: document.version
         });
+        this.trackedRegions.set(key, regions.slice(-MAX_REGIONS_PER_FILE));
 
-        console.log(`[Tracker] Registered region for ${conversationId} at lines ${range.start.line}-${range.end.line}`);
+        console.log(`[Tracker] Registered ${origin} region for ${conversationId} at lines ${range.start.line}-${range.end.line}`);
+        this.regionsChanged(uri);
     }
 
     public onTextChange(event: vscode.TextDocumentChangeEvent) {
         const key = event.document.uri.toString();
-        if (!this.trackedRegions.has(key)) return;
-
-        const regions = this.trackedRegions.get(key)!;
-        if (regions.length === 0) return;
-
-        // Simple range logic: if edit intersects, we assume modification.
-        // We also need to shift ranges if edits happen before them, but for this MVP 
-        // we'll focus on direct edits to the content itself.
-
-        // Note: VS Code provides ways to track ranges but here we do simple intersection check.
-        // Ideally we would assume the document state is fresh.
-
-        for (const change of event.contentChanges) {
-            // Update ranges simply based on line delta (very naive, but works for MVP blocks)
-            const lineDelta = change.text.split('\n').length - (change.range.end.line - change.range.start.line + 1);
-
-            regions.forEach(region => {
-                // If change is strictly BEFORE region, shift region
-                if (change.range.end.line < region.range.start.line) {
-                    // Shift lines
-                    const newStart = region.range.start.line + lineDelta;
-                    const newEnd = region.range.end.line + lineDelta;
-                    region.range = new vscode.Range(newStart, 0, newEnd, region.range.end.character);
-                }
-                // If change INTERSECTS region
-                else if (change.range.intersection(region.range)) {
-                    // Update content roughly
-                    // For accuracy, we just re-read the text at the (potentially expanded) range
-                    // But determining the new range exact boundary is hard without a full diff engine.
-
-                    // HEURISTIC: Just expand the end line by delta if it's inside.
-                    const newEnd = region.range.end.line + lineDelta;
-                    region.range = new vscode.Range(region.range.start.line, 0, newEnd, 1000); // 1000 char arbitrary end
-
-                    // Mark for update
-                    this.scheduleUpdate(region, event.document);
-                }
-            });
-        }
-    }
+        const regions = this.trackedRegions.get(key);
+        if (!regions || regions.length === 0 || event.contentChanges.length === 0) return;
+
+        const changes = event.contentChanges.map(c => ({ offset: c.rangeOffset, length: c.rangeLength, text: c.text }));
+        const text = event.document.getText();
+        const kept: TrackedRegion[] = [];
 
-    private scheduleUpdate(region: TrackedRegion, document: vscode.TextDocument) {
-        if (this.saveTimeout) clearTimeout(this.saveTimeout);
+        for (const region of regions) {
+            if (region.version !== undefined && region.version >= event.document.version) {
+                kept.push(region); // Registered for this very edit
+                continue;
+            }
 
-        this.saveTimeout = setTimeout(async () => {
-            // Get current text of region
-            // We use safe logic to clamp range to doc
-            const startLine = Math.max(0, region.range.start.line);
-            const endLine = Math.min(document.lineCount - 1, region.range.end.line);
+            const moved = transformRangeAll(region, changes);
+            if (!moved) continue; // Deleted
 
-            if (startLine > endLine) return; // Region deleted/invalid
+            region.start = moved.start;
+            region.end = moved.end;
+            const content = text.substring(moved.start, moved.end);
+            if (content !== region.lastContent) {
+                region.lastContent = content;
+                this.scheduleUpdate(region);
+            }
+            kept.push(region);
+        }
 
-            const currentText = document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+        this.trackedRegions.set(key, kept);
+        this.regionsChanged(event.document.uri);
+    }
 
-            if (currentText !== region.lastContent) {
-                region.lastContent = currentText;
+    private scheduleUpdate(region: TrackedRegion) {
+        if (!region.recordId) return;
+        const recordId = region.recordId;
+        const pending = this.saveTimeouts.get(recordId);
+        if (pending) clearTimeout(pending);
 
-                // Update DB incrementally
-                this.engine.updateMemory(region.recordId, {
-                    finalEditedCode: currentText,
-                    // We could also update confidence if heavily edited?
-                    // For now, just track the text.
-                }).catch(err => console.error('[Tracker] Update failed:', err));
+        this.saveTimeouts.set(recordId, setTimeout(() => {
+            this.saveTimeouts.delete(recordId);
+            this.engine.updateMemory(recordId, {
+                finalEditedCode: region.lastContent
+            }).catch(err => console.error('[Tracker] Update failed:', err));
 
-                console.log(`[Tracker] Updated final_edited_code for ${region.id}`);
-            }
-        }, 2000); // Debounce 2s
+            console.log(`[Tracker] Updated final_edited_code for ${region.id}`);
+        }, 2000)); // Debounce 2s per memory
     }
 
-    // Helper to accept record ID
+    /** Links the regions of a conversation to the memory saved from them (first memory wins). */
     public updateRecordId(conversationId: string, recordId: string) {
-        // Find region and attach recordId for fast updates
-        // ... (Implementation detail, for now we will cheat and assume we search the DB or just pass recordId in register)
+        for (const [key, regions] of this.trackedRegions) {
+            const matching = regions.filter(r => r.id === conversationId && !r.recordId);
+            if (matching.length === 0) continue;
+            matching.forEach(r => r.recordId = recordId);
+            this.regionsChanged(vscode.Uri.parse(key));
+        }
     }
 
     public getConversationId(filePath: string, startLine: number, endLine: number): string | undefined {
-        // Convert OS path to URI string format correctly? 
-        // VS Code URI structure might differ from fsPath. 
-        // Ideally we convert to URI before check.
-        const targetUri = vscode.Uri.file(filePath).toString();
+        const region = this.findRegion(filePath, startLine, endLine);
+        return region ? region.id : undefined;
+    }
+
+    /** The tracked region overlapping the given lines (0-based, inclusive) of an open document. */
+    public findRegion(filePath: string, startLine: number, endLine: number): { id: string, source: 'ai' | 'ai_candidate', insertedText: string, lastContent: string } | undefined {
+        const uri = vscode.Uri.file(filePath);
+        const regions = this.trackedRegions.get(uri.toString());
+        const document = this.findDocument(uri);
+        if (!regions || !document) return undefined;
+
+        return regions.find(region => {
+            const regionStart = document.positionAt(region.start).line;
+            const regionEnd = document.positionAt(region.end).line;
+            return Math.max(startLine, regionStart) <= Math.min(endLine, regionEnd);
+        });
+    }
+
+    public getRegions(uri: vscode.Uri): { range: vscode.Range, origin: ProvenanceOrigin, source: string, timestamp: number }[] {
+        const document = this.findDocument(uri);
+        if (!document) return [];
+        return (this.trackedRegions.get(uri.toString()) || []).map(region => ({
+            range: new vscode.Range(document.positionAt(region.start), document.positionAt(region.end)),
+            origin: region.origin,
+            source: region.source,
+            timestamp: region.timestamp
+        }));
+    }
+
+    /** Forgets the regions overlapping `range` (e.g. code the user rewrote and now owns). */
+    public clearRegions(uri: vscode.Uri, range?: vscode.Range) {
+        const document = this.findDocument(uri);
+        const regions = this.trackedRegions.get(uri.toString()) || [];
+        const kept = range && document
+            ? regions.filter(r => r.end <= document.offsetAt(range.start) || r.start >= document.offsetAt(range.end))
+            : [];
+        this.trackedRegions.set(uri.toString(), kept);
+        this.regionsChanged(uri);
+    }
+
+    /**
+     * A paste is AI output when it comes from outside the editor: it matches the clipboard and is
+     * not copied from an open document. With a prompt recorded in the last half hour it is 'ai',
+     * otherwise an 'ai_candidate'.
+     */
+    private async onPaste(event: { text: string, normalized: string, document: vscode.TextDocument, range: vscode.Range }) {
+        if (!vscode.workspace.getConfiguration('engram').get<boolean>('provenance.trackPastes', true)) return;
+        if (event.document.uri.scheme !== 'file' || event.text.split('\n').length < MIN_PASTE_LINES) return;
 
-        if (!this.trackedRegions.has(targetUri)) return undefined;
+        const document = event.document;
+        const start = document.offsetAt(event.range.start);
+        if (document.getText().length === event.text.length) return; // Whole file replaced (reload, checkout)
+
+        // Register now so the offsets are right, drop it if the paste turns out to be internal
+        const conversationId = this.pasteConversationId();
+        this.registerRegion(
+            document.uri,
+            new vscode.Range(event.range.start, document.positionAt(start + event.text.length)),
+            conversationId.id,
+            '',
+            event.text,
+            'paste',
+            conversationId.source
+        );
+
+        const clipboard = await vscode.env.clipboard.readText();
+        const pasted = PasteDetector.getInstance().normalizeCode(clipboard) === event.normalized;
+        const copiedInEditor = vscode.workspace.textDocuments.some(doc => {
+            const text = doc.getText();
+            const index = text.indexOf(event.text);
+            return index !== -1 && (doc !== document || index !== start || text.indexOf(event.text, index + 1) !== -1);
+        });
+
+        if (!pasted || copiedInEditor) {
+            const regions = this.trackedRegions.get(document.uri.toString()) || [];
+            this.trackedRegions.set(document.uri.toString(), regions.filter(r => r.id !== conversationId.id));
+            this.regionsChanged(document.uri);
+        }
+    }
+
+    private pasteConversationId(): { id: string, source: 'ai' | 'ai_candidate' } {
+        const lastPrompt = SessionStore.getInstance().getLastPromptInfo();
+        if (lastPrompt && Date.now() - lastPrompt.timestamp < SESSION_WINDOW_MS) {
+            return { id: lastPrompt.sessionId, source: 'ai' };
+        }
+        return { id: `paste-${uuidv4()}`, source: 'ai_candidate' };
+    }
 
-        const regions = this.trackedRegions.get(targetUri)!;
+    /** Re-anchors a file's persisted regions to its current text; regions whose text is gone are dropped. */
+    private restoreRegions(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        const regions = this.trackedRegions.get(key);
+        if (!regions || regions.length === 0) return;
 
-        // Check for overlap
+        const text = document.getText();
+        const restored: TrackedRegion[] = [];
         for (const region of regions) {
-            const rStart = region.range.start.line;
-            const rEnd = region.range.end.line;
+            const range: OffsetRange | null = relocateRange(text, region, region.lastContent);
+            if (range) restored.push({ ...region, start: range.start, end: range.end, version: undefined });
+        }
+        this.trackedRegions.set(key, restored);
+        if (restored.length !== regions.length) this.regionsChanged(document.uri);
+    }
 
-            // Simple overlap check
-            if (Math.max(startLine, rStart) <= Math.min(endLine, rEnd)) {
-                return region.id;
-            }
+    private findDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+        return vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    }
+
+    private regionsChanged(uri: vscode.Uri) {
+        this._onDidChangeRegions.fire(uri);
+
+        if (this.persistTimeout) clearTimeout(this.persistTimeout);
+        this.persistTimeout = setTimeout(() => this.flush(), 1000);
+    }
+
+    private flush() {
+        if (this.persistTimeout) clearTimeout(this.persistTimeout);
+        this.persistTimeout = null;
+        if (!this.context) return;
+
+        const persisted: Record<string, TrackedRegion[]> = {};
+        for (const [key, regions] of this.trackedRegions) {
+            if (regions.length > 0) persisted[key] = regions.map(({ version, ...region }) => region);
+        }
+        this.context.workspaceState.update(REGIONS_KEY, persisted);
+    }
+
+    private updateDecorations() {
+        if (!this.decorationType) return;
+        const show = vscode.workspace.getConfiguration('engram').get<boolean>('provenance.showRegions', false);
+
+        for (const editor of vscode.window.visibleTextEditors) {
+            const decorations = !show ? [] : this.getRegions(editor.document.uri).map(region => ({
+                range: region.range,
+                hoverMessage: new vscode.MarkdownString(`**Engram:** ${region.source === 'ai' ? 'AI-authored' : 'Possibly AI-authored'} (${region.origin}, ${new Date(region.timestamp).toLocaleString()})`)
+            }));
+            editor.setDecorations(this.decorationType, decorations);
         }
-        return undefined;
     }
 }
@@ -23,16 +23,29 @@ export type DetectionMethod = 'regex' | 'diagnostic';
 export interface MistakeFix {
     id: string;
     description: string; // e.g., "Diff to resolve"
-    diff: string; // The specific change applied
-    before?: string; // Contextual snapshot before fix
-    after?: string; // Contextual snapshot after fix
+    diff: string; // Unified diff of the region (older fixes: a one-line description of the edit)
+    before?: string; // Snapshot of the region (enclosing function or nearby lines) when the error appeared
+    after?: string; // The same region once the error was resolved
     commitMsg?: string; // Optional commit message
     timestamp: number;
+    filePath?: string; // File the fix was made in
+    range?: { startLine: number, endLine: number }; // 0-based lines of the `after` snapshot in that file
+    language?: string;
+    applications?: FixApplication[]; // Times this fix was applied to a new occurrence
+}
+
+export interface FixApplication {
+    timestamp: number;
+    method: 'patch' | 'llm'; // Fuzzy patch of the recorded diff, or an LLM rewrite when it did not apply
+    filePath: string;
+    outcome: 'pending' | 'resolved' | 'unresolved' | 'rejected'; // 'rejected': declined in the preview
 }
 
 export interface MistakeFingerprint {
     id: string; // Unique ID for the fingerprint
-    language: string; // e.g., 'typescript', 'python', 'all'
+    language: string; // e.g., 'typescript', 'python', 'all' (diagnostics: languageId of the document)
+    source?: string; // Diagnostic source, e.g. 'ts', 'eslint', 'Pylance'
+    normalization?: number; // Message normalization the id was derived from (see mistakeFingerprint.ts)
     detectionMethod: DetectionMethod;
     pattern: string; // Regex string or error code/substring
     count: number; // Number of times observed
@@ -40,10 +53,24 @@ export interface MistakeFingerprint {
     lastSeen: number; // Timestamp
     fixes?: MistakeFix[]; // List of recorded fixes
     ignored?: boolean; // User manually dismissed this warning
+    weight?: number; // Recurrences, decayed over time (see mistakeLifecycle.ts); unset: `count` as of `lastSeen`
+    weightUpdatedAt?: number;
+    snoozedUntil?: number; // Warnings paused until this timestamp
+    learnedAt?: number; // Graduated after not recurring for a while; cleared when it recurs
     enforcementLevel?: 'silent' | 'info' | 'error'; // Shadow Guard level
     ignoredScopes?: string[]; // Glob patterns to ignore (e.g. *.test.ts)
 }
 
+/** One appearance of a mistake in a file, from the error showing up until it is resolved. */
+export interface MistakeOccurrence {
+    fingerprintId: string;
+    timestamp: number;
+    filePath: string;
+    language: string;
+    range: { startLine: number, endLine: number }; // 0-based lines of the diagnostic
+    resolvedAt?: number; // Unset while the error is still in the file
+}
+
 export interface CodeSnippet {
     id: string; // Hash of normalized content
     content: string;
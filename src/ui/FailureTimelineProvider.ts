@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PatternEngine } from '../engine';
+import { formatTimeAgo } from '../reuseAlerts';
+
+export type FailureNode =
+    | { kind: 'failure', failure: any }
+    | { kind: 'memory', failure: any, memory: any };
+
+const TYPE_ICONS: Record<string, string> = { runtime: 'bug', test: 'beaker', deletion: 'trash', process: 'debug-disconnect', recovery: 'pass', churn: 'diff', compile: 'tools' };
+
+function describeLink(failure: any): string {
+    switch (failure.link_method) {
+        case 'stack': return failure.failure_type === 'compile'
+            ? `Linked via compiler error${failure.link_line ? ` (line ${failure.link_line})` : ''}, not counted as a failure`
+            : `Linked via stack trace${failure.link_line ? ` (line ${failure.link_line})` : ''}`;
+        case 'similarity': return `Linked by similarity (${Number(failure.link_score || 0).toFixed(2)})`;
+        case 'churn': return failure.failure_type === 'churn'
+            ? `Code ${failure.churn_kind} after saving (not counted as a failure)`
+            : `Code ${failure.churn_kind} shortly after it was inserted by AI`;
+        case 'unlinked': return 'Unlinked by you';
+        default: return failure.related_memory_id ? 'Linked' : 'Not linked to any memory';
+    }
+}
+
+/**
+ * "Engram Failure Timeline" tree: recorded failures (and recoveries and churn) newest first, each with the
+ * memory it was attributed to as its child.
+ */
+export class FailureTimelineProvider implements vscode.TreeDataProvider<FailureNode>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<FailureNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private subscription: vscode.Disposable;
+    private readonly LIMIT = 200;
+
+    constructor(private readonly engine: PatternEngine) {
+        this.subscription = engine.onDidChangeFailures(() => this.refresh());
+    }
+
+    public refresh() {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(node: FailureNode): vscode.TreeItem {
+        if (node.kind === 'failure') {
+            const failure = node.failure;
+            const firstLine = (failure.error_message || '').split('\n').map((l: string) => l.trim()).find(Boolean) || 'Unknown failure';
+            const linked = !!failure.related_memory_id;
+
+            const item = new vscode.TreeItem(firstLine.substring(0, 100), linked ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+            item.id = failure.id;
+            item.description = `${path.basename(failure.file_path || '')}${failure.link_line ? `:${failure.link_line}` : ''} · ${formatTimeAgo(failure.timestamp)}`;
+            item.tooltip = new vscode.MarkdownString(`**${failure.failure_type}**${failure.failure_type === 'recovery' || failure.failure_type === 'churn' ? '' : ' failure'} · ${new Date(failure.timestamp).toLocaleString()}\n\n${describeLink(failure)}\n\n`)
+                .appendCodeblock((failure.error_message || '').substring(0, 2000), 'text');
+            const color = failure.failure_type === 'recovery' ? 'testing.iconPassed'
+                : failure.failure_type === 'churn' ? 'descriptionForeground'
+                    : linked ? 'errorForeground' : 'disabledForeground';
+            item.iconPath = new vscode.ThemeIcon(TYPE_ICONS[failure.failure_type] || 'error', new vscode.ThemeColor(color));
+            item.contextValue = linked ? 'engramFailure.linked' : 'engramFailure';
+            item.command = { command: 'engram.failures.open', title: 'Open Failure Location', arguments: [node] };
+            return item;
+        }
+
+        const memory = node.memory;
+        const firstLine = (memory.content || '').split('\n').map((l: string) => l.trim()).find(Boolean) || '';
+        const item = new vscode.TreeItem(memory.symbolName || firstLine.substring(0, 60), vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.failure.id}/${memory.id}`;
+        item.description = `${path.basename(memory.filePath || '')}:${(memory.startLine || 0) + 1}-${(memory.endLine || 0) + 1}${memory.failureCount ? ` · failed ${memory.failureCount}×` : ''}`;
+        item.tooltip = new vscode.MarkdownString(`${describeLink(node.failure)}\n\n`).appendCodeblock((memory.content || '').substring(0, 1000), memory.language || '');
+        item.iconPath = new vscode.ThemeIcon(memory.isUnstable ? 'warning' : 'code');
+        item.contextValue = 'engramFailureMemory';
+        item.command = { command: 'engram.failures.openMemory', title: 'Open Linked Code', arguments: [node] };
+        return item;
+    }
+
+    public async getChildren(node?: FailureNode): Promise<FailureNode[]> {
+        if (!node) {
+            const failures = await this.engine.getFailures(this.LIMIT);
+            return failures.map(failure => ({ kind: 'failure' as const, failure }));
+        }
+        if (node.kind === 'failure' && node.failure.related_memory_id) {
+            const memory = await this.engine.getPatternDetails(node.failure.related_memory_id);
+            return memory ? [{ kind: 'memory', failure: node.failure, memory }] : [];
+        }
+        return [];
+    }
+
+    public dispose() {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
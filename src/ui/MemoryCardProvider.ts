@@ -57,6 +57,13 @@ export class MemoryCardProvider implements vscode.HoverProvider {
                     markdown.appendMarkdown(`[$(history) Replay Fix](${commandUri} "Compare your past fix with current code")\n`);
                 }
 
+                if (card.fingerprintId) {
+                    const snoozeUri = vscode.Uri.parse(
+                        `command:engram.snoozeMistake?${encodeURIComponent(JSON.stringify([card.fingerprintId]))}`
+                    );
+                    markdown.appendMarkdown(`${card.fixId ? ' · ' : ''}[$(clock) Snooze](${snoozeUri} "Pause warnings for this mistake for a few days")\n`);
+                }
+
                 return new vscode.Hover(markdown);
             }
         }
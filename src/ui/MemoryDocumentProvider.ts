@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { PatternEngine } from '../engine';
+import { ReuseAlertService } from '../reuseAlerts';
+
+export const MEMORY_SCHEME = 'engram-memory';
+
+/**
+ * Read-only documents for stored memories (`?memory=<id>`) and freshly saved chunks
+ * behind a reuse alert (`?alert=<id>`), so they can be opened and diffed without a file on disk.
+ */
+export class MemoryDocumentProvider implements vscode.TextDocumentContentProvider {
+    public static memoryUri(memoryId: string, fileName: string): vscode.Uri {
+        return vscode.Uri.from({ scheme: MEMORY_SCHEME, path: `/${fileName}`, query: new URLSearchParams({ memory: memoryId }).toString() });
+    }
+
+    public static alertUri(alertId: string, fileName: string): vscode.Uri {
+        return vscode.Uri.from({ scheme: MEMORY_SCHEME, path: `/${fileName}`, query: new URLSearchParams({ alert: alertId }).toString() });
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const params = new URLSearchParams(uri.query);
+
+        const alertId = params.get('alert');
+        if (alertId) {
+            const alert = ReuseAlertService.getInstance().getAlert(alertId);
+            return alert ? alert.content : '// This alert is no longer available (the file was saved again).';
+        }
+
+        const memoryId = params.get('memory');
+        const memory = memoryId ? await PatternEngine.getInstance().getPatternDetails(memoryId) : null;
+        return memory ? memory.content || '' : '// This memory is no longer in the vault.';
+    }
+}
@@ -14,6 +14,11 @@ export class MistakeCodeLensProvider implements vscode.CodeLensProvider {
             this._onDidChangeCodeLenses.fire();
         });
 
+        // ...and when one is dismissed, snoozed, learned or comes back
+        this.detector.onDidChangeStates(() => {
+            this._onDidChangeCodeLenses.fire();
+        });
+
         // Also refresh on diagnostics change? 
         // CodeLens provider usually called on document change, but we might want to trigger if detection updates active counts.
         vscode.languages.onDidChangeDiagnostics(() => {
@@ -32,7 +37,7 @@ export class MistakeCodeLensProvider implements vscode.CodeLensProvider {
             const { hash } = this.detector.fingerprintError(error);
             const fingerprint = this.detector.getFingerprint(hash);
 
-            if (fingerprint && fingerprint.count > 1 && !fingerprint.ignored) {
+            if (fingerprint && fingerprint.count > 1 && this.detector.isActive(fingerprint)) {
                 // Determine Title
                 let title = `⚠️ Recurring Mistake (Seen ${fingerprint.count} times)`;
                 let tooltip = "This error has occurred frequently.";
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { MistakeDetector } from '../mistakeDetector';
+import { computeInsights, MistakeInsights } from '../mistakeInsights';
+
+type PanelMessage =
+    | { command: 'openFile', filePath: string, line: number }
+    | { command: 'refresh' };
+
+const WINDOW_DAYS = 30;
+const TOP = 10;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatDuration(ms: number | null): string {
+    if (ms === null) return '—';
+    const minutes = ms / 60000;
+    if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+    if (minutes < 60) return `${Math.round(minutes)} min`;
+    if (minutes < 24 * 60) return `${(minutes / 60).toFixed(1)} h`;
+    return `${(minutes / (24 * 60)).toFixed(1)} days`;
+}
+
+/** The message part of a diagnostic fingerprint's `source:code:message` pattern. */
+function describeMistake(fingerprintId: string): { label: string, detail: string } {
+    const fingerprint = MistakeDetector.getInstance().getFingerprint(fingerprintId);
+    if (!fingerprint) return { label: 'Forgotten mistake', detail: '' };
+    const [source, code, ...message] = fingerprint.pattern.split(':');
+    return fingerprint.detectionMethod === 'diagnostic'
+        ? { label: message.join(':') || fingerprint.pattern, detail: [source, code, fingerprint.language].filter(Boolean).join(' · ') }
+        : { label: fingerprint.pattern, detail: fingerprint.language };
+}
+
+/**
+ * Webview summarizing the mistake occurrence log: occurrences per day, time to fix, the files and
+ * languages they come from, whether each mistake is getting rarer, and the ones that stopped recurring.
+ */
+export class MistakeInsightsPanel {
+    private static current: MistakeInsightsPanel | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(private readonly panel: vscode.WebviewPanel) {
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.handleMessage(message), null, this.disposables);
+        this.panel.onDidChangeViewState(e => { if (e.webviewPanel.visible) this.render(); }, null, this.disposables);
+    }
+
+    public static show() {
+        if (MistakeInsightsPanel.current) {
+            MistakeInsightsPanel.current.panel.reveal();
+        } else {
+            const panel = vscode.window.createWebviewPanel('engramMistakeInsights', 'Mistake Insights', vscode.ViewColumn.Active, {
+                enableScripts: true,
+                localResourceRoots: []
+            });
+            MistakeInsightsPanel.current = new MistakeInsightsPanel(panel);
+        }
+        MistakeInsightsPanel.current.render();
+    }
+
+    private render() {
+        const detector = MistakeDetector.getInstance();
+        const { learnAfterDays } = detector.getLifecycleSettings();
+        const insights = computeInsights(detector.getOccurrences(), Date.now(), {
+            windowDays: WINDOW_DAYS,
+            learnedAfterDays: learnAfterDays,
+            top: TOP
+        });
+        const nonce = crypto.randomBytes(16).toString('base64');
+
+        this.panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+        button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        .stats { display: flex; gap: 24px; margin: 8px 0 16px; }
+        .stat .value { font-size: 1.6em; font-weight: bold; }
+        .stat .label, .muted { color: var(--vscode-descriptionForeground); }
+        .chart { display: flex; align-items: flex-end; gap: 2px; height: 120px; border-bottom: 1px solid var(--vscode-panel-border); }
+        .bar { flex: 1; background: var(--vscode-charts-blue, var(--vscode-focusBorder)); min-height: 1px; }
+        .axis { display: flex; justify-content: space-between; font-size: 0.85em; }
+        .columns { display: flex; gap: 32px; flex-wrap: wrap; }
+        .columns > section { flex: 1 1 320px; }
+        table { border-collapse: collapse; width: 100%; }
+        td { padding: 3px 6px; border-bottom: 1px solid var(--vscode-panel-border); vertical-align: top; }
+        td.num { text-align: right; white-space: nowrap; }
+        a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+        .up { color: var(--vscode-charts-red, var(--vscode-errorForeground)); }
+        .down { color: var(--vscode-charts-green, var(--vscode-foreground)); }
+    </style>
+</head>
+<body>
+    <h2>Mistake Insights <button data-command="refresh">Refresh</button></h2>
+    ${this.renderBody(insights, learnAfterDays)}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener('click', event => {
+            const target = event.target;
+            if (!(target instanceof HTMLElement)) return;
+            if (target.dataset.file) vscode.postMessage({ command: 'openFile', filePath: target.dataset.file, line: Number(target.dataset.line) });
+            else if (target.dataset.command) vscode.postMessage({ command: target.dataset.command });
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private renderBody(insights: MistakeInsights, learnedAfterDays: number): string {
+        if (insights.total === 0 && insights.learned.length === 0) {
+            return `<p class="muted">No mistakes recorded in the last ${insights.windowDays} days. Errors are logged here as they appear and get fixed.</p>`;
+        }
+
+        const peak = Math.max(1, ...insights.daily.map(d => d.count));
+        const bars = insights.daily.map(d =>
+            `<div class="bar" style="height: ${(d.count / peak) * 100}%" title="${d.day}: ${d.count}"></div>`).join('');
+
+        const files = insights.topFiles.map(f => `
+            <tr>
+                <td><a data-file="${escapeHtml(f.filePath)}" data-line="${f.line}" title="${escapeHtml(f.filePath)}">${escapeHtml(vscode.workspace.asRelativePath(f.filePath))}</a></td>
+                <td class="num">${f.count}</td>
+            </tr>`).join('');
+
+        const languages = insights.topLanguages.map(l => `
+            <tr><td>${escapeHtml(l.language)}</td><td class="num">${l.count}</td></tr>`).join('');
+
+        const trends = insights.trends.map(t => {
+            const { label, detail } = describeMistake(t.fingerprintId);
+            const direction = t.recent > t.previous ? '<span class="up">▲ more often</span>'
+                : t.recent < t.previous ? '<span class="down">▼ rarer</span>' : '<span class="muted">steady</span>';
+            return `
+            <tr>
+                <td>${escapeHtml(label)}<div class="muted">${escapeHtml(detail)}</div></td>
+                <td class="num">${t.previous} → ${t.recent}</td>
+                <td class="num">${direction}</td>
+            </tr>`;
+        }).join('');
+
+        const learned = insights.learned.map(l => {
+            const { label, detail } = describeMistake(l.fingerprintId);
+            return `
+            <tr>
+                <td>${escapeHtml(label)}<div class="muted">${escapeHtml(detail)}</div></td>
+                <td class="num">${l.occurrences}×</td>
+                <td class="num">last ${escapeHtml(new Date(l.lastSeen).toLocaleDateString())}</td>
+            </tr>`;
+        }).join('');
+
+        const half = Math.round(insights.windowDays / 2);
+        return `
+    <div class="stats">
+        <div class="stat"><div class="value">${insights.total}</div><div class="label">occurrences (${insights.windowDays} days)</div></div>
+        <div class="stat"><div class="value">${insights.distinct}</div><div class="label">distinct mistakes</div></div>
+        <div class="stat"><div class="value">${formatDuration(insights.medianTimeToFixMs)}</div><div class="label">median time to fix (${insights.resolved} fixed)</div></div>
+        <div class="stat"><div class="value">${insights.learned.length}</div><div class="label">learned</div></div>
+    </div>
+    <h3>Occurrences per day</h3>
+    <div class="chart">${bars}</div>
+    <div class="axis muted"><span>${insights.daily[0].day}</span><span>${insights.daily[insights.daily.length - 1].day}</span></div>
+    <h3>Most frequent mistakes</h3>
+    <p class="muted">Previous ${half} days → last ${half} days.</p>
+    <table>${trends || '<tr><td class="muted">None in this period.</td></tr>'}</table>
+    <div class="columns">
+        <section>
+            <h3>Top files</h3>
+            <table>${files || '<tr><td class="muted">None in this period.</td></tr>'}</table>
+        </section>
+        <section>
+            <h3>Languages</h3>
+            <table>${languages || '<tr><td class="muted">None in this period.</td></tr>'}</table>
+        </section>
+    </div>
+    <h3>Learned</h3>
+    <p class="muted">Mistakes you made more than once, fixed, and have not repeated for ${learnedAfterDays} days.</p>
+    <table>${learned || '<tr><td class="muted">Nothing yet.</td></tr>'}</table>`;
+    }
+
+    private async handleMessage(message: PanelMessage) {
+        switch (message.command) {
+            case 'openFile': {
+                const line = Math.max(0, message.line || 0);
+                try {
+                    const document = await vscode.workspace.openTextDocument(message.filePath);
+                    await vscode.window.showTextDocument(document, {
+                        viewColumn: vscode.ViewColumn.One,
+                        selection: new vscode.Range(line, 0, line, 0)
+                    });
+                } catch (e) {
+                    vscode.window.showWarningMessage(`Engram: Could not open ${path.basename(message.filePath)}.`);
+                }
+                break;
+            }
+            case 'refresh':
+                this.render();
+                break;
+        }
+    }
+
+    private dispose() {
+        MistakeInsightsPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
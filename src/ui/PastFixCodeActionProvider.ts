@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { MistakeDetector } from '../mistakeDetector';
+import { fixSuccessRate } from '../fixAdapter';
+import { fixSummary } from '../fixDiff';
+
+const MAX_ACTIONS_PER_DIAGNOSTIC = 2;
+
+/** Offers the recorded fixes of a recurring mistake as quick fixes on its diagnostic. */
+export class PastFixCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix
+    ];
+
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] | undefined {
+        const detector = MistakeDetector.getInstance();
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.severity !== vscode.DiagnosticSeverity.Error) continue;
+            const applicable = detector.getApplicableFixes(diagnostic);
+            if (!applicable) continue;
+
+            applicable.fixes.slice(0, MAX_ACTIONS_PER_DIAGNOSTIC).forEach((fix, index) => {
+                const { applied, resolved } = fixSuccessRate(fix);
+                const record = applied > 0 ? ` (worked ${resolved}/${applied})` : '';
+                const title = `Apply past fix: ${fixSummary(fix).substring(0, 50)}${record}`;
+
+                const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = index === 0 && applied > 0 && resolved * 2 > applied;
+                action.command = {
+                    command: 'engram.applyPastFix',
+                    title,
+                    arguments: [document.uri, diagnostic, applicable.fingerprint.id, fix.id]
+                };
+                actions.push(action);
+            });
+        }
+
+        return actions;
+    }
+}
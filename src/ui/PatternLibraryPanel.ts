@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { PatternEngine } from '../engine';
+
+type PanelMessage =
+    | { command: 'open' | 'setExemplar', memoryId: string }
+    | { command: 'rename' | 'merge' | 'delete' | 'pin' | 'unpin' | 'resetExemplar' };
+
+const MAX_MEMBER_LINES = 80; // Per card; "Open" shows the whole memory
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Webview for one pattern cluster: its members' code side by side, plus the library actions.
+ * A single panel is reused; showing another pattern replaces its content.
+ */
+export class PatternLibraryPanel {
+    private static current: PatternLibraryPanel | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private members: any[] = [];
+
+    private constructor(private readonly panel: vscode.WebviewPanel, private clusterId: string) {
+        const engine = PatternEngine.getInstance();
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.handleMessage(message), null, this.disposables);
+        engine.onDidChangePatterns(() => this.render(), null, this.disposables);
+    }
+
+    public static async show(clusterId: string) {
+        if (PatternLibraryPanel.current) {
+            PatternLibraryPanel.current.clusterId = clusterId;
+            PatternLibraryPanel.current.panel.reveal();
+        } else {
+            const panel = vscode.window.createWebviewPanel('engramPattern', 'Engram Pattern', vscode.ViewColumn.Active, {
+                enableScripts: true,
+                localResourceRoots: []
+            });
+            PatternLibraryPanel.current = new PatternLibraryPanel(panel, clusterId);
+        }
+        await PatternLibraryPanel.current.render();
+    }
+
+    private async render() {
+        const engine = PatternEngine.getInstance();
+        const cluster = engine.getPatterns().find(p => p.id === this.clusterId);
+        if (!cluster) {
+            // Deleted or merged away
+            this.panel.dispose();
+            return;
+        }
+
+        const exemplarId = engine.getExemplarId(cluster);
+        this.members = (await engine.getClusterMemories(cluster.id))
+            .sort((a, b) => Number(b.id === exemplarId) - Number(a.id === exemplarId));
+        this.panel.title = `Pattern: ${cluster.label || 'Unnamed pattern'}`;
+
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const cards = this.members.map(memory => {
+            const lines = (memory.content || '').split('\n');
+            const code = lines.slice(0, MAX_MEMBER_LINES).join('\n') + (lines.length > MAX_MEMBER_LINES ? '\n…' : '');
+            const lineRange = memory.startLine ? `:${memory.startLine}-${memory.endLine}` : '';
+            const isExemplar = memory.id === exemplarId;
+            return `
+            <div class="card${isExemplar ? ' exemplar' : ''}">
+                <div class="card-header">
+                    <span title="${escapeHtml(memory.filePath || '')}">${isExemplar ? '★ ' : ''}${escapeHtml(memory.symbolName || path.basename(memory.filePath || 'memory'))}</span>
+                    <span>
+                        ${isExemplar ? '' : `<button data-exemplar="${escapeHtml(memory.id)}">Use as Best</button>`}
+                        <button data-open="${escapeHtml(memory.id)}">Open</button>
+                    </span>
+                </div>
+                <div class="meta">${isExemplar ? 'Best version · ' : ''}${escapeHtml(path.basename(memory.filePath || ''))}${lineRange} · ${escapeHtml(memory.timestamp ? new Date(memory.timestamp).toLocaleString() : '')}${memory.isTrusted ? ' · trusted' : ''}${memory.failureCount ? ` · failed ${memory.failureCount}×` : ''}</div>
+                <pre><code>${escapeHtml(code)}</code></pre>
+            </div>`;
+        }).join('');
+
+        this.panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+        .toolbar button, .card button { margin-right: 6px; }
+        button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        .stats { color: var(--vscode-descriptionForeground); margin: 4px 0 12px; }
+        .members { display: flex; gap: 12px; overflow-x: auto; align-items: flex-start; padding-bottom: 12px; }
+        .card { flex: 0 0 420px; border: 1px solid var(--vscode-panel-border); border-radius: 4px; }
+        .card.exemplar { border-color: var(--vscode-focusBorder); }
+        .card-header { display: flex; justify-content: space-between; align-items: center; padding: 6px 8px; font-weight: bold; }
+        .meta { padding: 0 8px 6px; color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+        pre { margin: 0; padding: 8px; overflow: auto; max-height: 60vh; background: var(--vscode-textCodeBlock-background); font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    </style>
+</head>
+<body>
+    <h2>${cluster.pinned ? '📌 ' : ''}${escapeHtml(cluster.label || 'Unnamed pattern')}</h2>
+    <div class="stats">${this.members.length} member(s) · used ${cluster.usageCount}× · last used ${escapeHtml(cluster.lastUsed ? new Date(cluster.lastUsed).toLocaleString() : 'never')}</div>
+    <div class="toolbar">
+        <button data-command="rename">Rename</button>
+        <button data-command="${cluster.pinned ? 'unpin' : 'pin'}">${cluster.pinned ? 'Unpin' : 'Pin'}</button>
+        <button data-command="merge">Merge Into This…</button>
+        <button data-command="delete">Delete</button>
+        ${cluster.exemplarOverride ? '<button data-command="resetExemplar">Pick Best Version Automatically</button>' : ''}
+    </div>
+    <h3>Members</h3>
+    <div class="members">${cards || '<p>No stored memories for this pattern.</p>'}</div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener('click', event => {
+            const target = event.target;
+            if (!(target instanceof HTMLElement)) return;
+            if (target.dataset.open) vscode.postMessage({ command: 'open', memoryId: target.dataset.open });
+            else if (target.dataset.exemplar) vscode.postMessage({ command: 'setExemplar', memoryId: target.dataset.exemplar });
+            else if (target.dataset.command) vscode.postMessage({ command: target.dataset.command });
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private async handleMessage(message: PanelMessage) {
+        switch (message.command) {
+            case 'open': {
+                const memory = this.members.find(m => m.id === message.memoryId);
+                if (memory) await vscode.commands.executeCommand('engram.patterns.openMember', memory);
+                break;
+            }
+            case 'setExemplar':
+                await PatternEngine.getInstance().setPatternExemplar(this.clusterId, message.memoryId);
+                break;
+            case 'resetExemplar':
+                await PatternEngine.getInstance().setPatternExemplar(this.clusterId, null);
+                break;
+            case 'rename':
+                await vscode.commands.executeCommand('engram.patterns.rename', this.clusterId);
+                break;
+            case 'merge':
+                await vscode.commands.executeCommand('engram.patterns.merge', this.clusterId);
+                break;
+            case 'delete':
+                await vscode.commands.executeCommand('engram.patterns.delete', this.clusterId);
+                break;
+            case 'pin':
+                await vscode.commands.executeCommand('engram.patterns.pin', this.clusterId);
+                break;
+            case 'unpin':
+                await vscode.commands.executeCommand('engram.patterns.unpin', this.clusterId);
+                break;
+        }
+    }
+
+    private dispose() {
+        PatternLibraryPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
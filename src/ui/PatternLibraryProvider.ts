@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PatternCluster, PatternEngine, PatternSortOrder } from '../engine';
+
+export type PatternNode =
+    | { kind: 'pattern', cluster: PatternCluster }
+    | { kind: 'member', clusterId: string, memory: any, isExemplar: boolean };
+
+/**
+ * "Engram Patterns" tree: one node per pattern cluster (pinned first), its memories as children.
+ */
+export class PatternLibraryProvider implements vscode.TreeDataProvider<PatternNode>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<PatternNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private sortBy: PatternSortOrder = 'usage';
+    private subscription: vscode.Disposable;
+
+    constructor(private readonly engine: PatternEngine) {
+        this.subscription = engine.onDidChangePatterns(() => this.refresh());
+        vscode.commands.executeCommand('setContext', 'engram.patterns.sortBy', this.sortBy);
+    }
+
+    public refresh() {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public setSortOrder(sortBy: PatternSortOrder) {
+        this.sortBy = sortBy;
+        vscode.commands.executeCommand('setContext', 'engram.patterns.sortBy', sortBy);
+        this.refresh();
+    }
+
+    public getTreeItem(node: PatternNode): vscode.TreeItem {
+        if (node.kind === 'pattern') {
+            const cluster = node.cluster;
+            const item = new vscode.TreeItem(cluster.label || 'Unnamed pattern', vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = cluster.id;
+            item.description = `${cluster.memberIds.length} member${cluster.memberIds.length === 1 ? '' : 's'} · used ${cluster.usageCount}×`;
+            item.tooltip = `Last used: ${cluster.lastUsed ? new Date(cluster.lastUsed).toLocaleString() : 'never'}`;
+            item.iconPath = new vscode.ThemeIcon(cluster.pinned ? 'pinned' : 'symbol-class');
+            item.contextValue = cluster.pinned ? 'engramPattern.pinned' : 'engramPattern';
+            item.command = { command: 'engram.patterns.show', title: 'Show Pattern', arguments: [cluster.id] };
+            return item;
+        }
+
+        const memory = node.memory;
+        const firstLine = (memory.content || '').split('\n').map((l: string) => l.trim()).find(Boolean) || '';
+        const item = new vscode.TreeItem(memory.symbolName || firstLine.substring(0, 60), vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.clusterId}/${memory.id}`;
+        item.description = path.basename(memory.filePath || '');
+        item.tooltip = new vscode.MarkdownString().appendCodeblock((memory.content || '').substring(0, 1000), memory.language || '');
+        item.iconPath = new vscode.ThemeIcon(node.isExemplar ? 'star-full' : 'code');
+        if (node.isExemplar) item.description = `best version · ${item.description}`;
+        item.contextValue = node.isExemplar ? 'engramPatternMember.exemplar' : 'engramPatternMember';
+        item.command = { command: 'engram.patterns.openMember', title: 'Open Member', arguments: [memory] };
+        return item;
+    }
+
+    public async getChildren(node?: PatternNode): Promise<PatternNode[]> {
+        if (!node) {
+            return this.engine.getPatterns(this.sortBy).map(cluster => ({ kind: 'pattern' as const, cluster }));
+        }
+        if (node.kind === 'pattern') {
+            const exemplarId = this.engine.getExemplarId(node.cluster);
+            const memories = await this.engine.getClusterMemories(node.cluster.id);
+            return memories
+                .map(memory => ({ kind: 'member' as const, clusterId: node.cluster.id, memory, isExemplar: memory.id === exemplarId }))
+                .sort((a, b) => Number(b.isExemplar) - Number(a.isExemplar));
+        }
+        return [];
+    }
+
+    public dispose() {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { ReuseAlertService } from '../reuseAlerts';
+
+const LENS_TITLES: Record<string, string> = {
+    unstable: '$(warning) Similar to an unstable pattern',
+    duplicate: '$(copy) Written before',
+    cluster: '$(symbol-class) Known pattern'
+};
+
+export class ReuseCodeLensProvider implements vscode.CodeLensProvider {
+    private alerts: ReuseAlertService;
+    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    constructor() {
+        this.alerts = ReuseAlertService.getInstance();
+
+        // Alerts are replaced on every save of the document
+        this.alerts.onDidChangeAlerts(() => {
+            this._onDidChangeCodeLenses.fire();
+        });
+    }
+
+    public provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] {
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const alert of this.alerts.getAlerts(document.uri)) {
+            if (alert.startLine >= document.lineCount) continue; // Code removed since the save
+            const range = new vscode.Range(alert.startLine, 0, alert.startLine, 0);
+
+            lenses.push(new vscode.CodeLens(range, {
+                title: LENS_TITLES[alert.kind],
+                tooltip: alert.message,
+                command: 'engram.reuse.openEarlier',
+                arguments: [alert.id]
+            }));
+            lenses.push(new vscode.CodeLens(range, {
+                title: 'Diff',
+                tooltip: 'Compare with the earlier version',
+                command: 'engram.reuse.diff',
+                arguments: [alert.id]
+            }));
+            lenses.push(new vscode.CodeLens(range, {
+                title: 'Ignore Pattern',
+                tooltip: 'Stop alerting about this pattern',
+                command: 'engram.reuse.suppress',
+                arguments: [alert.id]
+            }));
+        }
+
+        return lenses;
+    }
+}
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+/**
+ * An untitled document opened beside the editor that streamed LLM output is appended to as it
+ * arrives. Chunks are batched into one edit at a time; if the user closes the document the rest
+ * of the stream is dropped.
+ */
+export class StreamingDocument {
+    private pending = '';
+    private writing: Promise<void> | null = null;
+    private closed = false;
+    private length = 0;
+
+    private constructor(private document: vscode.TextDocument) { }
+
+    public static async open(language: string, initialContent: string = ''): Promise<StreamingDocument> {
+        const doc = await vscode.workspace.openTextDocument({ content: initialContent, language });
+        await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+        const stream = new StreamingDocument(doc);
+        stream.length = initialContent.length;
+        return stream;
+    }
+
+    /** Characters appended so far (initial content included). */
+    public get size(): number {
+        return this.length + this.pending.length;
+    }
+
+    public append(chunk: string) {
+        if (this.closed || !chunk) return;
+        this.pending += chunk;
+        if (!this.writing) {
+            this.writing = this.write().finally(() => { this.writing = null; });
+        }
+    }
+
+    /** Resolves once everything appended so far is in the document. */
+    public async flush(): Promise<void> {
+        while (this.writing) {
+            await this.writing;
+        }
+    }
+
+    private async write(): Promise<void> {
+        while (this.pending && !this.closed) {
+            const text = this.pending;
+            this.pending = '';
+
+            const doc = this.document;
+            if (doc.isClosed) {
+                this.closed = true;
+                return;
+            }
+            try {
+                // A workspace edit still applies when the editor is hidden behind another tab
+                const edit = new vscode.WorkspaceEdit();
+                edit.insert(doc.uri, doc.lineAt(doc.lineCount - 1).range.end, text);
+                if (!await vscode.workspace.applyEdit(edit)) {
+                    this.closed = true;
+                    return;
+                }
+                this.length += text.length;
+            } catch (e) {
+                // The document went away
+                this.closed = true;
+            }
+        }
+    }
+}
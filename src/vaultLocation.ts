@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+export type VaultStrategy = 'global' | 'workspace' | 'custom';
+
+export interface VaultInfo {
+    path: string;
+    label: string; // Shown next to search results ("Global", workspace name, custom folder)
+    isActive: boolean;
+}
+
+// Where every vault lived before strategies existed
+export const GLOBAL_VAULT_PATH = path.join(os.homedir(), '.gemini', 'antigravity', 'pattern-vault', 'data');
+
+const WORKSPACE_VAULT_DIR = 'vault';
+const LAST_PATH_KEY = 'engram.vault.lastPath';
+
+/**
+ * Resolves where the LanceDB vault lives for the current window:
+ * - global: one vault shared by every project (the original behaviour)
+ * - workspace: `context.storageUri/vault`, like the mistake and snippet stores
+ * - custom: `engram.vault.customPath`
+ */
+export class VaultLocation {
+    private static instance: VaultLocation;
+    private context: vscode.ExtensionContext | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): VaultLocation {
+        if (!VaultLocation.instance) {
+            VaultLocation.instance = new VaultLocation();
+        }
+        return VaultLocation.instance;
+    }
+
+    public setContext(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    public getStrategy(): VaultStrategy {
+        return vscode.workspace.getConfiguration('engram').get<VaultStrategy>('vault.strategy', 'global');
+    }
+
+    public getActivePath(): string {
+        return this.resolvePath(this.getStrategy());
+    }
+
+    public resolvePath(strategy: VaultStrategy): string {
+        if (strategy === 'workspace' && this.context && this.context.storageUri) {
+            return path.join(this.context.storageUri.fsPath, WORKSPACE_VAULT_DIR);
+        }
+
+        if (strategy === 'custom') {
+            const customPath = this.getCustomPath();
+            if (customPath) return customPath;
+        }
+
+        // No folder open (workspace) or no path configured (custom)
+        return GLOBAL_VAULT_PATH;
+    }
+
+    public getActiveLabel(): string {
+        return this.labelFor(this.getActivePath());
+    }
+
+    /**
+     * Every vault this machine knows about: global, custom, and the per-workspace vaults of other
+     * workspaces (siblings of this workspace's storage folder). Only vaults that exist on disk.
+     */
+    public listVaults(): VaultInfo[] {
+        const activePath = this.getActivePath();
+        const candidates = [activePath, GLOBAL_VAULT_PATH];
+
+        const customPath = this.getCustomPath();
+        if (customPath) candidates.push(customPath);
+
+        if (this.context && this.context.storageUri) {
+            // .../workspaceStorage/<hash>/<extension id>
+            const extensionDir = path.basename(this.context.storageUri.fsPath);
+            const workspaceStorage = path.dirname(path.dirname(this.context.storageUri.fsPath));
+            try {
+                for (const entry of fs.readdirSync(workspaceStorage)) {
+                    candidates.push(path.join(workspaceStorage, entry, extensionDir, WORKSPACE_VAULT_DIR));
+                }
+            } catch (e) {
+                console.error('[VaultLocation] Failed to scan workspace storage:', e);
+            }
+        }
+
+        const seen = new Set<string>();
+        const vaults: VaultInfo[] = [];
+        for (const candidate of candidates) {
+            const resolved = path.resolve(candidate);
+            if (seen.has(resolved)) continue;
+            seen.add(resolved);
+
+            const isActive = resolved === path.resolve(activePath);
+            if (!isActive && !fs.existsSync(resolved)) continue;
+            vaults.push({ path: resolved, label: this.labelFor(resolved), isActive });
+        }
+        return vaults;
+    }
+
+    /** The vault this workspace used last time (to migrate from when the strategy changes). */
+    public getPreviousPath(): string | undefined {
+        if (!this.context) return undefined;
+        return this.context.workspaceState.get<string>(LAST_PATH_KEY);
+    }
+
+    public async rememberActivePath(): Promise<void> {
+        if (!this.context) return;
+        await this.context.workspaceState.update(LAST_PATH_KEY, this.getActivePath());
+    }
+
+    private getCustomPath(): string | undefined {
+        const configured = vscode.workspace.getConfiguration('engram').get<string>('vault.customPath', '').trim();
+        if (!configured) return undefined;
+        return path.resolve(configured.replace(/^~(?=$|[\\/])/, os.homedir()));
+    }
+
+    private labelFor(vaultPath: string): string {
+        const resolved = path.resolve(vaultPath);
+        if (resolved === path.resolve(GLOBAL_VAULT_PATH)) return 'Global';
+
+        const customPath = this.getCustomPath();
+        if (customPath && resolved === customPath) return `Custom (${path.basename(customPath)})`;
+
+        if (this.context && this.context.storageUri && resolved === path.join(this.context.storageUri.fsPath, WORKSPACE_VAULT_DIR)) {
+            return vscode.workspace.name || 'Workspace';
+        }
+
+        // Another workspace's vault: its manifest records the workspace name
+        try {
+            const manifest = JSON.parse(fs.readFileSync(path.join(resolved, 'manifest.json'), 'utf8'));
+            if (manifest.label) return manifest.label;
+        } catch (e) {
+            // No manifest yet
+        }
+        return path.basename(path.dirname(path.dirname(resolved)));
+    }
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import { VectorStore, VAULT_SCHEMA_VERSION } from './vectorStore';
+import { EmbeddingService } from './embeddings';
+import { PatternAnalyzer } from './analyzer';
+import { extractiveSummary } from './offlineSummary';
+import { Logger } from './logger';
+
+/**
+ * Persisted beside the tables so an interrupted re-index (cancel, crash, VS Code restart)
+ * picks up where it stopped.
+ */
+export interface ReindexJobState {
+    targetSchemaVersion: number;
+    embeddingModel: string;
+    startedAt: string;
+    total: number;
+    pendingIds: string[]; // Code rows not yet re-indexed (frozen when the job starts)
+    phase: 'rows' | 'clusters';
+}
+
+export interface ReindexResult {
+    processed: number;
+    total: number;
+    cancelled: boolean;
+}
+
+const REINDEX_JOB_FILE = 'reindex_job.json';
+const MIN_CHUNK_LENGTH = 50; // Same threshold as PatternEngine.store
+const SAVE_EVERY = 20; // Rows between job-state checkpoints (re-processing a row is harmless)
+
+/**
+ * Rebuilds the `vectors` and `clusters` tables in place: re-chunks and re-embeds every code row,
+ * rebuilds its child vectors, then recomputes cluster centroids.
+ */
+export class VaultReindexer {
+    private logger = Logger.getInstance();
+
+    constructor(
+        private storeDb: VectorStore,
+        private analyzer: PatternAnalyzer,
+        private embeddings: EmbeddingService
+    ) { }
+
+    hasPendingJob(): boolean {
+        return this.storeDb.readVaultFile<ReindexJobState>(REINDEX_JOB_FILE) !== null;
+    }
+
+    /** True if the vault was indexed with an older chunker / row layout, or a job was interrupted. */
+    needsReindex(): boolean {
+        return this.hasPendingJob() || this.storeDb.getSchemaVersion() < VAULT_SCHEMA_VERSION;
+    }
+
+    async run(
+        onProgress?: (processed: number, total: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<ReindexResult> {
+        let job = this.storeDb.readVaultFile<ReindexJobState>(REINDEX_JOB_FILE);
+        const modelId = this.embeddings.getModelId();
+
+        if (job && job.embeddingModel !== modelId) {
+            // The model changed mid-job: the rows already done carry stale vectors
+            this.logger.log('Re-index job was started with another embedding model. Restarting it.');
+            job = null;
+        }
+
+        if (job) {
+            this.logger.log(`Resuming vault re-index: ${job.total - job.pendingIds.length}/${job.total} rows done.`);
+        } else {
+            const ids = await this.storeDb.getAllMemoryIds();
+            job = {
+                targetSchemaVersion: VAULT_SCHEMA_VERSION,
+                embeddingModel: modelId,
+                startedAt: new Date().toISOString(),
+                total: ids.length,
+                pendingIds: ids,
+                phase: 'rows'
+            };
+            this.storeDb.writeVaultFile(REINDEX_JOB_FILE, job);
+            this.logger.log(`Started vault re-index of ${ids.length} rows (schema v${VAULT_SCHEMA_VERSION}).`);
+        }
+
+        // 1. Code rows (and their child vectors)
+        let sinceCheckpoint = 0;
+        while (job.phase === 'rows' && job.pendingIds.length > 0) {
+            if (token && token.isCancellationRequested) {
+                this.storeDb.writeVaultFile(REINDEX_JOB_FILE, job);
+                this.logger.log(`Vault re-index cancelled with ${job.pendingIds.length} rows left. It will resume later.`);
+                return { processed: job.total - job.pendingIds.length, total: job.total, cancelled: true };
+            }
+
+            const id = job.pendingIds[0];
+            try {
+                await this.reindexRow(id);
+            } catch (e) {
+                // One bad row should not block the rest of the vault
+                this.logger.log(`Failed to re-index ${id}: ${e}`);
+            }
+            job.pendingIds.shift();
+
+            if (++sinceCheckpoint >= SAVE_EVERY) {
+                this.storeDb.writeVaultFile(REINDEX_JOB_FILE, job);
+                sinceCheckpoint = 0;
+            }
+            if (onProgress) onProgress(job.total - job.pendingIds.length, job.total);
+        }
+
+        if (job.phase === 'rows') {
+            job.phase = 'clusters';
+            this.storeDb.writeVaultFile(REINDEX_JOB_FILE, job);
+        }
+
+        // 2. Clusters (centroids depend on the new pattern vectors)
+        await this.rebuildClusters();
+
+        this.storeDb.setSchemaVersion(job.targetSchemaVersion);
+        this.storeDb.deleteVaultFile(REINDEX_JOB_FILE);
+        this.logger.log(`Vault re-index complete (${job.total} rows).`);
+        return { processed: job.total, total: job.total, cancelled: false };
+    }
+
+    /**
+     * Re-chunks one code row. Extra chunks become sibling rows with deterministic ids
+     * (`<id>:<n>`), so re-running a half-finished row never duplicates them.
+     */
+    private async reindexRow(id: string) {
+        const [row] = await this.storeDb.getByIds([id]);
+        if (!row) return; // Deleted since the job started
+
+        const chunks = (await this.analyzer.findPatterns(row.content, row.filePath))
+            .filter(c => c.content.length >= MIN_CHUNK_LENGTH);
+
+        if (chunks.length <= 1) {
+            // Already a single unit: keep the content, refresh symbol metadata and vectors
+            const chunk = chunks[0];
+            await this.writeCodeRow({
+                ...row,
+                symbolName: (chunk && chunk.symbolName) || row.symbolName || '',
+                signature: (chunk && chunk.signature) || row.signature || ''
+            });
+            return;
+        }
+
+        // The row's summary described all of its chunks: each gets an extractive one (upgraded by
+        // the LLM later). The prompt and AI response stay with the original row only.
+        const baseLine = Number(row.startLine) || 0;
+        for (let i = 0; i < chunks.length; i++) {
+            const chunk = chunks[i];
+            const { summary, patternDescription } = extractiveSummary({ ...chunk, language: row.language });
+            const sibling = i === 0 ? {} : { prompt: '', pastedResponse: '', finalEditedCode: '' };
+            await this.writeCodeRow({
+                ...row,
+                ...sibling,
+                id: i === 0 ? id : `${id}:${i}`,
+                content: chunk.content,
+                symbolName: chunk.symbolName || '',
+                signature: chunk.signature || '',
+                startLine: baseLine + chunk.startLine,
+                endLine: baseLine + chunk.endLine,
+                summary,
+                patternDescription,
+                summarySource: 'extractive'
+            });
+        }
+    }
+
+    private async writeCodeRow(row: any) {
+        const vector = await this.embeddings.getEmbedding(row.content);
+        await this.storeDb.upsert([{ ...row, vector }]); // Keeps id and timestamp
+
+        // Child vectors are derived from the row's text fields, so rebuild them from scratch
+        await this.storeDb.deleteRelatedVectors(row.id);
+        const children: { vectorType: string, content: string }[] = [
+            { vectorType: 'pattern_abstraction', content: row.patternDescription },
+            { vectorType: 'prompt', content: row.prompt },
+            { vectorType: 'ai_response', content: row.pastedResponse }
+        ];
+
+        for (const child of children) {
+            if (!child.content) continue;
+            const childVector = await this.embeddings.getEmbedding(child.content);
+            const { vector: _vector, ...metadata } = row;
+            await this.storeDb.savePattern(childVector, {
+                ...metadata,
+                id: uuidv4(),
+                vectorType: child.vectorType,
+                relatedId: row.id,
+                content: child.content
+            });
+        }
+    }
+
+    /**
+     * Centroid = mean of the members' pattern vectors (label embedding if no member has one).
+     */
+    private async rebuildClusters() {
+        const clusters = await this.storeDb.getAllClusters();
+
+        for (const cluster of clusters) {
+            const memberIds: string[] = Array.from(cluster.memberIds || []);
+            const members = await this.storeDb.getByIds(memberIds);
+
+            const memberVectors: number[][] = [];
+            for (const member of members) {
+                if (member.patternDescription) {
+                    memberVectors.push(await this.embeddings.getEmbedding(member.patternDescription));
+                }
+            }
+
+            const centroid = memberVectors.length > 0
+                ? memberVectors[0].map((_, i) => memberVectors.reduce((sum, v) => sum + v[i], 0) / memberVectors.length)
+                : await this.embeddings.getEmbedding(cluster.label || ' ');
+
+            await this.storeDb.saveCluster({
+                id: cluster.id,
+                label: cluster.label,
+                centroid,
+                memberIds,
+                usageCount: cluster.usageCount,
+                lastUsed: cluster.lastUsed
+            });
+        }
+    }
+}
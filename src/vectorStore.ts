@@ -1,18 +1,52 @@
 import * as lancedb from 'vectordb';
 import * as path from 'path';
-import * as os from 'os';
 import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import { EmbeddingService } from './embeddings';
+import { F, LanceFilter, toSqlLiteral } from './lanceFilter';
+import { VaultLocation } from './vaultLocation';
+import { ChurnKind } from './churn';
 
 export interface FailureEvent {
     id: string; // UUID
-    failure_type: 'runtime' | 'test' | 'deletion';
+    failure_type: 'runtime' | 'test' | 'deletion' | 'process' | 'recovery' | 'churn' | 'compile'; // 'recovery': a failing test passes again; 'churn' / 'compile': edit / compile error that does not count as a failure
     error_message: string;
     timestamp: string;
     file_path: string;
     related_memory_id?: string; // If known
+    link_method?: FailureLinkMethod;
+    link_line?: number; // 1-based line from the stack trace (0 if none)
+    link_score?: number; // Similarity of the error to the linked code (similarity links only)
+    churn_kind?: ChurnKind | ''; // What happened to the code ('deletion' and 'churn' events only)
 }
 
+/** How a failure was attributed to a memory: via its stack trace, by similarity, by churn detection (on save), or unlinked by the user. */
+export type FailureLinkMethod = 'stack' | 'similarity' | 'churn' | 'unlinked' | '';
+
+export interface VaultManifest {
+    embeddingModel: string; // Provider-qualified model id (e.g. "transformers:Xenova/all-MiniLM-L6-v2")
+    dimension: number;
+    migrating?: boolean; // Set while a re-embedding migration is in flight
+    schemaVersion?: number; // Row layout the vault was last re-indexed with (missing = 1)
+    label?: string; // Origin shown on search results from other vaults (e.g. workspace name)
+    lastConsolidatedAt?: string; // Last pattern consolidation pass
+    updatedAt: string;
+}
+
+/**
+ * Bump when the chunker or the row layout changes, so existing vaults get re-indexed.
+ * 1: regex chunks. 2: AST chunks with symbolName / signature / line range.
+ */
+export const VAULT_SCHEMA_VERSION = 2;
+
+export type VaultTableName = 'vectors' | 'clusters' | 'failures' | 'vibe_prompts';
+const VAULT_TABLES: VaultTableName[] = ['vectors', 'clusters', 'failures', 'vibe_prompts'];
+
+const MANIFEST_FILE = 'manifest.json';
+const MIGRATION_BACKUP_FILE = 'migration_backup.json';
+const columnBackupFile = (name: VaultTableName) => `${name}_column_backup.json`;
+const BY_ID_BATCH = 500; // Ids per `IN (...)` scan
+
 export class VectorStore {
     private dbPath: string;
     private db: any = null; // Use any to avoid type issues with null initially
@@ -20,9 +54,13 @@ export class VectorStore {
     private clusterTable: any = null;
     private failureTable: any = null;
     private vibeTable: any = null;
+    private dimension: number = 384;
+
+    // One re-embedding migration at a time, shared by every VectorStore instance
+    private static migration: Promise<void> | null = null;
 
-    constructor() {
-        this.dbPath = path.join(os.homedir(), '.gemini', 'antigravity', 'pattern-vault', 'data');
+    constructor(dbPath: string = VaultLocation.getInstance().getActivePath()) {
+        this.dbPath = dbPath;
         if (!fs.existsSync(this.dbPath)) {
             fs.mkdirSync(this.dbPath, { recursive: true });
         }
@@ -36,12 +74,26 @@ export class VectorStore {
         }
 
         try {
-            const tableNames = await this.db.tableNames();
+            this.dimension = await EmbeddingService.getInstance().getDimension();
+            await this.openTables();
+            await this.ensureEmbeddingCompatibility();
+        } catch (e) {
+            console.error('Failed to init vector store:', e);
+        }
+    }
+
+    private zeroVector(): number[] {
+        return Array(this.dimension).fill(0);
+    }
 
-            // Initialize 'vectors' table
-            if (!tableNames.includes('vectors')) {
-                this.table = await this.db.createTable('vectors', [{
-                    vector: Array(1536).fill(0), // Dummy vector for schema
+    /**
+     * Dummy first row used to infer each table's schema on creation (deleted right after).
+     */
+    private templateRow(name: VaultTableName): any {
+        switch (name) {
+            case 'vectors':
+                return {
+                    vector: this.zeroVector(), // Dummy vector for schema
                     id: 'init',
                     content: '',
                     filePath: '',
@@ -60,67 +112,422 @@ export class VectorStore {
                     vectorType: '',
                     relatedId: '',
                     summary: '',
-                    projectPath: ''
-                }]);
-                await this.table.delete('id = "init"');
-            } else {
-                this.table = await this.db.openTable('vectors');
-            }
-
-            // PATTERN CLUSTERS TABLE
-            if (!tableNames.includes('clusters')) {
-                this.clusterTable = await this.db.createTable('clusters', [{
-                    vector: Array(1536).fill(0), // Centroid
+                    projectPath: '',
+                    symbolName: '',
+                    signature: '',
+                    startLine: 0,
+                    endLine: 0,
+                    failureCount: 0,
+                    lastFailure: '',
+                    lastRecovery: '', // When a test that failed on this code passed again
+                    isUnstable: false,
+                    isTrusted: false,
+                    reuseCount: 0, // Times the memory was opened from results or the pattern library
+                    summarySource: '', // 'llm' | 'extractive' (offline fallback, upgraded later); '' = not recorded
+                    churnKind: '' // Set once the code left its file after saving: 'moved' | 'refactored' | 'reverted' | 'deleted'
+                };
+            case 'clusters':
+                return {
+                    vector: this.zeroVector(), // Centroid
                     id: 'init',
                     label: '',
-                    memberIds: [], // array of strings
+                    memberIds: [''], // array of strings (non-empty so the list type can be inferred)
                     usageCount: 0,
-                    lastUsed: ''
-                }]);
-                await this.clusterTable.delete('id = "init"');
-            } else {
-                this.clusterTable = await this.db.openTable('clusters');
-            }
-
-            // FAILURE EVENTS TABLE
-            if (!tableNames.includes('failures')) {
-                this.failureTable = await this.db.createTable('failures', [{
-                    vector: Array(1536).fill(0), // Dummy vector (required by LanceDB even if unused for search?)
-                    // Actually, LanceDB can store non-vector data, but usually expects a vector column for vector search.
-                    // We might want to embed the error message later? For now, let's keep it simple.
-                    // If we want to search by error similarity, we need a vector.
-                    // Let's add a dummy vector for now to stay consistent.
+                    lastUsed: '',
+                    pinned: false, // Kept first in the pattern library, left alone by consolidation
+                    exemplarId: '', // Computed best member
+                    exemplarOverride: '' // Best member chosen by the user (wins while still a member)
+                };
+            case 'failures':
+                return {
+                    vector: this.zeroVector(), // Embedded error message (used for similar-failure search)
                     id: 'init',
                     failure_type: '',
                     error_message: '',
                     timestamp: '',
                     file_path: '',
-                    related_memory_id: ''
-                }]);
-                await this.failureTable.delete('id = "init"');
-            } else {
-                this.failureTable = await this.db.openTable('failures');
-            }
-
-
-            // VIBE PROMPTS TABLE (Step 10)
-            if (!tableNames.includes('vibe_prompts')) {
-                this.vibeTable = await this.db.createTable('vibe_prompts', [{
-                    vector: Array(384).fill(0), // default for all-MiniLM-L6-v2 is 384 dims
+                    related_memory_id: '',
+                    link_method: '',
+                    link_line: 0,
+                    link_score: 0,
+                    churn_kind: ''
+                };
+            case 'vibe_prompts':
+                return {
+                    vector: this.zeroVector(),
                     id: 'init',
                     content: '',
                     sessionId: '',
                     status: '', // 'success', 'failed', 'unknown'
                     timestamp: ''
-                }]);
-                await this.vibeTable.delete('id = "init"');
+                };
+        }
+    }
+
+    private setTable(name: VaultTableName, table: any) {
+        if (name === 'vectors') this.table = table;
+        else if (name === 'clusters') this.clusterTable = table;
+        else if (name === 'failures') this.failureTable = table;
+        else this.vibeTable = table;
+    }
+
+    private getTable(name: VaultTableName): any {
+        if (name === 'vectors') return this.table;
+        if (name === 'clusters') return this.clusterTable;
+        if (name === 'failures') return this.failureTable;
+        return this.vibeTable;
+    }
+
+    private async openTables() {
+        const tableNames = await this.db.tableNames();
+        for (const name of VAULT_TABLES) {
+            const backupPath = path.join(this.dbPath, columnBackupFile(name));
+            if (fs.existsSync(backupPath)) {
+                // A column upgrade was interrupted: the backup holds the table as it was
+                console.log(`[VectorStore] Restoring ${name} from ${columnBackupFile(name)}`);
+                const rows: any[] = JSON.parse(await fs.promises.readFile(backupPath, 'utf8'));
+                await this.recreateTable(name, rows.map(row => this.conformRow(name, row)));
+                await fs.promises.unlink(backupPath).catch(() => undefined);
+            } else if (!tableNames.includes(name)) {
+                await this.recreateTable(name, []);
             } else {
-                this.vibeTable = await this.db.openTable('vibe_prompts');
+                this.setTable(name, await this.db.openTable(name));
+                await this.addMissingColumns(name);
             }
+        }
+    }
+
+    /**
+     * Tables created before a column was added to the template are rewritten with the column
+     * filled from the template (LanceDB cannot add a column in place). The rows are backed up to
+     * disk first; `openTables` restores from the backup if the rewrite did not finish.
+     */
+    private async addMissingColumns(name: VaultTableName) {
+        const schema = await this.getTable(name).schema;
+        const existing = new Set(schema.fields.map((field: any) => field.name));
+        const missing = Object.keys(this.templateRow(name)).filter(column => !existing.has(column));
+        if (missing.length === 0) return;
+
+        console.log(`[VectorStore] Adding column(s) ${missing.join(', ')} to ${name}`);
+        const rows = await this.readAllRows(name);
+        const backupPath = path.join(this.dbPath, columnBackupFile(name));
+        await fs.promises.writeFile(backupPath, JSON.stringify(rows), 'utf8');
+        await this.recreateTable(name, rows.map(row => this.conformRow(name, row)));
+        await fs.promises.unlink(backupPath).catch(() => undefined);
+    }
+
+    /**
+     * Drops (if present) and creates a table with the given rows, using the template for the schema.
+     */
+    private async recreateTable(name: VaultTableName, rows: any[]) {
+        const tableNames = await this.db.tableNames();
+        if (tableNames.includes(name)) {
+            await this.db.dropTable(name);
+        }
+
+        if (rows.length > 0) {
+            this.setTable(name, await this.db.createTable(name, rows));
+        } else {
+            const table = await this.db.createTable(name, [this.templateRow(name)]);
+            await table.delete(F.eq('id', 'init').toString());
+            this.setTable(name, table);
+        }
+    }
+
+    private async readAllRows(name: VaultTableName): Promise<any[]> {
+        const table = this.getTable(name);
+        if (!table) return [];
+
+        const count = await table.countRows();
+        if (count === 0) return [];
+
+        const rows = await table.filter(F.isNotNull('id').toString()).limit(count).execute();
+        return rows.map((row: any) => this.toPlainRow(row));
+    }
+
+    /**
+     * Arrow vectors / lists -> plain arrays, and drops query-only columns (`_distance`).
+     */
+    private toPlainRow(row: any): any {
+        const plain: any = {};
+        for (const [key, value] of Object.entries(row)) {
+            if (key.startsWith('_')) continue;
+            plain[key] = value && typeof value === 'object' && !Array.isArray(value) && Symbol.iterator in (value as any)
+                ? Array.from(value as any)
+                : value;
+        }
+        return plain;
+    }
+
+    // --- Manifest & Re-embedding Migration ---
 
+    /**
+     * JSON files kept beside the tables (manifest, migration / re-index job state).
+     */
+    readVaultFile<T>(fileName: string): T | null {
+        try {
+            const filePath = path.join(this.dbPath, fileName);
+            if (!fs.existsSync(filePath)) return null;
+            return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
         } catch (e) {
-            console.error('Failed to init vector store:', e);
+            console.error(`Failed to read ${fileName}:`, e);
+            return null;
+        }
+    }
+
+    writeVaultFile(fileName: string, data: any) {
+        // Write-then-rename so a crash never leaves a truncated file behind
+        const filePath = path.join(this.dbPath, fileName);
+        fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(data, null, 2), 'utf8');
+        fs.renameSync(`${filePath}.tmp`, filePath);
+    }
+
+    deleteVaultFile(fileName: string) {
+        fs.rmSync(path.join(this.dbPath, fileName), { force: true });
+    }
+
+    readManifest(): VaultManifest | null {
+        return this.readVaultFile<VaultManifest>(MANIFEST_FILE);
+    }
+
+    private writeManifest(manifest: VaultManifest) {
+        this.writeVaultFile(MANIFEST_FILE, manifest);
+    }
+
+    getSchemaVersion(): number {
+        const manifest = this.readManifest();
+        return (manifest && manifest.schemaVersion) || 1;
+    }
+
+    setSchemaVersion(schemaVersion: number) {
+        const manifest = this.readManifest();
+        if (!manifest) return; // Written by ensureEmbeddingCompatibility during init
+        this.writeManifest({ ...manifest, schemaVersion, updatedAt: new Date().toISOString() });
+    }
+
+    setLabel(label: string) {
+        const manifest = this.readManifest();
+        if (!manifest || manifest.label === label) return;
+        this.writeManifest({ ...manifest, label });
+    }
+
+    setLastConsolidated(timestamp: string) {
+        const manifest = this.readManifest();
+        if (!manifest) return;
+        this.writeManifest({ ...manifest, lastConsolidatedAt: timestamp });
+    }
+
+    /**
+     * Append-only JSON-lines logs beside the tables (e.g. the cluster change log).
+     */
+    appendVaultLog(fileName: string, entries: any[]) {
+        if (entries.length === 0) return;
+        fs.appendFileSync(path.join(this.dbPath, fileName), entries.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf8');
+    }
+
+    readVaultLog<T>(fileName: string, limit: number = 1000): T[] {
+        try {
+            const filePath = path.join(this.dbPath, fileName);
+            if (!fs.existsSync(filePath)) return [];
+            const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+            return lines.slice(-limit).map(line => JSON.parse(line) as T);
+        } catch (e) {
+            console.error(`Failed to read ${fileName}:`, e);
+            return [];
+        }
+    }
+
+    getPath(): string {
+        return this.dbPath;
+    }
+
+    /**
+     * Copies the rows of another vault into this one, skipping ids already present
+     * (so re-running after an interruption is safe). With `workspaceNames`, only those workspaces'
+     * memories come along (a shared vault holds every project's). The source vault is only read:
+     * rows embedded with another model are re-embedded on their way in.
+     * Returns the number of rows imported.
+     */
+    async importVault(sourcePath: string, workspaceNames?: string[]): Promise<number> {
+        if (!this.db) await this.init();
+
+        const source = new VectorStore(sourcePath);
+        await source.openReadOnly();
+
+        let snapshot: Record<VaultTableName, any[]> = { vectors: [], clusters: [], failures: [], vibe_prompts: [] };
+        for (const name of VAULT_TABLES) {
+            const existingIds = new Set((await this.readAllRows(name)).map(r => r.id));
+            snapshot[name] = (await source.readAllRows(name)).filter(r => !existingIds.has(r.id));
+        }
+        if (workspaceNames) {
+            snapshot = this.scopeToWorkspaces(snapshot, workspaceNames);
+        }
+
+        const embeddings = EmbeddingService.getInstance();
+        const manifest = source.readManifest();
+        if (!manifest || manifest.migrating || manifest.embeddingModel !== embeddings.getModelId() || manifest.dimension !== await embeddings.getDimension()) {
+            console.log(`[VectorStore] Re-embedding rows imported from ${sourcePath} (${manifest ? manifest.embeddingModel : 'legacy'} vault)`);
+            snapshot = await this.embedSnapshot(snapshot);
+        }
+
+        let imported = 0;
+        for (const name of VAULT_TABLES) {
+            const rows = snapshot[name];
+            if (rows.length === 0) continue;
+
+            await this.getTable(name).add(rows.map(row => this.conformRow(name, row)));
+            imported += rows.length;
+        }
+
+        // Keep the schema version honest: imported rows may predate the current chunker
+        if (imported > 0 && source.getSchemaVersion() < this.getSchemaVersion()) {
+            this.setSchemaVersion(source.getSchemaVersion());
+        }
+
+        console.log(`[VectorStore] Imported ${imported} rows from ${sourcePath}`);
+        return imported;
+    }
+
+    /**
+     * Connects and opens the existing tables as they are: no table creation, column upgrade or
+     * re-embedding (for reading another vault without changing it).
+     */
+    private async openReadOnly() {
+        if (!this.db) {
+            this.db = await lancedb.connect(this.dbPath);
         }
+        const tableNames = await this.db.tableNames();
+        for (const name of VAULT_TABLES) {
+            if (tableNames.includes(name)) this.setTable(name, await this.db.openTable(name));
+        }
+    }
+
+    /**
+     * The rows of a snapshot that belong to the given workspaces: memories (and their abstractions)
+     * by `workspaceName`, failures linked to them, and clusters trimmed to those members. Vibe
+     * prompts are not tied to a workspace and stay behind.
+     */
+    private scopeToWorkspaces(snapshot: Record<VaultTableName, any[]>, workspaceNames: string[]): Record<VaultTableName, any[]> {
+        const vectors = snapshot.vectors.filter(row => row.workspaceName && workspaceNames.includes(row.workspaceName));
+        const memoryIds = new Set(vectors.map(row => row.id));
+
+        const clusters = snapshot.clusters
+            .map(row => ({ ...row, memberIds: (row.memberIds || []).filter((id: string) => memoryIds.has(id)) }))
+            .filter(row => row.memberIds.length > 0);
+        const failures = snapshot.failures.filter(row => memoryIds.has(row.related_memory_id));
+
+        return { vectors, clusters, failures, vibe_prompts: [] };
+    }
+
+    /**
+     * Compares the vault manifest with the active embedding model.
+     * If the model or dimension changed (or a previous migration was interrupted), re-embeds the vault.
+     * Returns true if a migration ran.
+     */
+    async ensureEmbeddingCompatibility(onProgress?: (message: string) => void): Promise<boolean> {
+        const embeddings = EmbeddingService.getInstance();
+        const modelId = embeddings.getModelId();
+        const dimension = await embeddings.getDimension();
+        const manifest = this.readManifest();
+
+        if (manifest && !manifest.migrating && manifest.embeddingModel === modelId && manifest.dimension === dimension) {
+            return false;
+        }
+
+        if (!VectorStore.migration) {
+            VectorStore.migration = this.reembedVault(manifest, modelId, dimension, onProgress)
+                .finally(() => { VectorStore.migration = null; });
+        }
+        await VectorStore.migration;
+
+        // Another instance may have run it: re-open the recreated tables
+        this.dimension = dimension;
+        await this.openTables();
+        return true;
+    }
+
+    private async reembedVault(previous: VaultManifest | null, modelId: string, dimension: number, onProgress?: (message: string) => void) {
+        const backupPath = path.join(this.dbPath, MIGRATION_BACKUP_FILE);
+
+        // 1. Snapshot every table to disk first, so a crash mid-migration can be recovered
+        let snapshot: Record<VaultTableName, any[]>;
+        if (previous && previous.migrating && fs.existsSync(backupPath)) {
+            console.log('[VectorStore] Resuming interrupted re-embedding migration from backup.');
+            snapshot = JSON.parse(await fs.promises.readFile(backupPath, 'utf8'));
+        } else {
+            snapshot = { vectors: [], clusters: [], failures: [], vibe_prompts: [] };
+            for (const name of VAULT_TABLES) {
+                snapshot[name] = await this.readAllRows(name);
+            }
+            await fs.promises.writeFile(backupPath, JSON.stringify(snapshot), 'utf8');
+        }
+
+        // Re-embedding keeps the row layout, so the schema version carries over
+        const schemaVersion = previous ? previous.schemaVersion : undefined;
+        this.writeManifest({ embeddingModel: modelId, dimension, migrating: true, schemaVersion, updatedAt: new Date().toISOString() });
+        this.dimension = dimension;
+
+        const total = VAULT_TABLES.reduce((sum, name) => sum + snapshot[name].length, 0);
+        console.log(`[VectorStore] Re-embedding ${total} rows: ${previous ? previous.embeddingModel : 'legacy'} -> ${modelId} (${dimension} dims)`);
+
+        // 2. Re-embed rows from their stored text
+        const embedded = await this.embedSnapshot(snapshot, onProgress);
+
+        // 3. Swap tables (schema is re-inferred with the new dimension)
+        await this.recreateTable('vectors', embedded.vectors);
+        await this.recreateTable('clusters', embedded.clusters);
+        await this.recreateTable('failures', embedded.failures);
+        await this.recreateTable('vibe_prompts', embedded.vibe_prompts);
+
+        this.writeManifest({ embeddingModel: modelId, dimension, schemaVersion, updatedAt: new Date().toISOString() });
+        await fs.promises.unlink(backupPath).catch(() => undefined);
+        console.log(`[VectorStore] Re-embedding migration complete (${total} rows).`);
+    }
+
+    /**
+     * Rows with their vectors recomputed by the active embedding model from their stored text.
+     */
+    private async embedSnapshot(snapshot: Record<VaultTableName, any[]>, onProgress?: (message: string) => void): Promise<Record<VaultTableName, any[]>> {
+        const embeddings = EmbeddingService.getInstance();
+        const total = VAULT_TABLES.reduce((sum, name) => sum + snapshot[name].length, 0);
+
+        let done = 0;
+        const embed = async (text: string) => {
+            done++;
+            if (onProgress && done % 25 === 0) onProgress(`Re-embedded ${done}/${total}`);
+            return embeddings.getEmbedding(text || ' ');
+        };
+
+        const vectors = [];
+        for (const row of snapshot.vectors) {
+            vectors.push({ ...row, vector: await embed(row.content) });
+        }
+
+        // Cluster centroids are the mean of their members' pattern abstraction vectors
+        const clusters = [];
+        for (const row of snapshot.clusters) {
+            const memberIds: string[] = row.memberIds || [];
+            const memberVectors = vectors
+                .filter(v => v.vectorType === 'pattern_abstraction' && memberIds.includes(v.relatedId))
+                .map(v => v.vector as number[]);
+            const centroid = memberVectors.length > 0
+                ? memberVectors[0].map((_, i) => memberVectors.reduce((sum, v) => sum + v[i], 0) / memberVectors.length)
+                : await embed(row.label);
+            done++;
+            clusters.push({ ...row, vector: centroid });
+        }
+
+        const failures = [];
+        for (const row of snapshot.failures) {
+            failures.push({ ...row, vector: await embed(row.error_message) });
+        }
+
+        const vibePrompts = [];
+        for (const row of snapshot.vibe_prompts) {
+            vibePrompts.push({ ...row, vector: await embed(row.content) });
+        }
+
+        return { vectors, clusters, failures, vibe_prompts: vibePrompts };
     }
 
     // --- Vibe Prompts Methods ---
@@ -157,19 +564,36 @@ export class VectorStore {
         if (!this.db || !this.failureTable) await this.init();
         if (!this.failureTable) return;
 
-        const data = {
-            vector: embedding || Array(1536).fill(0), // Use actual embedding or dummy
-            id: event.id,
-            failure_type: event.failure_type,
-            error_message: event.error_message,
-            timestamp: event.timestamp,
-            file_path: event.file_path,
-            related_memory_id: event.related_memory_id || ''
-        };
+        const data = this.conformRow('failures', {
+            ...event,
+            vector: embedding || this.zeroVector() // Use actual embedding or dummy
+        });
 
         await this.failureTable.add([data]);
     }
 
+    /** Failure rows as plain objects, newest first. */
+    async getFailures(where?: LanceFilter, limit: number = 1000): Promise<any[]> {
+        if (!this.db || !this.failureTable) await this.init();
+        if (!this.failureTable) return [];
+
+        try {
+            // Scan everything matching, then sort: the scan order is not chronological
+            const count = await this.failureTable.countRows();
+            if (count === 0) return [];
+            const rows = await this.failureTable.filter((where || F.isNotNull('id')).toString())
+                .limit(count)
+                .execute();
+            return rows
+                .map((row: any) => this.toPlainRow(row))
+                .sort((a: any, b: any) => (b.timestamp || '').localeCompare(a.timestamp || ''))
+                .slice(0, limit);
+        } catch (e) {
+            console.error('Error fetching failures:', e);
+            return [];
+        }
+    }
+
     async searchFailures(queryVector: number[], limit: number = 5): Promise<any[]> {
         if (!this.db || !this.failureTable) await this.init();
         if (!this.failureTable) return [];
@@ -185,12 +609,13 @@ export class VectorStore {
     async savePattern(embedding: number[], metadata: any): Promise<string> {
         if (!this.db || !this.table) await this.init(); // Ensure db and table are initialized
 
-        const data = [{
+        // Conformed to the table schema: callers pass partial metadata
+        const data = [this.conformRow('vectors', {
             id: uuidv4(),
             vector: embedding,
             ...metadata,
             timestamp: new Date().toISOString()
-        }];
+        })];
 
         if (!this.table) { // This case should ideally not be hit if init() is awaited
             try {
@@ -216,14 +641,7 @@ export class VectorStore {
     }
 
     async getPatternById(id: string) {
-        if (!this.db) await this.init();
-        if (!this.table) return null;
-
-        const results = await this.table.search([0] /* dummy */)
-            .where(`id = '${id}'`)
-            .limit(1)
-            .execute();
-
+        const results = await this.getByIds([id]);
         return results.length > 0 ? results[0] : null;
     }
 
@@ -231,15 +649,15 @@ export class VectorStore {
         if (!this.db) await this.init();
         if (!this.table) return;
 
-        // LanceDB delete syntax: table.delete("filter string")
-        await this.table.delete(`id = '${id}'`);
+        await this.table.delete(F.eq('id', id).toString());
     }
 
-    async deleteRelatedVectors(relatedId: string) {
+    async deleteRelatedVectors(relatedId: string, vectorType?: string) {
         if (!this.db) await this.init();
         if (!this.table) return;
 
-        await this.table.delete(`relatedId = '${relatedId}'`);
+        const filter = F.eq('relatedId', relatedId);
+        await this.table.delete((vectorType ? F.and(filter, F.eq('vectorType', vectorType)) : filter).toString());
     }
 
     // --- Cluster Methods ---
@@ -248,20 +666,24 @@ export class VectorStore {
         if (!this.db || !this.clusterTable) await this.init();
         if (!this.clusterTable) return;
 
-        const data = {
+        await this.upsert([{
             vector: cluster.centroid,
             id: cluster.id,
             label: cluster.label,
             memberIds: cluster.memberIds,
             usageCount: cluster.usageCount,
-            lastUsed: cluster.lastUsed
-        };
+            lastUsed: cluster.lastUsed,
+            pinned: !!cluster.pinned,
+            exemplarId: cluster.exemplarId || '',
+            exemplarOverride: cluster.exemplarOverride || ''
+        }], 'clusters');
+    }
 
-        try {
-            await this.clusterTable.delete(`id = '${cluster.id}'`);
-        } catch (e) { }
+    async deleteClusters(ids: string[]) {
+        if (!this.db || !this.clusterTable) await this.init();
+        if (!this.clusterTable || ids.length === 0) return;
 
-        await this.clusterTable.add([data]);
+        await this.clusterTable.delete(F.in('id', ids).toString());
     }
 
     async getAllClusters(): Promise<any[]> {
@@ -269,7 +691,7 @@ export class VectorStore {
         if (!this.clusterTable) return [];
 
         try {
-            return await this.clusterTable.search(Array(1536).fill(0))
+            return await this.clusterTable.search(this.zeroVector())
                 .limit(1000)
                 .execute();
         } catch (e) {
@@ -278,61 +700,152 @@ export class VectorStore {
         }
     }
 
-    async updatePattern(id: string, updates: any) {
-        if (!this.db) await this.init();
-        if (!this.table) return;
+    // --- Bulk & In-place Updates ---
 
-        // LanceDB currently handles updates by delete + re-insert or specialized update APIs depending on version.
-        // For simplicity and compatibility: Read -> Delete -> Modify -> Insert
-        const results = await this.table.search([0] /* Dummy vector, unused for ID query usually but required by API? No, use filter */)
-            .where(`id = '${id}'`)
-            .limit(1)
-            .execute();
+    /**
+     * Field-level, in-place update. Only the listed columns change: the vector and `timestamp`
+     * are kept unless they are part of `values`. Updates with identical values share one statement.
+     */
+    async updateMany(updates: { id: string, values: Record<string, any> }[], tableName: VaultTableName = 'vectors') {
+        if (!this.db) await this.init();
+        const table = this.getTable(tableName);
+        if (!table) return;
+
+        const columns = Object.keys(this.templateRow(tableName));
+        const batches = new Map<string, { valuesSql: Record<string, string>, ids: string[] }>();
+
+        for (const update of updates) {
+            const valuesSql: Record<string, string> = {};
+            for (const [column, value] of Object.entries(update.values)) {
+                // Never rewrite the key, and skip query-only / unknown columns
+                if (column === 'id' || value === undefined || !columns.includes(column)) continue;
+                valuesSql[column] = toSqlLiteral(value);
+            }
+            if (Object.keys(valuesSql).length === 0) continue;
 
-        if (results.length > 0) {
-            const oldRecord = results[0];
-            await this.table.delete(`id = '${id}'`);
+            const key = JSON.stringify(valuesSql);
+            const batch = batches.get(key) || { valuesSql, ids: [] };
+            batch.ids.push(update.id);
+            batches.set(key, batch);
+        }
 
-            const newRecord = { ...oldRecord, ...updates, timestamp: new Date().toISOString() };
-            // Ensure vector is preserved if not in updates
-            // (LanceDB results might not return vector by default unless requested, assume we need to handle this carefully)
-            // Actually, for metadata updates (failure log), we don't change the vector.
-            // CAUTION: If 'vector' isn't in results, we lose it. 
-            // We should ensure we fetch it. safely. 
-            // Simplified approach: Just delete and re-add if we have the full object. 
+        for (const batch of batches.values()) {
+            await table.update({
+                where: F.in('id', batch.ids).toString(),
+                valuesSql: batch.valuesSql
+            });
+        }
+    }
 
-            // Allow simpler "append" logic or just separate table for failure logs?
-            // To keep it simple for this MVP: 
-            // We will just perform a delete-insert if we can get the vector.
-            // If we can't easily get the vector, we might need a different strategy.
-            // LanceDB 0.4+ supports update? 
-            // Let's assume we can merge.
+    /**
+     * Child vectors (pattern_abstraction / prompt / ai_response) of the given code rows, as plain objects.
+     */
+    async getRelatedVectors(relatedIds: string[], vectorType: string): Promise<any[]> {
+        if (!this.db || !this.table) await this.init();
+        if (!this.table || relatedIds.length === 0) return [];
 
-            // Re-inserting:
-            await this.table.add([newRecord]);
+        const count = await this.table.countRows();
+        const unique = Array.from(new Set(relatedIds));
+        const rows: any[] = [];
+        for (let i = 0; i < unique.length; i += BY_ID_BATCH) {
+            const batch = unique.slice(i, i + BY_ID_BATCH);
+            try {
+                const results = await this.table.filter(F.and(F.in('relatedId', batch), F.eq('vectorType', vectorType)).toString())
+                    .limit(count)
+                    .execute();
+                results.forEach((r: any) => rows.push(this.toPlainRow(r)));
+            } catch (e) {
+                console.error('Error fetching related vectors:', e);
+            }
         }
+        return rows;
     }
 
-    async getMemoriesByIds(ids: string[]): Promise<any[]> {
-        if (!this.db || !this.table) await this.init();
-        if (!this.table) return [];
+    /**
+     * Fetches rows by id with one filtered scan per batch (no vector search).
+     * Rows come back as plain objects, in the order of `ids`.
+     */
+    async getByIds(ids: string[], tableName: VaultTableName = 'vectors'): Promise<any[]> {
+        if (!this.db) await this.init();
+        const table = this.getTable(tableName);
+        if (!table || ids.length === 0) return [];
 
-        // Use concurrency to fetch multiple IDs
-        // Note: For very large clusters, batching would be better, but this suffices for typical use.
-        const promises = ids.map(async (id) => {
+        const unique = Array.from(new Set(ids));
+        const rows: any[] = [];
+        for (let i = 0; i < unique.length; i += BY_ID_BATCH) {
+            const batch = unique.slice(i, i + BY_ID_BATCH);
             try {
-                const results = await this.table.search(Array(1536).fill(0))
-                    .where(`id = '${id}'`)
-                    .limit(1)
+                const results = await table.filter(F.in('id', batch).toString())
+                    .limit(batch.length)
                     .execute();
-                return results.length > 0 ? results[0] : null;
+                results.forEach((r: any) => rows.push(this.toPlainRow(r)));
             } catch (e) {
-                return null;
+                console.error('Error fetching rows by id:', e);
             }
+        }
+
+        const order = new Map(unique.map((id, index) => [id, index]));
+        return rows.sort((a, b) => (order.get(a.id) || 0) - (order.get(b.id) || 0));
+    }
+
+    /**
+     * Inserts rows, or replaces the existing rows with the same id (keeping whatever the caller passes,
+     * including `timestamp`). Missing columns are filled from the table template.
+     */
+    async upsert(rows: any[], tableName: VaultTableName = 'vectors') {
+        if (!this.db) await this.init();
+        const table = this.getTable(tableName);
+        if (!table || rows.length === 0) return;
+
+        await table.mergeInsert('id', rows.map(row => this.conformRow(tableName, row)), {
+            whenMatchedUpdateAll: true,
+            whenNotMatchedInsertAll: true
         });
+    }
+
+    /**
+     * Keeps only the table's columns, filling missing ones from the template
+     * (older vaults and callers may lack newer columns).
+     */
+    private conformRow(tableName: VaultTableName, row: any): any {
+        const plain = this.toPlainRow(row);
+        const template = this.templateRow(tableName);
+        const out: any = {};
+        for (const key of Object.keys(template)) {
+            out[key] = plain[key] !== undefined && plain[key] !== null ? plain[key] : template[key];
+        }
+        return out;
+    }
+
+    async getAllMemories(limit: number = 10000, where?: LanceFilter): Promise<any[]> {
+        if (!this.db || !this.table) await this.init();
+        if (!this.table) return [];
 
-        const results = await Promise.all(promises);
-        return results.filter(r => r !== null);
+        // Plain filtered scan (no vector) over main code records only
+        const codeOnly = F.eq('vectorType', 'code');
+        const filter = where ? F.and(codeOnly, where) : codeOnly;
+        try {
+            return await this.table.filter(filter.toString())
+                .limit(limit)
+                .execute();
+        } catch (e) {
+            console.error('Error scanning memories:', e);
+            return [];
+        }
+    }
+
+    async getAllMemoryIds(): Promise<string[]> {
+        if (!this.db || !this.table) await this.init();
+        if (!this.table) return [];
+
+        const count = await this.table.countRows();
+        if (count === 0) return [];
+
+        const rows = await this.table.filter(F.eq('vectorType', 'code').toString())
+            .select(['id'])
+            .limit(count)
+            .execute();
+        return rows.map((r: any) => r.id);
     }
 
     async findMostRecentMemory(filePath: string): Promise<any | null> {
@@ -340,8 +853,8 @@ export class VectorStore {
         if (!this.table) return null;
 
         try {
-            const results = await this.table.search(Array(1536).fill(0))
-                .where(`filePath = '${filePath.replace(/\\/g, '\\\\')}'`) // Escape backslashes
+            const results = await this.table.search(this.zeroVector())
+                .where(F.eq('filePath', filePath).toString())
                 .limit(1)
                 .execute();
             return results.length > 0 ? results[0] : null; // LanceDB results are usually ordered by insertion if no sort? 
@@ -364,8 +877,8 @@ export class VectorStore {
         const cutoff = new Date(Date.now() - minutes * 60000).toISOString();
 
         try {
-            const results = await this.table.search(Array(1536).fill(0))
-                .where(`filePath = '${filePath.replace(/\\/g, '\\\\')}' AND timestamp > '${cutoff}'`)
+            const results = await this.table.search(this.zeroVector())
+                .where(F.and(F.eq('filePath', filePath), F.gt('timestamp', cutoff)).toString())
                 .limit(50)
                 .execute();
             return results;
@@ -375,12 +888,12 @@ export class VectorStore {
         }
     }
 
-    async searchWithFilter(vector: number[], filter: string, limit: number = 5): Promise<any[]> {
+    async searchWithFilter(vector: number[], filter: LanceFilter, limit: number = 5): Promise<any[]> {
         if (!this.db || !this.table) await this.init();
         if (!this.table) return [];
         try {
             return await this.table.search(vector)
-                .where(filter)
+                .where(filter.toString())
                 .limit(limit)
                 .execute();
         } catch (e) {